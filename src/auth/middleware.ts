@@ -0,0 +1,131 @@
+import type { NextFunction, Request, Response } from "express"
+import type { ExtendedError, Socket } from "socket.io"
+import type { ModerationService } from "../services/moderation"
+import type { RateLimiter } from "../services/rateLimiter"
+import type { Role } from "../types"
+import { canPerform, forbiddenError } from "./permissions"
+import { TokenError, verifyToken, type TokenClaims } from "./token"
+
+/**
+ * Pulls a bearer token out of an Authorization header value.
+ */
+export const extractBearerToken = (header: string | undefined): string | undefined => {
+    if (!header) return undefined
+    const [scheme, value] = header.split(" ")
+    return scheme?.toLowerCase() === "bearer" && value ? value : undefined
+}
+
+/**
+ * Socket.IO middleware that authenticates the handshake. The token may be sent in
+ * `auth.token`, an `Authorization: Bearer` header or a `token` query parameter.
+ * Verified claims are stored on `socket.data.auth`; failures reach the client as a
+ * `connect_error` whose `data` carries `{ code, message }`.
+ */
+export const authenticateSocket = (socket: Socket, next: (err?: ExtendedError) => void): void => {
+    const { auth, headers, query } = socket.handshake
+    const token =
+        (typeof auth?.token === "string" ? auth.token : undefined) ||
+        extractBearerToken(headers.authorization) ||
+        (typeof query?.token === "string" ? query.token : undefined)
+
+    try {
+        socket.data.auth = verifyToken(token)
+        next()
+    } catch (error) {
+        const code = error instanceof TokenError ? error.code : "TOKEN_INVALID_CLAIMS"
+        const message = error instanceof Error ? error.message : "Authentication failed"
+        console.warn(`🔒 Rejected handshake from ${socket.handshake.address}: ${code}`)
+
+        const err: ExtendedError = new Error(message)
+        err.data = { code, message }
+        next(err)
+    }
+}
+
+/**
+ * Express middleware that requires an `Authorization: Bearer` token.
+ * Verified claims are stored on `res.locals.auth`.
+ */
+export const authenticateRequest = (req: Request, res: Response, next: NextFunction): void => {
+    try {
+        res.locals.auth = verifyToken(extractBearerToken(req.headers.authorization))
+        next()
+    } catch (error) {
+        const code = error instanceof TokenError ? error.code : "TOKEN_INVALID_CLAIMS"
+        res.status(401).json({
+            error: error instanceof Error ? error.message : "Authentication failed",
+            code,
+            timestamp: new Date().toISOString(),
+        })
+    }
+}
+
+/**
+ * Express middleware applying the socket permission policy to a REST action. When the route
+ * has an `:id` session parameter, session-scoped tokens must match it. With `allowSelfParam`,
+ * callers may also act on their own identity named by that route parameter.
+ */
+export const requirePermission =
+    (action: string, options: { allowSelfParam?: string } = {}) =>
+    (req: Request, res: Response, next: NextFunction): void => {
+        const auth: TokenClaims = res.locals.auth
+        const sessionId = req.params.id
+        const isSelf = Boolean(options.allowSelfParam && req.params[options.allowSelfParam] === auth.sub)
+
+        if ((!canPerform(auth.role, action) && !isSelf) || (sessionId && auth.sessionId && auth.sessionId !== sessionId)) {
+            const { message, code } = forbiddenError(action)
+            res.status(403).json({ error: message, code, timestamp: new Date().toISOString() })
+            return
+        }
+        next()
+    }
+
+/**
+ * Express middleware refusing accounts banned from the session named by the route's `:id`
+ * parameter with a 403, as joining the session over the socket does.
+ */
+export const refuseBanned =
+    (getBan: ModerationService["getBan"]) =>
+    (req: Request, res: Response, next: NextFunction): void => {
+        const auth: TokenClaims = res.locals.auth
+        const sessionId = req.params.id
+        if (sessionId && getBan(sessionId, auth.sub)) {
+            res.status(403).json({ error: "You are banned from this session", code: "BANNED", timestamp: new Date().toISOString() })
+            return
+        }
+        next()
+    }
+
+/**
+ * Express middleware replacing the token's role with the one the account holds in the session
+ * named by the route's `:id` parameter, so role changes made in the session apply to REST calls
+ * as they do on the socket.
+ */
+export const applySessionRole =
+    (roleFor: (sessionId: string, accountId: string, tokenRole: Role) => Role) =>
+    (req: Request, res: Response, next: NextFunction): void => {
+        const auth: TokenClaims = res.locals.auth
+        if (req.params.id) res.locals.auth = { ...auth, role: roleFor(req.params.id, auth.sub, auth.role) }
+        next()
+    }
+
+/**
+ * Express middleware applying a per-client-address token bucket. Rejected requests get a 429
+ * with the standard error body plus `retryAfterMs`, and a `Retry-After` header in seconds.
+ */
+export const rateLimitRequests =
+    (limiter: RateLimiter) =>
+    (req: Request, res: Response, next: NextFunction): void => {
+        const result = limiter.consume(req.ip || req.socket.remoteAddress || "unknown", "http")
+        if (!result.allowed) {
+            res.setHeader("Retry-After", Math.ceil(result.retryAfterMs / 1000))
+            res.status(429).json({
+                error: "Too many requests",
+                code: "RATE_LIMIT",
+                retryAfterMs: result.retryAfterMs,
+                timestamp: new Date().toISOString(),
+            })
+            return
+        }
+        next()
+    }
@@ -0,0 +1,170 @@
+import { ROLES, type Role } from "../types"
+
+const ALL_ROLES: readonly Role[] = ROLES
+const STAFF: readonly Role[] = ["admin", "moderator"]
+const ADMINS: readonly Role[] = ["admin"]
+
+/**
+ * Which roles may emit each client → server socket event.
+ * Events that are not listed here are denied.
+ */
+export const EVENT_PERMISSIONS: Readonly<Record<string, readonly Role[]>> = {
+    "join-tracking": ALL_ROLES,
+    "users-list": ALL_ROLES,
+    "location-update": ALL_ROLES,
+    "location-batch": ALL_ROLES,
+    "typing-start": ALL_ROLES,
+    "typing-stop": ALL_ROLES,
+    "send-message": ALL_ROLES,
+    "message-reaction": ALL_ROLES,
+    "edit-message": ALL_ROLES, // authors only, see canModifyMessage
+    "delete-message": ALL_ROLES, // authors only, see canModifyMessage
+    "status-update": ALL_ROLES,
+    "presence-update": ALL_ROLES,
+    "messages-history": ALL_ROLES,
+    "geofences-list": ALL_ROLES,
+    "sharing-pause": ALL_ROLES,
+    "sharing-resume": ALL_ROLES,
+    "privacy-zones": ALL_ROLES,
+    "privacy-zone-set": ALL_ROLES,
+    "privacy-zone-delete": ALL_ROLES,
+    "sos-alert": ALL_ROLES,
+    "sos-ack": STAFF,
+    "sos-resolve": STAFF,
+    "alerts-view": STAFF,
+    "watchdog-view": STAFF,
+    "geofence-define": ADMINS,
+    "geofence-delete": ADMINS,
+    "geofence-dwell": STAFF,
+    "task-create": STAFF,
+    "task-assign": STAFF,
+    "task-update": ALL_ROLES, // assignees move their own tasks along, see the task service
+    "tasks-list": ALL_ROLES,
+    "nearest-users": STAFF,
+    "proximity-rules": STAFF,
+    "proximity-rule-set": ADMINS,
+    "proximity-rule-delete": ADMINS,
+    "timesheets-view": STAFF,
+    "gps-quality": STAFF,
+    "track-export": STAFF, // workers may export their own track
+    "eta-view": STAFF, // workers may see their own
+    "eta-share": STAFF,
+    "replay-start": STAFF,
+    "replay-pause": STAFF,
+    "replay-resume": STAFF,
+    "replay-seek": STAFF,
+    "replay-speed": STAFF,
+    "replay-stop": STAFF,
+    ping: ALL_ROLES,
+    pong: ALL_ROLES,
+    "reconnect-request": ALL_ROLES,
+    "sync-since": ALL_ROLES,
+    "moderation-kick": STAFF,
+    "moderation-mute": STAFF,
+    "moderation-unmute": STAFF,
+    "moderation-ban": STAFF,
+    "moderation-unban": STAFF,
+    "moderation-role": ADMINS,
+    "moderation-list": STAFF,
+    "audit-view": ADMINS,
+    "session-list": STAFF,
+    "session-view": ALL_ROLES,
+    "session-create": STAFF,
+    "session-update": STAFF,
+    "session-close": ADMINS,
+    "session-archive": ADMINS,
+    "session-delete": ADMINS,
+    "invite-create": STAFF,
+    "invite-list": STAFF,
+    "invite-revoke": STAFF,
+    "join-requests": STAFF,
+    "approve-join": STAFF,
+    "deny-join": STAFF,
+}
+
+/**
+ * What each role may see about *other* participants.
+ */
+export const VIEW_PERMISSIONS = {
+    "view-trail": ["admin", "moderator", "worker"],
+    "view-exact-location": ["admin", "moderator", "worker"],
+} as const satisfies Record<string, readonly Role[]>
+
+export type ViewCapability = keyof typeof VIEW_PERMISSIONS
+
+export const isStaff = (role: Role): boolean => STAFF.includes(role)
+
+export const canPerform = (role: Role, event: string): boolean => {
+    const allowed = EVENT_PERMISSIONS[event]
+    return Boolean(allowed && allowed.includes(role))
+}
+
+// Authors may modify their own messages; moderators and admins may modify any message
+export const canModifyMessage = (role: Role, accountId: string, authorAccountId: string): boolean =>
+    accountId === authorAccountId || isStaff(role)
+
+// Moderators and admins may only act on users ranked below them
+const ROLE_RANK: Readonly<Record<Role, number>> = { admin: 3, moderator: 2, worker: 1, new: 0 }
+
+export const canModerate = (actorRole: Role, targetRole: Role): boolean => ROLE_RANK[actorRole] > ROLE_RANK[targetRole]
+
+// Invites and approvals may preset a role up to the granting user's own
+export const canGrant = (actorRole: Role, role: Role): boolean => ROLE_RANK[actorRole] >= ROLE_RANK[role]
+
+export const canView = (role: Role, capability: ViewCapability): boolean =>
+    (VIEW_PERMISSIONS[capability] as readonly Role[]).includes(role)
+
+export const forbiddenError = (action: string) => ({
+    message: `You are not allowed to perform "${action}"`,
+    code: "FORBIDDEN" as const,
+    action,
+})
+
+// ~1.1km precision for viewers without exact-location access
+const COARSE_PRECISION = 2
+
+export const coarsenLocation = <T extends { latitude?: number; longitude?: number } | null | undefined>(location: T): T => {
+    if (!location || typeof location.latitude !== "number" || typeof location.longitude !== "number") {
+        return location
+    }
+    return {
+        latitude: Number(location.latitude.toFixed(COARSE_PRECISION)),
+        longitude: Number(location.longitude.toFixed(COARSE_PRECISION)),
+        approximate: true,
+    } as unknown as T
+}
+
+// The location-bearing fields the view policy applies to
+export interface RedactableFields {
+    location?: any
+    trail?: any[]
+    accuracy?: number | null
+    speed?: number | null
+    heading?: number | null
+    eta?: any
+}
+
+/**
+ * Applies the view policy to location-bearing fields of a payload about another participant.
+ */
+export const redactForViewer = <T extends RedactableFields>(
+    payload: T,
+    viewerRole: Role,
+): T => {
+    const redacted = { ...payload }
+
+    if ("trail" in redacted && !canView(viewerRole, "view-trail")) {
+        redacted.trail = []
+    }
+
+    if (!canView(viewerRole, "view-exact-location")) {
+        if ("location" in redacted) redacted.location = coarsenLocation(redacted.location)
+        if ("accuracy" in redacted) redacted.accuracy = null
+        if ("speed" in redacted) redacted.speed = null
+        if ("heading" in redacted) redacted.heading = null
+        // Distance to a known site would give the exact position away
+        if ("eta" in redacted) redacted.eta = null
+    }
+
+    return redacted
+}
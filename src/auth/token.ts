@@ -0,0 +1,204 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto"
+import { config } from "../config"
+import { isRole, type Role } from "../types"
+import { isValidCoordinates, type Coordinates } from "../utils/geo"
+
+export interface TokenClaims {
+    sub: string // stable user identity
+    name: string
+    role: Role
+    sessionId?: string // optional: restrict the token to a single tracking session
+    iss: string
+    iat: number
+    exp: number
+}
+
+export type TokenErrorCode =
+    | "TOKEN_MISSING"
+    | "TOKEN_MALFORMED"
+    | "TOKEN_INVALID_SIGNATURE"
+    | "TOKEN_EXPIRED"
+    | "TOKEN_INVALID_CLAIMS"
+
+export class TokenError extends Error {
+    constructor(
+        public readonly code: TokenErrorCode,
+        message: string,
+    ) {
+        super(message)
+        this.name = "TokenError"
+    }
+}
+
+// Read-only access to one participant's ETA, for sharing with a customer
+export interface ViewTokenClaims {
+    scope: "eta"
+    sessionId: string
+    accountId: string // the participant whose ETA is shown
+    target: Coordinates | null // a fixed point, or null for the site of the task
+    taskId: string | null
+    iss: string
+    iat: number
+    exp: number
+}
+
+const VIEW_TOKEN_TYPE = "view+jwt"
+
+export interface SignTokenInput {
+    sub?: string
+    name: string
+    role: Role
+    sessionId?: string
+    ttlSeconds?: number
+}
+
+const base64url = (input: Buffer | string): string => Buffer.from(input).toString("base64url")
+
+const sign = (data: string, secret: string): string => createHmac("sha256", secret).update(data).digest("base64url")
+
+const encode = (claims: object, typ: string, secret: string): string => {
+    const header = base64url(JSON.stringify({ alg: "HS256", typ }))
+    const payload = base64url(JSON.stringify(claims))
+    return `${header}.${payload}.${sign(`${header}.${payload}`, secret)}`
+}
+
+// Checks structure and signature, returning the unverified claims of a token of the given type
+const decode = (token: string, typ: string, secret: string): any => {
+    const parts = token.split(".")
+    if (parts.length !== 3) {
+        throw new TokenError("TOKEN_MALFORMED", "Authentication token is malformed")
+    }
+
+    const [header, payload, signature] = parts
+    let decodedHeader: any
+    let claims: any
+    try {
+        decodedHeader = JSON.parse(Buffer.from(header, "base64url").toString("utf8"))
+        claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"))
+    } catch {
+        throw new TokenError("TOKEN_MALFORMED", "Authentication token is malformed")
+    }
+
+    if (decodedHeader?.alg !== "HS256") {
+        throw new TokenError("TOKEN_MALFORMED", "Unsupported token algorithm")
+    }
+
+    const expected = Buffer.from(sign(`${header}.${payload}`, secret))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new TokenError("TOKEN_INVALID_SIGNATURE", "Authentication token signature is invalid")
+    }
+
+    // Checked after the signature so a token of another type is not mistaken for a forged one
+    if ((decodedHeader.typ ?? "JWT") !== typ) {
+        throw new TokenError("TOKEN_INVALID_CLAIMS", "Token cannot be used here")
+    }
+    return claims
+}
+
+/**
+ * Issues an HS256 JSON Web Token for the given identity.
+ * @param {SignTokenInput} input - Identity and role to embed in the claims.
+ * @returns {{ token: string, claims: TokenClaims }} The encoded token and its claims.
+ */
+export const signToken = (input: SignTokenInput, secret = config.auth.secret): { token: string; claims: TokenClaims } => {
+    const now = Math.floor(Date.now() / 1000)
+    const claims: TokenClaims = {
+        sub: input.sub || randomUUID(),
+        name: input.name.trim(),
+        role: input.role,
+        ...(input.sessionId ? { sessionId: input.sessionId } : {}),
+        iss: config.auth.issuer,
+        iat: now,
+        exp: now + (input.ttlSeconds ?? config.auth.tokenTtlSeconds),
+    }
+
+    return { token: encode(claims, "JWT", secret), claims }
+}
+
+/**
+ * Verifies signature, expiry and claim shape of an HS256 token.
+ * @param {string | undefined} token - The encoded token.
+ * @returns {TokenClaims} The verified claims.
+ * @throws {TokenError} When the token is missing, malformed, forged or expired.
+ */
+export const verifyToken = (token: string | undefined, secret = config.auth.secret): TokenClaims => {
+    if (!token) {
+        throw new TokenError("TOKEN_MISSING", "Authentication token is required")
+    }
+
+    const claims = decode(token, "JWT", secret)
+
+    if (
+        !claims ||
+        typeof claims.sub !== "string" ||
+        typeof claims.name !== "string" ||
+        claims.name.trim().length === 0 ||
+        !isRole(claims.role) ||
+        typeof claims.exp !== "number" ||
+        (claims.sessionId !== undefined && typeof claims.sessionId !== "string") ||
+        claims.iss !== config.auth.issuer
+    ) {
+        throw new TokenError("TOKEN_INVALID_CLAIMS", "Authentication token claims are invalid")
+    }
+
+    if (claims.exp <= Math.floor(Date.now() / 1000)) {
+        throw new TokenError("TOKEN_EXPIRED", "Authentication token has expired")
+    }
+
+    return claims as TokenClaims
+}
+
+/**
+ * Issues a view token for a customer link. View tokens carry their own header type, so they are
+ * never accepted as authentication tokens (and vice versa).
+ * @returns {{ token: string, claims: ViewTokenClaims }} The encoded token and its claims.
+ */
+export const signViewToken = (
+    input: { sessionId: string; accountId: string; target: Coordinates | null; taskId: string | null; ttlSeconds: number },
+    secret = config.auth.secret,
+): { token: string; claims: ViewTokenClaims } => {
+    const now = Math.floor(Date.now() / 1000)
+    const claims: ViewTokenClaims = {
+        scope: "eta",
+        sessionId: input.sessionId,
+        accountId: input.accountId,
+        target: input.target ? { latitude: input.target.latitude, longitude: input.target.longitude } : null,
+        taskId: input.taskId,
+        iss: config.auth.issuer,
+        iat: now,
+        exp: now + input.ttlSeconds,
+    }
+    return { token: encode(claims, VIEW_TOKEN_TYPE, secret), claims }
+}
+
+/**
+ * Verifies a view token issued by {@link signViewToken}.
+ * @throws {TokenError} When the token is missing, malformed, forged, expired or not a view token.
+ */
+export const verifyViewToken = (token: string | undefined, secret = config.auth.secret): ViewTokenClaims => {
+    if (!token) {
+        throw new TokenError("TOKEN_MISSING", "View token is required")
+    }
+
+    const claims = decode(token, VIEW_TOKEN_TYPE, secret)
+
+    if (
+        !claims ||
+        claims.scope !== "eta" ||
+        typeof claims.sessionId !== "string" ||
+        typeof claims.accountId !== "string" ||
+        (claims.target === null ? typeof claims.taskId !== "string" : !isValidCoordinates(claims.target)) ||
+        (claims.taskId !== null && typeof claims.taskId !== "string") ||
+        typeof claims.exp !== "number" ||
+        claims.iss !== config.auth.issuer
+    ) {
+        throw new TokenError("TOKEN_INVALID_CLAIMS", "View token claims are invalid")
+    }
+
+    if (claims.exp <= Math.floor(Date.now() / 1000)) {
+        throw new TokenError("TOKEN_EXPIRED", "View token has expired")
+    }
+
+    return claims as ViewTokenClaims
+}
@@ -0,0 +1,33 @@
+import cluster from "cluster"
+import path from "path"
+import { config } from "./config"
+import { startIpcHub } from "./scaling/ipc"
+
+/**
+ * Runs several server instances on one port. Workers share participant state and room broadcasts
+ * through the primary (see src/scaling). Connections are balanced per request, so clients should
+ * use the websocket transport; HTTP long-polling needs a sticky load balancer in front instead.
+ */
+if (cluster.isPrimary) {
+    const workers = config.scaling.workers
+
+    cluster.setupPrimary({
+        exec: path.join(__dirname, `server${path.extname(__filename)}`),
+        // Under ts-node the workers need the TypeScript loader as well
+        execArgv: path.extname(__filename) === ".ts" ? [...process.execArgv, "-r", "ts-node/register"] : process.execArgv,
+    })
+
+    startIpcHub()
+
+    for (let i = 0; i < workers; i++) {
+        cluster.fork()
+    }
+
+    cluster.on("exit", (worker, code, signal) => {
+        if (worker.exitedAfterDisconnect) return
+        console.warn(`⚠️ Worker ${worker.process.pid} exited (${signal || code}), starting a replacement`)
+        cluster.fork()
+    })
+
+    console.log(`🧩 Cluster primary ${process.pid} started ${workers} workers`)
+}
@@ -0,0 +1,248 @@
+import dotenv from "dotenv"
+import { availableParallelism } from "os"
+import type { Role, WatchdogRules } from "./types"
+
+dotenv.config({ quiet: true })
+
+const isProduction = process.env.NODE_ENV === "production"
+
+const parseJsonEnv = <T>(name: string): Partial<T> => {
+    const value = process.env[name]
+    if (!value) return {}
+    try {
+        return JSON.parse(value)
+    } catch {
+        console.warn(`⚠️ Ignoring ${name}: not valid JSON`)
+        return {}
+    }
+}
+
+/**
+ * Central runtime configuration, resolved once from environment variables.
+ */
+export const config = {
+    port: process.env.PORT || 4000,
+    environment: process.env.NODE_ENV || "development",
+
+    auth: {
+        // HMAC secret used to sign and verify access tokens
+        secret: process.env.JWT_SECRET || "carpentary-dev-secret",
+        issuer: process.env.JWT_ISSUER || "carpentary-server",
+        tokenTtlSeconds: Number(process.env.JWT_TTL_SECONDS) || 12 * 60 * 60, // 12 hours
+        // Allow POST /api/auth/token to mint tokens of any role; opt-in, for local development and tests only
+        allowDevTokens: process.env.ALLOW_DEV_TOKENS === "true",
+    },
+
+    storage: {
+        // "memory" keeps everything in process; "file" appends JSON lines under dataDir
+        driver: (process.env.STORAGE_DRIVER === "file" ? "file" : "memory") as "memory" | "file",
+        dataDir: process.env.DATA_DIR || "./data",
+        // Partitions (e.g. a session's location history for one day) the file driver keeps in memory once read
+        cachedPartitions: Number(process.env.STORAGE_CACHED_PARTITIONS) || 64,
+    },
+
+    scaling: {
+        // Worker processes started by src/cluster.ts
+        workers: Number(process.env.CLUSTER_WORKERS) || availableParallelism(),
+    },
+
+    sessions: {
+        // Joining an unknown session creates it, owned by the joining account, instead of failing
+        autoCreate: process.env.SESSIONS_AUTO_CREATE ? process.env.SESSIONS_AUTO_CREATE === "true" : !isProduction,
+        // Used when neither the join payload nor the token names a session
+        defaultId: process.env.DEFAULT_SESSION_ID || "tracking-users",
+    },
+
+    invites: {
+        // Invite codes expire after this long unless created with their own expiry (max 30 days)
+        defaultExpiryMinutes: Number(process.env.INVITE_EXPIRY_MINUTES) || 24 * 60,
+        maxExpiryMinutes: 30 * 24 * 60,
+    },
+
+    reconnect: {
+        // Disconnected participants are kept, and can be resumed, for this long
+        graceMs: Number(process.env.RECONNECT_GRACE_MS) || 5 * 60 * 1000,
+        // Recent broadcasts kept per session for replay to reconnecting clients
+        journalSize: Number(process.env.RECONNECT_JOURNAL_SIZE) || 500,
+    },
+
+    messages: {
+        pageSize: Number(process.env.MESSAGE_PAGE_SIZE) || 50,
+        maxPageSize: 200,
+        // Authors may edit their own messages for this long; moderators and admins are not limited
+        editWindowMs: Number(process.env.MESSAGE_EDIT_WINDOW_MS) || 15 * 60 * 1000,
+        maxEditHistory: 20,
+    },
+
+    rateLimits: {
+        // Token buckets per account and socket event: `rate` events per second sustained, `burst` at once.
+        // RATE_LIMIT_EVENTS overrides individual events as JSON, e.g. {"send-message":{"rate":1,"burst":3}}
+        events: {
+            "send-message": { rate: 2, burst: 5 },
+            "edit-message": { rate: 1, burst: 5 },
+            "delete-message": { rate: 1, burst: 5 },
+            "message-reaction": { rate: 2, burst: 8 },
+            "location-update": { rate: 1, burst: 3 },
+            "location-batch": { rate: 0.2, burst: 3 },
+            "typing-start": { rate: 1, burst: 3 },
+            "typing-stop": { rate: 1, burst: 3 },
+            "presence-update": { rate: 0.5, burst: 3 },
+            "status-update": { rate: 0.5, burst: 3 },
+            "users-list": { rate: 0.5, burst: 3 },
+            "messages-history": { rate: 1, burst: 5 },
+            "sos-alert": { rate: 0.2, burst: 3 },
+            ...parseJsonEnv<Record<string, { rate: number; burst: number }>>("RATE_LIMIT_EVENTS"),
+        } as Record<string, { rate: number; burst: number }>,
+        // Events without their own budget
+        defaultEvent: { rate: 10, burst: 20 },
+        // This many rejected events within the window mutes the sender in their session
+        escalation: {
+            violations: Number(process.env.RATE_LIMIT_ESCALATION_VIOLATIONS) || 20,
+            windowMs: 60 * 1000,
+            muteMinutes: Number(process.env.RATE_LIMIT_MUTE_MINUTES) || 5,
+        },
+        // Express routes, per client address
+        http: {
+            rate: Number(process.env.HTTP_RATE_LIMIT_RPS) || 5,
+            burst: Number(process.env.HTTP_RATE_LIMIT_BURST) || 30,
+        },
+        // Proxies in front of the server (1 on Render) so client addresses come from X-Forwarded-For
+        trustProxyHops: Number(process.env.TRUST_PROXY_HOPS) || 0,
+    },
+
+    moderation: {
+        // Longest mute a moderator or admin can apply in one go (7 days)
+        maxMuteMinutes: Number(process.env.MODERATION_MAX_MUTE_MINUTES) || 7 * 24 * 60,
+    },
+
+    audit: {
+        // Audit entries are kept for this many days, then dropped a whole day at a time
+        retentionDays: Number(process.env.AUDIT_RETENTION_DAYS) || 365,
+        pageSize: 50,
+        maxPageSize: 200,
+    },
+
+    geofences: {
+        // Width of the band around a zone boundary in which a user's inside/outside state is kept
+        hysteresisMeters: Number(process.env.GEOFENCE_HYSTERESIS_METERS) || 20,
+        // Fixes less accurate than this are ignored for enter/exit evaluation
+        maxAccuracyMeters: Number(process.env.GEOFENCE_MAX_ACCURACY_METERS) || 100,
+        maxZonesPerSession: 100,
+        maxPolygonPoints: 200,
+    },
+
+    proximity: {
+        // Cell size of the spatial index over current positions, in degrees (0.01° is about 1.1 km north-south)
+        cellSizeDegrees: 0.01,
+        // Proximity rules fire once and re-arm after the distance grows this much beyond the rule's
+        hysteresisMeters: Number(process.env.PROXIMITY_HYSTERESIS_METERS) || 10,
+        maxRulesPerSession: 50,
+        maxDistanceMeters: 50000,
+        // Nearest-user queries
+        defaultLimit: 10,
+        maxLimit: 100,
+    },
+
+    alerts: {
+        // An SOS nobody acknowledges within this many seconds goes to the admins of every other
+        // session, and to the webhook when one is configured
+        ackTimeoutSeconds: Number(process.env.SOS_ACK_TIMEOUT_SECONDS) || 60,
+        webhookUrl: process.env.SOS_WEBHOOK_URL || null,
+        webhookTimeoutMs: 5000,
+    },
+
+    tasks: {
+        // Site radius for tasks that do not set one; entering it marks the task "on-site"
+        defaultSiteRadiusMeters: Number(process.env.TASK_SITE_RADIUS_METERS) || 100,
+        maxSiteRadiusMeters: 5000,
+        maxAssignees: 20,
+    },
+
+    eta: {
+        // The average speed behind an ETA is taken over the trail of the last few minutes
+        windowMinutes: 10,
+        // Slower than this on average counts as not moving, and gets no ETA
+        minSpeedMps: 0.5,
+        // Straight-line distance is stretched by this to allow for roads and paths
+        detourFactor: Number(process.env.ETA_DETOUR_FACTOR) || 1.3,
+        // Lifetime of customer view links
+        shareTtlMinutes: 4 * 60,
+        maxShareTtlMinutes: 24 * 60,
+    },
+
+    watchdog: {
+        // How often watched participants are checked for inactivity
+        checkIntervalMs: Number(process.env.WATCHDOG_CHECK_INTERVAL_MS) || 30 * 1000,
+        // Reported speeds above this count as moving even when the position barely changes
+        movingSpeedMps: 0.5,
+        defaults: {
+            enabled: true,
+            stationaryMinutes: Number(process.env.WATCHDOG_STATIONARY_MINUTES) || 20,
+            stationaryRadiusMeters: 25,
+            silentMinutes: Number(process.env.WATCHDOG_SILENT_MINUTES) || 10,
+            maxLatencyMs: 5000,
+            unhealthyMinutes: 3,
+        } as WatchdogRules,
+        // Supervisors are not watched unless a session turns it on for them
+        roles: {
+            admin: { enabled: false },
+            moderator: { enabled: false },
+        } as Partial<Record<Role, Partial<WatchdogRules>>>,
+    },
+
+    privacy: {
+        // Personal zones (e.g. home) in which a user's position is hidden from everyone else
+        minZoneRadiusMeters: 50,
+        maxZoneRadiusMeters: Number(process.env.PRIVACY_ZONE_MAX_RADIUS_METERS) || 2000,
+        maxZonesPerAccount: 10,
+    },
+
+    locations: {
+        // Exported tracks start a new segment when consecutive fixes are further apart than this
+        segmentGapMinutes: Number(process.env.TRACK_SEGMENT_GAP_MINUTES) || 5,
+        // Client-supplied fix timestamps further in the future than this are replaced by server time
+        maxClockSkewMs: 60 * 1000,
+        // Offline uploads via location-batch
+        maxBatchSize: Number(process.env.LOCATION_BATCH_MAX_SIZE) || 500,
+        maxBatchAgeHours: Number(process.env.LOCATION_BATCH_MAX_AGE_HOURS) || 72,
+        // Location history is kept for this many days, then dropped a whole day at a time
+        retentionDays: Number(process.env.LOCATION_RETENTION_DAYS) || 30,
+    },
+
+    gps: {
+        // Fixes with a worse reported accuracy are rejected
+        maxAccuracyMeters: Number(process.env.GPS_MAX_ACCURACY_METERS) || 100,
+        // Implied speed between consecutive fixes above this is treated as a spoofed or bad jump (~216 km/h)
+        maxSpeedMps: Number(process.env.GPS_MAX_SPEED_MPS) || 60,
+        // Movements smaller than this are suppressed as stationary, except for a periodic heartbeat
+        stationaryMeters: Number(process.env.GPS_STATIONARY_METERS) || 3,
+        stationaryHeartbeatMs: 30 * 1000,
+        // After this many consecutive speed rejections the new position is accepted as the baseline
+        maxConsecutiveRejects: 5,
+        kalman: process.env.GPS_KALMAN === "true",
+        // Expected movement noise for the Kalman filter, in meters per second
+        kalmanProcessNoise: Number(process.env.GPS_KALMAN_PROCESS_NOISE) || 3,
+    },
+
+    replay: {
+        maxWindowHours: Number(process.env.REPLAY_MAX_WINDOW_HOURS) || 24,
+        minSpeed: 1,
+        maxSpeed: 60,
+        // Quiet stretches in the recording are compressed to at most this much real time
+        maxIdleMs: Number(process.env.REPLAY_MAX_IDLE_MS) || 5000,
+    },
+
+    timesheets: {
+        // On-site periods separated by less than this are merged into one shift (the gap is a break)
+        graceMinutes: Number(process.env.TIMESHEET_GRACE_MINUTES) || 10,
+        // Shifts shorter than this are discarded
+        minShiftMinutes: Number(process.env.TIMESHEET_MIN_SHIFT_MINUTES) || 15,
+        // "geofence" uses zone enter/exit, "presence" uses join/leave, "auto" picks per worker
+        basis: (process.env.TIMESHEET_BASIS || "auto") as "auto" | "geofence" | "presence",
+    },
+}
+
+// The development secret is public; signing production tokens with it would let anyone forge them
+if (isProduction && !process.env.JWT_SECRET) {
+    throw new Error("JWT_SECRET must be set when NODE_ENV is production")
+}
@@ -0,0 +1,106 @@
+import { Router, type NextFunction, type Request, type Response } from "express"
+import { applySessionRole, authenticateRequest, refuseBanned, requirePermission } from "../auth/middleware"
+import type { TokenClaims } from "../auth/token"
+import { moderationService, sessionRoleFor } from "../services"
+import { ModerationError, type ModerationActor } from "../services/moderation"
+
+const router = Router()
+
+const actorFor = (res: Response): ModerationActor => {
+    const auth: TokenClaims = res.locals.auth
+    return { accountId: auth.sub, name: auth.name, role: auth.role }
+}
+
+const sendModerationError = (res: Response, error: ModerationError): void => {
+    res.status(error.code === "FORBIDDEN" ? 403 : error.code === "TARGET_NOT_FOUND" ? 404 : 400).json({
+        error: error.message,
+        code: error.code,
+        field: error.field,
+        timestamp: new Date().toISOString(),
+    })
+}
+
+// Wraps a moderation command so validation and permission failures map to JSON errors
+const moderate =
+    (run: (req: Request, res: Response, actor: ModerationActor) => void) =>
+    (req: Request, res: Response, next: NextFunction): void => {
+        try {
+            run(req, res, actorFor(res))
+        } catch (error) {
+            if (error instanceof ModerationError) {
+                sendModerationError(res, error)
+                return
+            }
+            next(error)
+        }
+    }
+
+router.use(authenticateRequest)
+router.use("/sessions/:id", refuseBanned(moderationService.getBan), applySessionRole(sessionRoleFor))
+
+// Active mutes, bans and session role grants
+router.get("/sessions/:id/moderation", requirePermission("moderation-list"), (req, res) => {
+    res.json({ sessionId: req.params.id, ...moderationService.list(req.params.id) })
+})
+
+// Body: { userId | accountId, reason? }
+router.post(
+    "/sessions/:id/kick",
+    requirePermission("moderation-kick"),
+    moderate((req, res, actor) => {
+        res.json(moderationService.kick(req.params.id, req.body, actor, req.body?.reason))
+    }),
+)
+
+// Body: { userId | accountId, minutes, reason? }
+router.post(
+    "/sessions/:id/mutes",
+    requirePermission("moderation-mute"),
+    moderate((req, res, actor) => {
+        res.status(201).json(moderationService.mute(req.params.id, req.body, req.body?.minutes, actor, req.body?.reason))
+    }),
+)
+
+router.delete(
+    "/sessions/:id/mutes/:accountId",
+    requirePermission("moderation-unmute"),
+    moderate((req, res, actor) => {
+        if (!moderationService.unmute(req.params.id, { accountId: req.params.accountId }, actor)) {
+            res.status(404).json({ error: "User is not muted", code: "NOT_MUTED", timestamp: new Date().toISOString() })
+            return
+        }
+        res.status(204).end()
+    }),
+)
+
+// Body: { userId | accountId, reason? }
+router.post(
+    "/sessions/:id/bans",
+    requirePermission("moderation-ban"),
+    moderate((req, res, actor) => {
+        res.status(201).json(moderationService.ban(req.params.id, req.body, actor, req.body?.reason))
+    }),
+)
+
+router.delete(
+    "/sessions/:id/bans/:accountId",
+    requirePermission("moderation-unban"),
+    moderate((req, res, actor) => {
+        if (!moderationService.unban(req.params.id, { accountId: req.params.accountId }, actor)) {
+            res.status(404).json({ error: "User is not banned", code: "NOT_BANNED", timestamp: new Date().toISOString() })
+            return
+        }
+        res.status(204).end()
+    }),
+)
+
+// Body: { userId | accountId, role }
+router.put(
+    "/sessions/:id/role",
+    requirePermission("moderation-role"),
+    moderate((req, res, actor) => {
+        res.json(moderationService.changeRole(req.params.id, req.body, req.body?.role, actor))
+    }),
+)
+
+export default router
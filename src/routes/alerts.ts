@@ -0,0 +1,64 @@
+import { Router } from "express"
+import { authenticateRequest, requirePermission } from "../auth/middleware"
+import type { TokenClaims } from "../auth/token"
+import { alertService, moderationService } from "../services"
+import { ALERT_STATUSES, type AlertStatus } from "../types"
+
+const router = Router()
+
+router.use(authenticateRequest)
+
+// SOS alerts, newest first: ?status=open,acknowledged,resolved (all by default)&sessionId
+router.get("/", requirePermission("alerts-view"), async (req, res, next) => {
+    try {
+        const auth: TokenClaims = res.locals.auth
+        const statuses = typeof req.query.status === "string" && req.query.status ? req.query.status.split(",") : undefined
+        if (statuses && !statuses.every((status) => ALERT_STATUSES.includes(status as AlertStatus))) {
+            res.status(400).json({
+                error: `Unknown alert status; expected any of: ${ALERT_STATUSES.join(", ")}`,
+                code: "INVALID_STATUS",
+                timestamp: new Date().toISOString(),
+            })
+            return
+        }
+
+        // Session-scoped tokens only see their own session
+        const sessionId = auth.sessionId || (typeof req.query.sessionId === "string" && req.query.sessionId) || undefined
+        if (sessionId && moderationService.getBan(sessionId, auth.sub)) {
+            res.status(403).json({ error: "You are banned from this session", code: "BANNED", timestamp: new Date().toISOString() })
+            return
+        }
+        // Alerts from sessions the account is banned from are left out
+        const alerts = (await alertService.list({ statuses: statuses as AlertStatus[] | undefined, sessionId })).filter(
+            (alert) => !moderationService.getBan(alert.sessionId, auth.sub),
+        )
+
+        res.json({
+            alerts,
+            open: alerts.filter((alert) => alert.status !== "resolved").length,
+            timestamp: new Date().toISOString(),
+        })
+    } catch (error) {
+        next(error)
+    }
+})
+
+router.get("/:id", requirePermission("alerts-view"), async (req, res, next) => {
+    try {
+        const auth: TokenClaims = res.locals.auth
+        const alert = await alertService.get(req.params.id)
+        if (!alert || (auth.sessionId && alert.sessionId !== auth.sessionId)) {
+            res.status(404).json({ error: "Alert not found", code: "ALERT_NOT_FOUND", timestamp: new Date().toISOString() })
+            return
+        }
+        if (moderationService.getBan(alert.sessionId, auth.sub)) {
+            res.status(403).json({ error: "You are banned from this session", code: "BANNED", timestamp: new Date().toISOString() })
+            return
+        }
+        res.json(alert)
+    } catch (error) {
+        next(error)
+    }
+})
+
+export default router
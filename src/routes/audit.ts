@@ -0,0 +1,55 @@
+import { Router } from "express"
+import { authenticateRequest, requirePermission } from "../auth/middleware"
+import type { TokenClaims } from "../auth/token"
+import { auditStore } from "../stores"
+import { AUDIT_TYPES, AuditCursorError, type AuditType } from "../stores/audit"
+import { parseTime } from "../utils/time"
+
+const router = Router()
+
+const optionalString = (value: unknown): string | undefined => (typeof value === "string" && value ? value : undefined)
+
+router.use(authenticateRequest)
+
+// Newest first: ?sessionId&type=<a,b>&actor=<accountId>&target=<accountId>&from&to&before=<entryId>&limit=<n>
+router.get("/", requirePermission("audit-view"), async (req, res, next) => {
+    try {
+        const auth: TokenClaims = res.locals.auth
+        const from = parseTime(req.query.from, NaN)
+        const to = parseTime(req.query.to, NaN)
+        const types = optionalString(req.query.type)?.split(",")
+
+        if ((req.query.from !== undefined && Number.isNaN(from)) || (req.query.to !== undefined && Number.isNaN(to)) || from > to) {
+            res.status(400).json({ error: "Invalid time range", code: "INVALID_RANGE", timestamp: new Date().toISOString() })
+            return
+        }
+        if (types && !types.every((type) => AUDIT_TYPES.includes(type as AuditType))) {
+            res.status(400).json({ error: "Unknown audit entry type", code: "INVALID_AUDIT_TYPE", timestamp: new Date().toISOString() })
+            return
+        }
+
+        // Session-scoped tokens only see their own session
+        const sessionId = auth.sessionId || optionalString(req.query.sessionId)
+
+        const page = await auditStore.list({
+            sessionId,
+            types: types as AuditType[] | undefined,
+            actor: optionalString(req.query.actor),
+            target: optionalString(req.query.target),
+            from: Number.isNaN(from) ? undefined : from,
+            to: Number.isNaN(to) ? undefined : to,
+            before: optionalString(req.query.before),
+            limit: typeof req.query.limit === "string" ? Number(req.query.limit) : undefined,
+        })
+
+        res.json(page)
+    } catch (error) {
+        if (error instanceof AuditCursorError) {
+            res.status(400).json({ error: error.message, code: "INVALID_CURSOR", timestamp: new Date().toISOString() })
+            return
+        }
+        next(error)
+    }
+})
+
+export default router
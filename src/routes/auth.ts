@@ -0,0 +1,55 @@
+import { Router } from "express"
+import { config } from "../config"
+import { signToken } from "../auth/token"
+import { recordAudit } from "../services/audit"
+import { isRole } from "../types"
+
+const router = Router()
+
+// Issue a signed token for local development and tests
+router.post("/token", (req, res) => {
+    if (!config.auth.allowDevTokens) {
+        res.status(404).json({ error: "Not found", path: req.path, timestamp: new Date().toISOString() })
+        return
+    }
+
+    const { name, role, sessionId, userId, ttlSeconds } = req.body || {}
+
+    if (!name || typeof name !== "string" || name.trim().length === 0) {
+        res.status(400).json({ error: "Invalid name provided", code: "INVALID_NAME", timestamp: new Date().toISOString() })
+        return
+    }
+
+    if (!isRole(role)) {
+        recordAudit({
+            type: "validation-failure",
+            sessionId: typeof sessionId === "string" ? sessionId : null,
+            actor: { accountId: typeof userId === "string" && userId ? userId : name.trim(), name: name.trim() },
+            target: null,
+            payload: { event: "token", code: "INVALID_ROLE", role: role ?? null, ip: req.ip },
+        })
+        res.status(400).json({ error: "Invalid role provided", code: "INVALID_ROLE", timestamp: new Date().toISOString() })
+        return
+    }
+
+    if (ttlSeconds !== undefined && (typeof ttlSeconds !== "number" || ttlSeconds <= 0)) {
+        res.status(400).json({ error: "Invalid token lifetime", code: "INVALID_TTL", timestamp: new Date().toISOString() })
+        return
+    }
+
+    const { token, claims } = signToken({
+        sub: typeof userId === "string" && userId ? userId : undefined,
+        name,
+        role,
+        sessionId: typeof sessionId === "string" && sessionId ? sessionId : undefined,
+        ttlSeconds,
+    })
+
+    res.status(201).json({
+        token,
+        claims,
+        expiresAt: new Date(claims.exp * 1000).toISOString(),
+    })
+})
+
+export default router
@@ -0,0 +1,56 @@
+import { Router } from "express"
+import { TokenError, verifyViewToken, type ViewTokenClaims } from "../auth/token"
+import { stateStore } from "../scaling"
+import { sessionService, taskService } from "../services"
+import { estimateArrival, latestParticipant } from "../services/travel"
+
+const router = Router()
+
+// Customer view of one participant's ETA. The token in the path is the only credential, and
+// nothing about where the participant is, or what else they are doing, is given out.
+router.get("/:token", async (req, res, next) => {
+    let view: ViewTokenClaims
+    try {
+        view = verifyViewToken(req.params.token)
+    } catch (error) {
+        if (error instanceof TokenError) {
+            res.status(401).json({ error: error.message, code: error.code, timestamp: new Date().toISOString() })
+            return
+        }
+        next(error)
+        return
+    }
+
+    try {
+        const session = await sessionService.get(view.sessionId)
+        const task = view.taskId ? await taskService.get(view.sessionId, view.taskId) : undefined
+        if (session?.status !== "active" || (view.taskId && !task)) {
+            res.status(410).json({ error: "This link is no longer available", code: "ETA_UNAVAILABLE", timestamp: new Date().toISOString() })
+            return
+        }
+
+        const user = latestParticipant(stateStore.listUsers(view.sessionId), view.accountId)
+        const arrived = task?.status === "on-site" || task?.status === "done"
+        const target = view.target ?? task!.site.location
+        const eta = !arrived && user?.sharing === "live" ? estimateArrival(user, target) : null
+
+        res.json({
+            name: user?.name ?? null,
+            arrived,
+            eta: eta && {
+                distanceMeters: eta.distanceMeters,
+                approaching: eta.approaching,
+                etaSeconds: eta.etaSeconds,
+                arrivalAt: eta.arrivalAt,
+                computedAt: eta.computedAt,
+            },
+            updatedAt: user?.lastSeen ?? null,
+            expiresAt: new Date(view.exp * 1000).toISOString(),
+            timestamp: new Date().toISOString(),
+        })
+    } catch (error) {
+        next(error)
+    }
+})
+
+export default router
@@ -0,0 +1,742 @@
+import { Router, type NextFunction, type Request, type Response } from "express"
+import { applySessionRole, authenticateRequest, refuseBanned, requirePermission } from "../auth/middleware"
+import { redactForViewer } from "../auth/permissions"
+import { signViewToken, type TokenClaims } from "../auth/token"
+import { config } from "../config"
+import { stateStore } from "../scaling"
+import {
+    geofenceService,
+    gpsFilter,
+    inviteService,
+    mayReadSession,
+    moderationService,
+    proximityService,
+    sessionRoleFor,
+    sessionService,
+    taskService,
+    watchdog,
+} from "../services"
+import { auditParty, recordAudit } from "../services/audit"
+import { GeofenceValidationError } from "../services/geofences"
+import { InviteError, type InviteActor } from "../services/invites"
+import { ProximityError } from "../services/proximity"
+import { buildReplayTimeline, ReplayRangeError } from "../services/replay"
+import { SessionError } from "../services/sessions"
+import { buildTimesheets, defaultTimesheetRules, timesheetsToCsv } from "../services/timesheets"
+import { splitIntoSegments, toGeoJson, toGpx, trackToCsv, TRACK_FORMATS, type TrackFormat } from "../services/trackExport"
+import { dailyDistances, estimateArrival, latestParticipant } from "../services/travel"
+import { resolveWatchdogRules } from "../services/watchdog"
+import { activityStore, locationStore, messageStore } from "../stores"
+import { CursorNotFoundError } from "../stores/messages"
+import { isRole, ROLES, SESSION_STATUSES, TASK_STATUSES, type SessionStatus, type TaskStatus, type TrackingSession } from "../types"
+import { isValidCoordinates, type Coordinates } from "../utils/geo"
+import { parseTime } from "../utils/time"
+
+const router = Router()
+
+const SESSION_ERROR_STATUS: Record<SessionError["code"], number> = {
+    INVALID_SESSION: 400,
+    SESSION_NOT_FOUND: 404,
+    SESSION_LOCKED: 403,
+    SESSION_FULL: 403,
+    SESSION_EXISTS: 409,
+    SESSION_CLOSED: 409,
+    SESSION_ACTIVE: 409,
+}
+
+const INVITE_ERROR_STATUS: Record<InviteError["code"], number> = {
+    INVALID_INVITE: 400,
+    FORBIDDEN: 403,
+    INVITE_REQUIRED: 403,
+    INVITE_NOT_FOUND: 404,
+    REQUEST_NOT_FOUND: 404,
+    INVITE_EXPIRED: 410,
+    INVITE_EXHAUSTED: 410,
+}
+
+// Session metadata plus how many participants are connected right now
+const withConnected = (session: TrackingSession) => ({ ...session, connected: stateStore.sessionMembers(session.id).length })
+
+// Wraps a session lifecycle or invite command so validation and state conflicts map to JSON errors
+const manage =
+    (run: (req: Request, res: Response, actor: InviteActor) => Promise<void>) =>
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const auth: TokenClaims = res.locals.auth
+            await run(req, res, { accountId: auth.sub, name: auth.name, role: auth.role })
+        } catch (error) {
+            if (error instanceof SessionError || error instanceof InviteError) {
+                const status = error instanceof SessionError ? SESSION_ERROR_STATUS[error.code] : INVITE_ERROR_STATUS[error.code]
+                res.status(status).json({
+                    error: error.message,
+                    code: error.code,
+                    field: error.field,
+                    timestamp: new Date().toISOString(),
+                })
+                return
+            }
+            next(error)
+        }
+    }
+
+// Invites and join requests only exist for sessions that are still running
+const activeSession = async (sessionId: string): Promise<TrackingSession> => {
+    const session = await sessionService.get(sessionId)
+    if (!session) throw new SessionError("Session not found", "SESSION_NOT_FOUND")
+    if (session.status !== "active") throw new SessionError("Session is closed", "SESSION_CLOSED")
+    return session
+}
+
+const parseMinutes = (value: unknown, fallback: number): number => {
+    if (typeof value !== "string" || value.length === 0) return fallback
+    const minutes = Number(value)
+    return Number.isFinite(minutes) && minutes >= 0 ? minutes : NaN
+}
+
+// Sessions that are not open to everyone are kept to the accounts that could join them
+const requireAdmission = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const auth: TokenClaims = res.locals.auth
+        if (await mayReadSession(req.params.id, auth.sub, auth.role)) {
+            next()
+            return
+        }
+        res.status(403).json({ error: "You have not been admitted to this session", code: "NOT_ADMITTED", timestamp: new Date().toISOString() })
+    } catch (error) {
+        next(error)
+    }
+}
+
+router.use(authenticateRequest)
+router.use("/:id", refuseBanned(moderationService.getBan), applySessionRole(sessionRoleFor), requireAdmission)
+
+// Sessions, newest first: ?status=active,closed,archived (all by default)
+router.get(
+    "/",
+    requirePermission("session-list"),
+    manage(async (req, res) => {
+        const auth: TokenClaims = res.locals.auth
+        const statuses = typeof req.query.status === "string" && req.query.status ? req.query.status.split(",") : undefined
+        if (statuses && !statuses.every((status) => SESSION_STATUSES.includes(status as SessionStatus))) {
+            res.status(400).json({
+                error: `Unknown session status; expected any of: ${SESSION_STATUSES.join(", ")}`,
+                code: "INVALID_STATUS",
+                timestamp: new Date().toISOString(),
+            })
+            return
+        }
+
+        // Session-scoped tokens only ever see their own session, and nobody sees sessions they are banned from
+        const sessions = (await sessionService.list(statuses as SessionStatus[] | undefined)).filter(
+            (session) => (!auth.sessionId || session.id === auth.sessionId) && !moderationService.getBan(session.id, auth.sub),
+        )
+        res.json({ sessions: sessions.map(withConnected), timestamp: new Date().toISOString() })
+    }),
+)
+
+// Body: { id?, name, siteAddress?, joinPolicy?, maxParticipants?, watchdog? }
+router.post(
+    "/",
+    requirePermission("session-create"),
+    manage(async (req, res, actor) => {
+        res.status(201).json(withConnected(await sessionService.create(req.body, actor)))
+    }),
+)
+
+router.get(
+    "/:id",
+    requirePermission("session-view"),
+    manage(async (req, res) => {
+        const session = await sessionService.get(req.params.id)
+        if (!session) throw new SessionError("Session not found", "SESSION_NOT_FOUND")
+        res.json(withConnected(session))
+    }),
+)
+
+// Body: any of { name, siteAddress, joinPolicy, maxParticipants, watchdog }
+router.put(
+    "/:id",
+    requirePermission("session-update"),
+    manage(async (req, res, actor) => {
+        res.json(withConnected(await sessionService.update(req.params.id, req.body, actor)))
+    }),
+)
+
+// Disconnects every member; body: { reason? }
+router.post(
+    "/:id/close",
+    requirePermission("session-close"),
+    manage(async (req, res, actor) => {
+        res.json(withConnected(await sessionService.close(req.params.id, actor, req.body?.reason)))
+    }),
+)
+
+// Freezes a closed session together with its totals
+router.post(
+    "/:id/archive",
+    requirePermission("session-archive"),
+    manage(async (req, res, actor) => {
+        res.json(await sessionService.archive(req.params.id, actor))
+    }),
+)
+
+router.delete(
+    "/:id",
+    requirePermission("session-delete"),
+    manage(async (req, res, actor) => {
+        await sessionService.remove(req.params.id, actor)
+        res.status(204).end()
+    }),
+)
+
+// Body: { role?, maxUses?, expiresInMinutes? }
+router.post(
+    "/:id/invites",
+    requirePermission("invite-create"),
+    manage(async (req, res, actor) => {
+        const session = await activeSession(req.params.id)
+        res.status(201).json(inviteService.createInvite(session.id, req.body, actor))
+    }),
+)
+
+router.get(
+    "/:id/invites",
+    requirePermission("invite-list"),
+    manage(async (req, res) => {
+        res.json({ sessionId: req.params.id, invites: inviteService.listInvites(req.params.id), timestamp: new Date().toISOString() })
+    }),
+)
+
+router.delete(
+    "/:id/invites/:code",
+    requirePermission("invite-revoke"),
+    manage(async (req, res, actor) => {
+        inviteService.revokeInvite(req.params.id, req.params.code, actor)
+        res.status(204).end()
+    }),
+)
+
+// Joins waiting for approval, oldest first
+router.get(
+    "/:id/join-requests",
+    requirePermission("join-requests"),
+    manage(async (req, res) => {
+        res.json({ sessionId: req.params.id, requests: inviteService.listRequests(req.params.id), timestamp: new Date().toISOString() })
+    }),
+)
+
+// Body: { role? } to admit the requester with a different role
+router.post(
+    "/:id/join-requests/:requestId/approve",
+    requirePermission("approve-join"),
+    manage(async (req, res, actor) => {
+        const session = await activeSession(req.params.id)
+        const role = req.body?.role ?? null
+        if (role !== null && !isRole(role)) {
+            throw new InviteError(`"role" must be one of: ${ROLES.join(", ")}`, "INVALID_INVITE", "role")
+        }
+        res.json(inviteService.approve(session.id, req.params.requestId, actor, role))
+    }),
+)
+
+// Body: { reason? }
+router.post(
+    "/:id/join-requests/:requestId/deny",
+    requirePermission("deny-join"),
+    manage(async (req, res, actor) => {
+        res.json(inviteService.deny(req.params.id, req.params.requestId, actor, req.body?.reason))
+    }),
+)
+
+// Effective watchdog rules per role and the participants flagged right now (on this node)
+router.get(
+    "/:id/watchdog",
+    requirePermission("watchdog-view"),
+    manage(async (req, res) => {
+        const session = await sessionService.get(req.params.id)
+        if (!session) throw new SessionError("Session not found", "SESSION_NOT_FOUND")
+        res.json({
+            sessionId: session.id,
+            rules: Object.fromEntries(ROLES.map((role) => [role, resolveWatchdogRules(role, session)])),
+            inactive: watchdog.list(session.id),
+            timestamp: new Date().toISOString(),
+        })
+    }),
+)
+
+// Paginated message history: ?before=<messageId>&after=<messageId>&limit=<n>
+router.get("/:id/messages", requirePermission("messages-history"), async (req, res, next) => {
+    try {
+        const auth: TokenClaims = res.locals.auth
+        const { before, after, limit } = req.query
+
+        const page = await messageStore.list(req.params.id, {
+            before: typeof before === "string" && before ? before : undefined,
+            after: typeof after === "string" && after ? after : undefined,
+            limit: typeof limit === "string" ? Number(limit) : undefined,
+        })
+
+        res.json({
+            ...page,
+            messages: page.messages.map((m) => (m.accountId === auth.sub ? m : redactForViewer(m, auth.role))),
+        })
+    } catch (error) {
+        if (error instanceof CursorNotFoundError) {
+            res.status(400).json({ error: error.message, code: "INVALID_CURSOR", timestamp: new Date().toISOString() })
+            return
+        }
+        next(error)
+    }
+})
+
+// Geofences
+router.get("/:id/geofences", requirePermission("geofences-list"), (req, res) => {
+    res.json({ sessionId: req.params.id, geofences: geofenceService.list(req.params.id) })
+})
+
+router.get("/:id/geofences/dwell", requirePermission("geofence-dwell"), (req, res) => {
+    res.json({ sessionId: req.params.id, dwell: geofenceService.getDwell(req.params.id), timestamp: new Date().toISOString() })
+})
+
+router.post("/:id/geofences", requirePermission("geofence-define"), (req, res, next) => {
+    try {
+        const auth: TokenClaims = res.locals.auth
+        res.status(201).json(geofenceService.upsert(req.params.id, req.body, auth.sub))
+    } catch (error) {
+        if (error instanceof GeofenceValidationError) {
+            res.status(400).json({ error: error.message, code: error.code, field: error.field, timestamp: new Date().toISOString() })
+            return
+        }
+        next(error)
+    }
+})
+
+router.put("/:id/geofences/:zoneId", requirePermission("geofence-define"), (req, res, next) => {
+    try {
+        const auth: TokenClaims = res.locals.auth
+        if (!geofenceService.get(req.params.id, req.params.zoneId)) {
+            res.status(404).json({ error: "Geofence not found", code: "GEOFENCE_NOT_FOUND", timestamp: new Date().toISOString() })
+            return
+        }
+        res.json(geofenceService.upsert(req.params.id, req.body, auth.sub, req.params.zoneId))
+    } catch (error) {
+        if (error instanceof GeofenceValidationError) {
+            res.status(400).json({ error: error.message, code: error.code, field: error.field, timestamp: new Date().toISOString() })
+            return
+        }
+        next(error)
+    }
+})
+
+router.delete("/:id/geofences/:zoneId", requirePermission("geofence-delete"), (req, res) => {
+    const auth: TokenClaims = res.locals.auth
+    if (!geofenceService.remove(req.params.id, req.params.zoneId, auth.sub)) {
+        res.status(404).json({ error: "Geofence not found", code: "GEOFENCE_NOT_FOUND", timestamp: new Date().toISOString() })
+        return
+    }
+    res.status(204).end()
+})
+
+// Participants closest to a point: ?lat&lng&radius=<meters>&limit=<n>
+router.get("/:id/nearby", requirePermission("nearest-users"), (req, res) => {
+    const point = { latitude: Number(req.query.lat), longitude: Number(req.query.lng) }
+    const radius = req.query.radius === undefined ? undefined : Number(req.query.radius)
+    const limit = req.query.limit === undefined ? config.proximity.defaultLimit : Number(req.query.limit)
+
+    if (!isValidCoordinates(point) || req.query.lat === "" || req.query.lng === "") {
+        res.status(400).json({
+            error: "lat and lng must be valid coordinates",
+            code: "INVALID_NEARBY_QUERY",
+            field: "lat",
+            timestamp: new Date().toISOString(),
+        })
+        return
+    }
+    if (radius !== undefined && !(radius >= 1 && radius <= config.proximity.maxDistanceMeters)) {
+        res.status(400).json({
+            error: `radius must be between 1 and ${config.proximity.maxDistanceMeters} meters`,
+            code: "INVALID_NEARBY_QUERY",
+            field: "radius",
+            timestamp: new Date().toISOString(),
+        })
+        return
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > config.proximity.maxLimit) {
+        res.status(400).json({
+            error: `limit must be an integer between 1 and ${config.proximity.maxLimit}`,
+            code: "INVALID_NEARBY_QUERY",
+            field: "limit",
+            timestamp: new Date().toISOString(),
+        })
+        return
+    }
+
+    res.json({
+        sessionId: req.params.id,
+        location: point,
+        radius: radius ?? null,
+        users: proximityService.nearest(req.params.id, point, { radius, limit }),
+        timestamp: new Date().toISOString(),
+    })
+})
+
+// Proximity rules
+router.get("/:id/proximity-rules", requirePermission("proximity-rules"), (req, res) => {
+    res.json({ sessionId: req.params.id, rules: proximityService.listRules(req.params.id) })
+})
+
+router.post("/:id/proximity-rules", requirePermission("proximity-rule-set"), (req, res, next) => {
+    try {
+        const auth: TokenClaims = res.locals.auth
+        res.status(201).json(proximityService.setRule(req.params.id, { ...req.body, id: undefined }, auth.sub))
+    } catch (error) {
+        if (error instanceof ProximityError) {
+            res.status(error.code === "PROXIMITY_RULE_LIMIT" ? 409 : 400).json({
+                error: error.message,
+                code: error.code,
+                field: error.field,
+                timestamp: new Date().toISOString(),
+            })
+            return
+        }
+        next(error)
+    }
+})
+
+router.put("/:id/proximity-rules/:ruleId", requirePermission("proximity-rule-set"), (req, res, next) => {
+    try {
+        const auth: TokenClaims = res.locals.auth
+        if (!proximityService.getRule(req.params.id, req.params.ruleId)) {
+            res.status(404).json({ error: "Proximity rule not found", code: "PROXIMITY_RULE_NOT_FOUND", timestamp: new Date().toISOString() })
+            return
+        }
+        res.json(proximityService.setRule(req.params.id, { ...req.body, id: req.params.ruleId }, auth.sub))
+    } catch (error) {
+        if (error instanceof ProximityError) {
+            res.status(400).json({ error: error.message, code: error.code, field: error.field, timestamp: new Date().toISOString() })
+            return
+        }
+        next(error)
+    }
+})
+
+router.delete("/:id/proximity-rules/:ruleId", requirePermission("proximity-rule-delete"), (req, res) => {
+    const auth: TokenClaims = res.locals.auth
+    if (!proximityService.removeRule(req.params.id, req.params.ruleId, auth.sub)) {
+        res.status(404).json({ error: "Proximity rule not found", code: "PROXIMITY_RULE_NOT_FOUND", timestamp: new Date().toISOString() })
+        return
+    }
+    res.status(204).end()
+})
+
+// Tasks, oldest first: ?status=assigned,en-route,on-site,done (all by default)&assignee=<accountId>
+router.get("/:id/tasks", requirePermission("tasks-list"), async (req, res, next) => {
+    try {
+        const statuses = typeof req.query.status === "string" && req.query.status ? req.query.status.split(",") : undefined
+        if (statuses && !statuses.every((status) => TASK_STATUSES.includes(status as TaskStatus))) {
+            res.status(400).json({
+                error: `Unknown task status; expected any of: ${TASK_STATUSES.join(", ")}`,
+                code: "INVALID_STATUS",
+                timestamp: new Date().toISOString(),
+            })
+            return
+        }
+        const assignee = typeof req.query.assignee === "string" && req.query.assignee ? req.query.assignee : undefined
+
+        const tasks = await taskService.list(req.params.id, { statuses: statuses as TaskStatus[] | undefined, assignee })
+        res.json({ sessionId: req.params.id, tasks, timestamp: new Date().toISOString() })
+    } catch (error) {
+        next(error)
+    }
+})
+
+router.get("/:id/tasks/:taskId", requirePermission("tasks-list"), async (req, res, next) => {
+    try {
+        const task = await taskService.get(req.params.id, req.params.taskId)
+        if (!task) {
+            res.status(404).json({ error: "Task not found", code: "TASK_NOT_FOUND", timestamp: new Date().toISOString() })
+            return
+        }
+        res.json(task)
+    } catch (error) {
+        next(error)
+    }
+})
+
+// Derived shifts per worker: ?from&to&format=json|csv&grace=<min>&minShift=<min>&basis=auto|geofence|presence
+router.get("/:id/timesheets", requirePermission("timesheets-view"), async (req, res, next) => {
+    try {
+        const defaults = defaultTimesheetRules()
+        const to = parseTime(req.query.to, Date.now())
+        const from = parseTime(req.query.from, to - 24 * 60 * 60 * 1000)
+        const rules = {
+            graceMinutes: parseMinutes(req.query.grace, defaults.graceMinutes),
+            minShiftMinutes: parseMinutes(req.query.minShift, defaults.minShiftMinutes),
+            basis: (req.query.basis as typeof defaults.basis) || defaults.basis,
+        }
+
+        if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+            res.status(400).json({ error: "Invalid time range", code: "INVALID_RANGE", timestamp: new Date().toISOString() })
+            return
+        }
+        if (Number.isNaN(rules.graceMinutes) || Number.isNaN(rules.minShiftMinutes) || !["auto", "geofence", "presence"].includes(rules.basis)) {
+            res.status(400).json({ error: "Invalid timesheet rules", code: "INVALID_RULES", timestamp: new Date().toISOString() })
+            return
+        }
+
+        // Earlier events are replayed so workers already on site at `from` are clocked in
+        const events = await activityStore.list(req.params.id, { to })
+        const timesheets = buildTimesheets(events, { from, to }, rules)
+
+        if (req.query.format === "csv") {
+            res.type("text/csv")
+                .attachment(`timesheets-${req.params.id}.csv`)
+                .send(timesheetsToCsv(timesheets))
+            return
+        }
+
+        res.json({
+            sessionId: req.params.id,
+            from: new Date(from).toISOString(),
+            to: new Date(to).toISOString(),
+            rules,
+            workers: timesheets,
+        })
+    } catch (error) {
+        next(error)
+    }
+})
+
+// Per-account GPS quality counters, for debugging bad devices
+router.get("/:id/gps-quality", requirePermission("gps-quality"), (req, res) => {
+    res.json({ sessionId: req.params.id, users: gpsFilter.getStats(req.params.id), timestamp: new Date().toISOString() })
+})
+
+// Recorded track for one account: ?from&to&format=gpx|geojson|csv&includeRejected=true
+router.get(
+    "/:id/users/:accountId/track",
+    requirePermission("track-export", { allowSelfParam: "accountId" }),
+    async (req, res, next) => {
+        try {
+            const to = parseTime(req.query.to, Date.now())
+            const from = parseTime(req.query.from, to - 24 * 60 * 60 * 1000)
+            const format = (req.query.format || "geojson") as TrackFormat
+
+            if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+                res.status(400).json({ error: "Invalid time range", code: "INVALID_RANGE", timestamp: new Date().toISOString() })
+                return
+            }
+            if (!TRACK_FORMATS.includes(format)) {
+                res.status(400).json({ error: "Invalid export format", code: "INVALID_FORMAT", timestamp: new Date().toISOString() })
+                return
+            }
+
+            const points = await locationStore.list(req.params.id, {
+                accountId: req.params.accountId,
+                from,
+                to,
+                includeFlagged: req.query.includeRejected === "true",
+            })
+            const segments = splitIntoSegments(points)
+            const name = `${points[points.length - 1]?.userName || req.params.accountId} (${req.params.id})`
+            const fileName = `track-${req.params.id}-${req.params.accountId}`
+
+            if (format === "gpx") {
+                res.type("application/gpx+xml").attachment(`${fileName}.gpx`).send(toGpx(name, segments))
+            } else if (format === "csv") {
+                res.type("text/csv").attachment(`${fileName}.csv`).send(trackToCsv(segments))
+            } else {
+                res.type("application/geo+json").send(JSON.stringify(toGeoJson(name, segments)))
+            }
+        } catch (error) {
+            next(error)
+        }
+    },
+)
+
+// Target from ?lat&lng, if given; null when neither is, undefined when they are not valid coordinates
+const parseTarget = (query: Request["query"]): Coordinates | null | undefined => {
+    if (query.lat === undefined && query.lng === undefined) return null
+    const point = { latitude: Number(query.lat), longitude: Number(query.lng) }
+    return isValidCoordinates(point) && query.lat !== "" && query.lng !== "" ? point : undefined
+}
+
+// Distance and ETA to ?lat&lng, or to the site of the participant's current task
+router.get("/:id/users/:accountId/eta", requirePermission("eta-view", { allowSelfParam: "accountId" }), async (req, res, next) => {
+    try {
+        const target = parseTarget(req.query)
+        if (target === undefined) {
+            res.status(400).json({
+                error: "lat and lng must be valid coordinates",
+                code: "INVALID_ETA_QUERY",
+                field: "lat",
+                timestamp: new Date().toISOString(),
+            })
+            return
+        }
+
+        const user = latestParticipant(stateStore.listUsers(req.params.id), req.params.accountId)
+        if (!user) {
+            res.status(404).json({ error: "User is not in this session", code: "USER_NOT_FOUND", timestamp: new Date().toISOString() })
+            return
+        }
+
+        const task = target ? undefined : taskService.current(req.params.id, user.accountId)
+        if (!target && !task) {
+            res.status(400).json({
+                error: "lat and lng are required when the user has no open task",
+                code: "INVALID_ETA_QUERY",
+                field: "lat",
+                timestamp: new Date().toISOString(),
+            })
+            return
+        }
+
+        const today = new Date().toISOString().slice(0, 10)
+        const points = await locationStore.list(req.params.id, { accountId: user.accountId, from: Date.parse(today), to: Date.now() })
+
+        res.json({
+            sessionId: req.params.id,
+            userId: user.accountId,
+            name: user.name,
+            status: user.status,
+            sharing: user.sharing,
+            task: task ? { id: task.id, title: task.title, status: task.status } : null,
+            // Only while the participant shares their position
+            eta: user.sharing === "live" ? estimateArrival(user, target ?? task!.site.location, task?.id ?? null) : null,
+            distanceToday: dailyDistances(points).find((entry) => entry.day === today)?.meters ?? 0,
+            timestamp: new Date().toISOString(),
+        })
+    } catch (error) {
+        next(error)
+    }
+})
+
+// Distance travelled per UTC day over accepted fixes: ?from&to (default: the last 7 days)
+router.get(
+    "/:id/users/:accountId/distance",
+    requirePermission("eta-view", { allowSelfParam: "accountId" }),
+    async (req, res, next) => {
+        try {
+            const to = parseTime(req.query.to, Date.now())
+            const from = parseTime(req.query.from, to - 7 * 24 * 60 * 60 * 1000)
+            if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+                res.status(400).json({ error: "Invalid time range", code: "INVALID_RANGE", timestamp: new Date().toISOString() })
+                return
+            }
+
+            const points = await locationStore.list(req.params.id, { accountId: req.params.accountId, from, to })
+            const days = dailyDistances(points)
+            res.json({
+                sessionId: req.params.id,
+                userId: req.params.accountId,
+                from: new Date(from).toISOString(),
+                to: new Date(to).toISOString(),
+                days,
+                totalMeters: days.reduce((total, entry) => total + entry.meters, 0),
+            })
+        } catch (error) {
+            next(error)
+        }
+    },
+)
+
+// Read-only customer link to one participant's ETA: { lat?, lng?, ttlMinutes? }. Without a
+// point the link follows the participant's current task until they arrive on site.
+router.post("/:id/users/:accountId/eta-share", requirePermission("eta-share"), (req, res) => {
+    const { lat, lng, ttlMinutes = config.eta.shareTtlMinutes } = req.body || {}
+    const target = lat === undefined && lng === undefined ? null : { latitude: lat, longitude: lng }
+
+    if (target && !isValidCoordinates(target)) {
+        res.status(400).json({
+            error: "lat and lng must be valid coordinates",
+            code: "INVALID_ETA_SHARE",
+            field: "lat",
+            timestamp: new Date().toISOString(),
+        })
+        return
+    }
+    if (!Number.isInteger(ttlMinutes) || ttlMinutes < 1 || ttlMinutes > config.eta.maxShareTtlMinutes) {
+        res.status(400).json({
+            error: `ttlMinutes must be an integer between 1 and ${config.eta.maxShareTtlMinutes}`,
+            code: "INVALID_ETA_SHARE",
+            field: "ttlMinutes",
+            timestamp: new Date().toISOString(),
+        })
+        return
+    }
+
+    const user = latestParticipant(stateStore.listUsers(req.params.id), req.params.accountId)
+    if (!user) {
+        res.status(404).json({ error: "User is not in this session", code: "USER_NOT_FOUND", timestamp: new Date().toISOString() })
+        return
+    }
+
+    const task = target ? undefined : taskService.current(req.params.id, user.accountId)
+    if (!target && !task) {
+        res.status(400).json({
+            error: "lat and lng are required when the user has no open task",
+            code: "INVALID_ETA_SHARE",
+            field: "lat",
+            timestamp: new Date().toISOString(),
+        })
+        return
+    }
+
+    const auth: TokenClaims = res.locals.auth
+    const { token, claims } = signViewToken({
+        sessionId: req.params.id,
+        accountId: user.accountId,
+        target,
+        taskId: task?.id ?? null,
+        ttlSeconds: ttlMinutes * 60,
+    })
+    const expiresAt = new Date(claims.exp * 1000).toISOString()
+    recordAudit({
+        type: "eta-share",
+        sessionId: req.params.id,
+        actor: { accountId: auth.sub, name: auth.name, role: auth.role },
+        target: auditParty(user),
+        payload: { target, taskId: claims.taskId, expiresAt },
+    })
+
+    res.status(201).json({ token, url: `/api/eta/${token}`, userId: user.accountId, target, taskId: claims.taskId, expiresAt })
+})
+
+// Time-ordered replay sequence: ?from&to, as JSON or NDJSON (?format=ndjson)
+router.get("/:id/replay", requirePermission("replay-start"), async (req, res, next) => {
+    try {
+        const to = parseTime(req.query.to, Date.now())
+        const from = parseTime(req.query.from, to - 60 * 60 * 1000)
+        const timeline = await buildReplayTimeline(req.params.id, from, to)
+        const events = timeline.events.map((item) => ({
+            event: item.event,
+            at: new Date(item.at).toISOString(),
+            payload: item.payload,
+        }))
+
+        if (req.query.format === "ndjson") {
+            res.type("application/x-ndjson")
+            res.write(JSON.stringify({ event: "users-list", at: new Date(from).toISOString(), payload: timeline.initialUsers }) + "\n")
+            events.forEach((item) => res.write(JSON.stringify(item) + "\n"))
+            res.end()
+            return
+        }
+
+        res.json({
+            sessionId: timeline.sessionId,
+            from: new Date(timeline.from).toISOString(),
+            to: new Date(timeline.to).toISOString(),
+            initialUsers: timeline.initialUsers,
+            events,
+        })
+    } catch (error) {
+        if (error instanceof ReplayRangeError) {
+            res.status(400).json({ error: error.message, code: error.code, timestamp: new Date().toISOString() })
+            return
+        }
+        next(error)
+    }
+})
+
+export default router
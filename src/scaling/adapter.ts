@@ -0,0 +1,103 @@
+import { Adapter, type BroadcastOptions } from "socket.io-adapter"
+import type { PubSub } from "./pubsub"
+
+interface SerializedOptions {
+    rooms: string[]
+    except: string[]
+    flags?: BroadcastOptions["flags"]
+}
+
+type AdapterMessage =
+    | { type: "broadcast"; packet: any; opts: SerializedOptions }
+    | { type: "disconnect-sockets"; opts: SerializedOptions; close: boolean }
+    | { type: "add-sockets"; opts: SerializedOptions; rooms: string[] }
+    | { type: "del-sockets"; opts: SerializedOptions; rooms: string[] }
+
+const serialize = (opts: BroadcastOptions): SerializedOptions => ({
+    rooms: Array.from(opts.rooms),
+    except: Array.from(opts.except || []),
+    flags: opts.flags,
+})
+
+const deserialize = (opts: SerializedOptions): BroadcastOptions => ({
+    rooms: new Set(opts.rooms),
+    except: new Set(opts.except),
+    flags: opts.flags,
+})
+
+/**
+ * Socket.IO adapter that mirrors room broadcasts, remote room joins and leaves, and socket
+ * disconnects to every other node over the pub/sub transport. Room membership itself stays local
+ * to the node holding the socket.
+ */
+class PubSubAdapter extends Adapter {
+    private readonly channel: string
+    private readonly unsubscribe: () => void
+
+    constructor(
+        nsp: any,
+        private readonly pubsub: PubSub,
+    ) {
+        super(nsp)
+        this.channel = `socket.io#${nsp.name}`
+        this.unsubscribe = pubsub.subscribe(this.channel, (message: AdapterMessage) => this.onRemote(message))
+    }
+
+    broadcast(packet: any, opts: BroadcastOptions): void {
+        if (!opts.flags?.local) {
+            this.publish({ type: "broadcast", packet, opts: serialize(opts) })
+        }
+        super.broadcast(packet, opts)
+    }
+
+    addSockets(opts: BroadcastOptions, rooms: string[]): void {
+        if (!opts.flags?.local) {
+            this.publish({ type: "add-sockets", opts: serialize(opts), rooms })
+        }
+        super.addSockets(opts, rooms)
+    }
+
+    delSockets(opts: BroadcastOptions, rooms: string[]): void {
+        if (!opts.flags?.local) {
+            this.publish({ type: "del-sockets", opts: serialize(opts), rooms })
+        }
+        super.delSockets(opts, rooms)
+    }
+
+    disconnectSockets(opts: BroadcastOptions, close: boolean): void {
+        if (!opts.flags?.local) {
+            this.publish({ type: "disconnect-sockets", opts: serialize(opts), close })
+        }
+        super.disconnectSockets(opts, close)
+    }
+
+    close(): void {
+        this.unsubscribe()
+    }
+
+    private publish(message: AdapterMessage): void {
+        this.pubsub.publish(this.channel, message)
+    }
+
+    private onRemote(message: AdapterMessage): void {
+        if (message.type === "broadcast") {
+            super.broadcast(message.packet, deserialize(message.opts))
+        } else if (message.type === "disconnect-sockets") {
+            super.disconnectSockets(deserialize(message.opts), message.close)
+        } else if (message.type === "add-sockets") {
+            super.addSockets(deserialize(message.opts), message.rooms)
+        } else if (message.type === "del-sockets") {
+            super.delSockets(deserialize(message.opts), message.rooms)
+        }
+    }
+}
+
+/**
+ * Adapter class for the Socket.IO `adapter` server option, bound to the given transport.
+ */
+export const createPubSubAdapter = (pubsub: PubSub) =>
+    class extends PubSubAdapter {
+        constructor(nsp: any) {
+            super(nsp, pubsub)
+        }
+    }
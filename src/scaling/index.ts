@@ -0,0 +1,10 @@
+import cluster from "cluster"
+import { createPubSubAdapter } from "./adapter"
+import { createIpcPubSub } from "./ipc"
+import { createLocalPubSub, type PubSub } from "./pubsub"
+import { createStateStore } from "./stateStore"
+
+// Workers started by src/cluster.ts share state through the primary; a standalone server keeps it in process
+export const pubsub: PubSub = cluster.isWorker ? createIpcPubSub() : createLocalPubSub()
+export const stateStore = createStateStore(pubsub)
+export const socketAdapter = createPubSubAdapter(pubsub)
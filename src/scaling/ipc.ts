@@ -0,0 +1,99 @@
+import cluster from "cluster"
+import { createNodeId, createSubscriberSet, type PubSub, type PubSubEnvelope } from "./pubsub"
+
+// Messages exchanged between cluster workers and the primary
+type IpcMessage =
+    | { type: "pubsub:publish"; envelope: PubSubEnvelope }
+    | { type: "pubsub:increment"; requestId: number; key: string }
+    | { type: "pubsub:increment-result"; requestId: number; value: number }
+
+const INCREMENT_TIMEOUT_MS = 5000
+
+const isIpcMessage = (value: any): value is IpcMessage => typeof value?.type === "string" && value.type.startsWith("pubsub:")
+
+/**
+ * Multi-process transport for cluster workers. Publications are relayed to the other workers by
+ * the primary, which also owns the shared counters (see startIpcHub).
+ */
+export const createIpcPubSub = (nodeId = createNodeId()): PubSub => {
+    if (!process.send) {
+        throw new Error("IPC pub/sub requires a worker process started by the cluster primary")
+    }
+
+    const send = (message: IpcMessage): void => {
+        process.send!(message)
+    }
+
+    const subscribers = createSubscriberSet(nodeId)
+    const pending = new Map<number, { resolve: (value: number) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }>()
+    let nextRequestId = 0
+
+    const onMessage = (message: unknown): void => {
+        if (!isIpcMessage(message)) return
+
+        if (message.type === "pubsub:publish") {
+            subscribers.deliver(message.envelope)
+        } else if (message.type === "pubsub:increment-result") {
+            const request = pending.get(message.requestId)
+            if (!request) return
+            clearTimeout(request.timer)
+            pending.delete(message.requestId)
+            request.resolve(message.value)
+        }
+    }
+
+    process.on("message", onMessage)
+
+    return {
+        nodeId,
+        publish(channel, message) {
+            send({ type: "pubsub:publish", envelope: { channel, origin: nodeId, message } })
+        },
+        subscribe: subscribers.subscribe,
+        increment(key) {
+            return new Promise((resolve, reject) => {
+                const requestId = ++nextRequestId
+                const timer = setTimeout(() => {
+                    pending.delete(requestId)
+                    reject(new Error(`Timed out allocating counter "${key}" from the cluster primary`))
+                }, INCREMENT_TIMEOUT_MS)
+                pending.set(requestId, { resolve, reject, timer })
+                send({ type: "pubsub:increment", requestId, key })
+            })
+        },
+        close() {
+            process.off("message", onMessage)
+            subscribers.clear()
+            pending.forEach((request) => {
+                clearTimeout(request.timer)
+                request.reject(new Error("Pub/sub closed"))
+            })
+            pending.clear()
+        },
+    }
+}
+
+/**
+ * Runs in the cluster primary: relays publications between workers and allocates shared counters.
+ * Counters live for the lifetime of the primary, so they stay unique across worker restarts.
+ */
+export const startIpcHub = (): void => {
+    const counters = new Map<string, number>()
+
+    cluster.on("message", (worker, message) => {
+        if (!isIpcMessage(message)) return
+
+        if (message.type === "pubsub:publish") {
+            Object.values(cluster.workers || {}).forEach((peer) => {
+                if (peer && peer !== worker && peer.isConnected()) {
+                    peer.send(message)
+                }
+            })
+        } else if (message.type === "pubsub:increment") {
+            const value = (counters.get(message.key) || 0) + 1
+            counters.set(message.key, value)
+            const reply: IpcMessage = { type: "pubsub:increment-result", requestId: message.requestId, value }
+            worker.send(reply)
+        }
+    })
+}
@@ -0,0 +1,71 @@
+import { EventEmitter } from "events"
+import { hostname } from "os"
+
+export type PubSubHandler = (message: any) => void
+
+/**
+ * Fan-out messaging between server instances. Messages are delivered to subscribers on every
+ * other node; a node never receives its own publications.
+ */
+export interface PubSub {
+    readonly nodeId: string
+    publish(channel: string, message: any): void
+    // Returns a function that removes the subscription
+    subscribe(channel: string, handler: PubSubHandler): () => void
+    // Allocates the next value of a counter shared by all nodes
+    increment(key: string): Promise<number>
+    close(): void
+}
+
+export interface PubSubEnvelope {
+    channel: string
+    origin: string
+    message: any
+}
+
+export const createNodeId = (): string => `${hostname()}:${process.pid}`
+
+/**
+ * Subscriber bookkeeping shared by the transports: envelopes from this node are dropped.
+ */
+export const createSubscriberSet = (nodeId: string) => {
+    const emitter = new EventEmitter()
+    emitter.setMaxListeners(0)
+
+    const subscribe = (channel: string, handler: PubSubHandler): (() => void) => {
+        emitter.on(channel, handler)
+        return () => {
+            emitter.off(channel, handler)
+        }
+    }
+
+    const deliver = (envelope: PubSubEnvelope): void => {
+        if (envelope.origin === nodeId) return
+        emitter.emit(envelope.channel, envelope.message)
+    }
+
+    return { subscribe, deliver, clear: () => emitter.removeAllListeners() }
+}
+
+/**
+ * Single-process transport. There are no other nodes, so publications go nowhere and counters
+ * are plain in-memory integers.
+ */
+export const createLocalPubSub = (nodeId = createNodeId()): PubSub => {
+    const subscribers = createSubscriberSet(nodeId)
+    const counters = new Map<string, number>()
+
+    return {
+        nodeId,
+        publish(channel, message) {
+            subscribers.deliver({ channel, origin: nodeId, message })
+        },
+        subscribe: subscribers.subscribe,
+        async increment(key) {
+            const value = (counters.get(key) || 0) + 1
+            counters.set(key, value)
+            return value
+        },
+        close: subscribers.clear,
+    }
+}
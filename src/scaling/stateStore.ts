@@ -0,0 +1,195 @@
+import type { User } from "../types"
+import type { PubSub } from "./pubsub"
+
+/**
+ * Where a participant is currently connected.
+ */
+export interface Presence {
+    nodeId: string
+    socketId: string
+    since: string
+}
+
+/**
+ * Participant state shared by every server instance. Reads are served from a local replica;
+ * writes are applied locally and replicated to the other nodes over pub/sub.
+ */
+export interface StateStore {
+    // Participants by stable user id, including disconnected ones within their grace period
+    getUser(userId: string): User | undefined
+    setUser(user: User): void
+    deleteUser(userId: string): void
+    listUsers(sessionId?: string): User[]
+
+    // Connected participants per session
+    addSessionMember(sessionId: string, userId: string): void
+    removeSessionMember(sessionId: string, userId: string): void
+    sessionMembers(sessionId: string): string[]
+    sessionIds(): string[]
+
+    // Messages held for disconnected participants
+    bufferMessage(userId: string, message: any): void
+    bufferedMessages(userId: string): any[]
+    clearBuffer(userId: string): void
+    trimBuffers(maxLength: number, keep: number): void
+
+    // The socket currently attached to a participant; clearing only applies to that same socket
+    setPresence(userId: string, presence: Presence): void
+    clearPresence(userId: string, socketId: string): void
+    getPresence(userId: string): Presence | undefined
+
+    // Resume tokens → user id
+    setResumeToken(token: string, userId: string): void
+    resolveResumeToken(token: string): string | undefined
+    revokeResumeTokens(userId: string): void
+
+    // Per-session broadcast sequence numbers, unique across nodes
+    nextSeq(sessionId: string): Promise<number>
+}
+
+interface StateSnapshot {
+    users: User[]
+    sessions: Array<[string, string[]]>
+    buffers: Array<[string, any[]]>
+    presence: Array<[string, Presence]>
+    resumeTokens: Array<[string, string]>
+}
+
+type StateOp =
+    | { op: "user-set"; user: User }
+    | { op: "user-delete"; userId: string }
+    | { op: "member-add"; sessionId: string; userId: string }
+    | { op: "member-remove"; sessionId: string; userId: string }
+    | { op: "buffer-push"; userId: string; message: any }
+    | { op: "buffer-clear"; userId: string }
+    | { op: "buffer-trim"; maxLength: number; keep: number }
+    | { op: "presence-set"; userId: string; presence: Presence }
+    | { op: "presence-clear"; userId: string; socketId: string }
+    | { op: "token-set"; token: string; userId: string }
+    | { op: "token-revoke"; userId: string }
+
+const STATE_CHANNEL = "state"
+const SYNC_REQUEST_CHANNEL = "state:sync-request"
+const SNAPSHOT_CHANNEL = "state:snapshot"
+
+export const createStateStore = (pubsub: PubSub): StateStore => {
+    const users = new Map<string, User>()
+    const sessions = new Map<string, Set<string>>()
+    const buffers = new Map<string, any[]>()
+    const presence = new Map<string, Presence>()
+    const resumeTokens = new Map<string, string>()
+
+    const apply = (change: StateOp): void => {
+        switch (change.op) {
+            case "user-set":
+                users.set(change.user.id, change.user)
+                break
+            case "user-delete":
+                users.delete(change.userId)
+                buffers.delete(change.userId)
+                presence.delete(change.userId)
+                break
+            case "member-add":
+                if (!sessions.has(change.sessionId)) sessions.set(change.sessionId, new Set())
+                sessions.get(change.sessionId)!.add(change.userId)
+                break
+            case "member-remove": {
+                const members = sessions.get(change.sessionId)
+                members?.delete(change.userId)
+                if (members?.size === 0) sessions.delete(change.sessionId)
+                break
+            }
+            case "buffer-push":
+                if (!buffers.has(change.userId)) buffers.set(change.userId, [])
+                buffers.get(change.userId)!.push(change.message)
+                break
+            case "buffer-clear":
+                buffers.delete(change.userId)
+                break
+            case "buffer-trim":
+                buffers.forEach((messages, userId) => {
+                    if (messages.length > change.maxLength) buffers.set(userId, messages.slice(-change.keep))
+                })
+                break
+            case "presence-set":
+                presence.set(change.userId, change.presence)
+                break
+            case "presence-clear":
+                if (presence.get(change.userId)?.socketId === change.socketId) presence.delete(change.userId)
+                break
+            case "token-set":
+                resumeTokens.set(change.token, change.userId)
+                break
+            case "token-revoke":
+                resumeTokens.forEach((userId, token) => {
+                    if (userId === change.userId) resumeTokens.delete(token)
+                })
+                break
+        }
+    }
+
+    const commit = (change: StateOp): void => {
+        apply(change)
+        pubsub.publish(STATE_CHANNEL, change)
+    }
+
+    const snapshot = (): StateSnapshot => ({
+        users: Array.from(users.values()),
+        sessions: Array.from(sessions.entries()).map(([sessionId, members]) => [sessionId, Array.from(members)]),
+        buffers: Array.from(buffers.entries()),
+        presence: Array.from(presence.entries()),
+        resumeTokens: Array.from(resumeTokens.entries()),
+    })
+
+    // Entries already present locally win over the snapshot, which may be slightly older
+    const merge = (state: StateSnapshot): void => {
+        state.users.forEach((user) => !users.has(user.id) && users.set(user.id, user))
+        state.sessions.forEach(([sessionId, members]) =>
+            members.forEach((userId) => apply({ op: "member-add", sessionId, userId })),
+        )
+        state.buffers.forEach(([userId, messages]) => !buffers.has(userId) && buffers.set(userId, messages))
+        state.presence.forEach(([userId, entry]) => !presence.has(userId) && presence.set(userId, entry))
+        state.resumeTokens.forEach(([token, userId]) => !resumeTokens.has(token) && resumeTokens.set(token, userId))
+    }
+
+    // Replication: apply remote changes and bring late-starting nodes up to date
+    let synced = false
+    pubsub.subscribe(STATE_CHANNEL, apply)
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, ({ requester }) => {
+        pubsub.publish(SNAPSHOT_CHANNEL, { requester, state: snapshot() })
+    })
+    pubsub.subscribe(SNAPSHOT_CHANNEL, ({ requester, state }) => {
+        if (requester !== pubsub.nodeId || synced) return
+        synced = true
+        merge(state)
+    })
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    return {
+        getUser: (userId) => users.get(userId),
+        setUser: (user) => commit({ op: "user-set", user }),
+        deleteUser: (userId) => commit({ op: "user-delete", userId }),
+        listUsers: (sessionId) =>
+            Array.from(users.values()).filter((user) => sessionId === undefined || user.sessionId === sessionId),
+
+        addSessionMember: (sessionId, userId) => commit({ op: "member-add", sessionId, userId }),
+        removeSessionMember: (sessionId, userId) => commit({ op: "member-remove", sessionId, userId }),
+        sessionMembers: (sessionId) => Array.from(sessions.get(sessionId) || []),
+        sessionIds: () => Array.from(sessions.keys()),
+
+        bufferMessage: (userId, message) => commit({ op: "buffer-push", userId, message }),
+        bufferedMessages: (userId) => buffers.get(userId) || [],
+        clearBuffer: (userId) => commit({ op: "buffer-clear", userId }),
+        trimBuffers: (maxLength, keep) => commit({ op: "buffer-trim", maxLength, keep }),
+
+        setPresence: (userId, entry) => commit({ op: "presence-set", userId, presence: entry }),
+        clearPresence: (userId, socketId) => commit({ op: "presence-clear", userId, socketId }),
+        getPresence: (userId) => presence.get(userId),
+
+        setResumeToken: (token, userId) => commit({ op: "token-set", token, userId }),
+        resolveResumeToken: (token) => resumeTokens.get(token),
+        revokeResumeTokens: (userId) => commit({ op: "token-revoke", userId }),
+
+        nextSeq: (sessionId) => pubsub.increment(`seq:${sessionId}`),
+    }
+}
@@ -1,12 +1,24 @@
 import express from "express"
 import { createServer } from "http"
 import cors from "cors"
+import { config } from "./config"
+import { rateLimitRequests } from "./auth/middleware"
+import { httpRateLimiter } from "./services"
 import { initSocket } from "./sockets"
+import { clientEventsJsonSchema } from "./sockets/contract"
+import authRoutes from "./routes/auth"
+import sessionRoutes from "./routes/sessions"
+import adminRoutes from "./routes/admin"
+import auditRoutes from "./routes/audit"
+import alertRoutes from "./routes/alerts"
+import etaRoutes from "./routes/eta"
 
 
 const app = express()
 const server = createServer(app)
 
+app.set("trust proxy", config.rateLimits.trustProxyHops)
+
 // Enhanced CORS configuration
 app.use(
     cors({
@@ -26,6 +38,9 @@ app.use(
 app.use(express.json({ limit: "10mb" }))
 app.use(express.urlencoded({ extended: true, limit: "10mb" }))
 
+// Per-client request budget for the REST API
+app.use("/api", rateLimitRequests(httpRateLimiter))
+
 // Initialize Socket.IO with enhanced stability
 const io = initSocket(server)
 
@@ -85,6 +100,29 @@ app.get("/api/stats", (req, res) => {
     res.json(stats)
 })
 
+// Payload schemas for the events clients may emit over the socket
+app.get("/api/contract/socket-events", (req, res) => {
+    res.json(clientEventsJsonSchema())
+})
+
+// Authentication
+app.use("/api/auth", authRoutes)
+
+// Tracking sessions
+app.use("/api/sessions", sessionRoutes)
+
+// Moderation
+app.use("/api/admin", adminRoutes)
+
+// Audit trail
+app.use("/api/audit", auditRoutes)
+
+// SOS alerts
+app.use("/api/alerts", alertRoutes)
+
+// Customer ETA links
+app.use("/api/eta", etaRoutes)
+
 // Root endpoint
 app.get("/", (req, res) => {
     res.json({
@@ -100,6 +138,27 @@ app.get("/", (req, res) => {
             "Message buffering",
             "Rate limiting",
             "Memory optimization",
+            "Token authentication",
+            "Persistent message history",
+            "Geofence enter/exit events",
+            "Automatic timesheets",
+            "Location history export",
+            "Session replay",
+            "GPS quality filtering",
+            "Offline location batches",
+            "Resumable sessions",
+            "Multi-process clustering",
+            "Moderation commands",
+            "Audit log",
+            "Validated socket event contract",
+            "Session lifecycle management",
+            "Invite codes and join approval",
+            "Location sharing pause and privacy zones",
+            "SOS alerts with escalation",
+            "Inactivity and man-down watchdog",
+            "Proximity alerts and nearest-worker queries",
+            "Task dispatch",
+            "ETA and distance travelled",
         ],
     })
 })
@@ -122,7 +181,7 @@ app.use((req, res) => {
     })
 })
 
-const PORT = process.env.PORT || 4000
+const PORT = config.port
 
 // Enhanced server startup
 server.listen(PORT, () => {
@@ -0,0 +1,211 @@
+import { randomUUID } from "crypto"
+import { EventEmitter } from "events"
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+import type { AlertStore } from "../stores/alerts"
+import type { AlertStatus, SosAlert, User } from "../types"
+import type { Coordinates } from "../utils/geo"
+
+export interface AlertActor {
+    accountId: string
+    name: string
+}
+
+// Shape checks happen in the socket contract
+export interface SosInput {
+    message?: string
+    location?: Coordinates | null
+    accuracy?: number | null
+}
+
+export class AlertError extends Error {
+    constructor(
+        message: string,
+        public readonly code: "ALERT_NOT_FOUND" | "ALERT_ACKNOWLEDGED" | "ALERT_RESOLVED" | "FORBIDDEN",
+        public readonly field?: string,
+    ) {
+        super(message)
+        this.name = "AlertError"
+    }
+}
+
+const ALERT_CHANNEL = "alerts"
+const SYNC_REQUEST_CHANNEL = "alerts:sync-request"
+const SNAPSHOT_CHANNEL = "alerts:snapshot"
+
+/**
+ * SOS alerts: raised by a participant, acknowledged and resolved by staff, and escalated when
+ * nobody acknowledges them in time. Alerts are replicated between nodes over pub/sub and written
+ * through to the alert store. Changes are emitted on the node that made them ("raised",
+ * "acknowledged", "resolved", each with the alert; "escalated" on the node that raised it).
+ */
+export const createAlertService = (pubsub: PubSub, store: AlertStore) => {
+    const events = new EventEmitter()
+    const alerts = new Map<string, SosAlert>()
+    const escalations = new Map<string, NodeJS.Timeout>() // alert id → pending escalation, raising node only
+
+    const apply = (alert: SosAlert): void => {
+        alerts.set(alert.id, alert)
+        if (alert.status !== "open") {
+            clearTimeout(escalations.get(alert.id))
+            escalations.delete(alert.id)
+        }
+    }
+
+    const commit = (alert: SosAlert): SosAlert => {
+        apply(alert)
+        pubsub.publish(ALERT_CHANNEL, alert)
+        store.save(alert).catch((error) => console.error("❌ Failed to persist alert:", error))
+        return alert
+    }
+
+    let synced = false
+    pubsub.subscribe(ALERT_CHANNEL, apply)
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, ({ requester }) => {
+        pubsub.publish(SNAPSHOT_CHANNEL, { requester, alerts: Array.from(alerts.values()) })
+    })
+    pubsub.subscribe(SNAPSHOT_CHANNEL, ({ requester, alerts: state }: { requester: string; alerts: SosAlert[] }) => {
+        if (requester !== pubsub.nodeId || synced) return
+        synced = true
+        state.forEach((alert) => !alerts.has(alert.id) && apply(alert))
+    })
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    // Stored alerts are loaded once; changes replicated in the meantime take precedence
+    const ready = store
+        .list()
+        .then((stored) => stored.forEach((alert) => !alerts.has(alert.id) && alerts.set(alert.id, alert)))
+        .catch((error) => console.error("❌ Failed to load alerts:", error))
+
+    const findAlert = (alertId: string): SosAlert => {
+        const alert = alerts.get(alertId)
+        if (!alert) throw new AlertError("Alert not found", "ALERT_NOT_FOUND", "alertId")
+        return alert
+    }
+
+    // Best effort: a failing webhook is logged, the in-app escalation still happens
+    const notifyWebhook = async (alert: SosAlert): Promise<void> => {
+        if (!config.alerts.webhookUrl) return
+        try {
+            const response = await fetch(config.alerts.webhookUrl, {
+                method: "POST",
+                headers: { "content-type": "application/json" },
+                body: JSON.stringify({ type: "sos-escalated", alert }),
+                signal: AbortSignal.timeout(config.alerts.webhookTimeoutMs),
+            })
+            if (!response.ok) console.error(`❌ SOS webhook answered ${response.status} for alert ${alert.id}`)
+        } catch (error) {
+            console.error("❌ Failed to call SOS webhook:", error)
+        }
+    }
+
+    const escalate = (alertId: string): void => {
+        escalations.delete(alertId)
+        const alert = alerts.get(alertId)
+        if (!alert || alert.status !== "open") return
+
+        const escalated = commit({ ...alert, escalatedAt: new Date().toISOString() })
+        events.emit("escalated", escalated)
+        notifyWebhook(escalated)
+    }
+
+    /**
+     * Raises an SOS for the participant, using the position sent with it or else the last shared
+     * one. Raising again while an alert is unresolved refreshes that alert instead of adding one.
+     */
+    const raise = async (user: User, input: SosInput = {}): Promise<SosAlert> => {
+        await ready
+        const location = input.location ?? user.location
+        const position = {
+            location: location ? { latitude: location.latitude, longitude: location.longitude } : null,
+            accuracy: (input.location ? input.accuracy : user.accuracy) ?? null,
+            trail: [...user.trail],
+        }
+
+        const existing = Array.from(alerts.values()).find(
+            (alert) => alert.sessionId === user.sessionId && alert.accountId === user.accountId && alert.status !== "resolved",
+        )
+        if (existing) {
+            const refreshed = commit({ ...existing, ...position, message: input.message?.trim() || existing.message })
+            events.emit("raised", refreshed)
+            return refreshed
+        }
+
+        const alert = commit({
+            id: randomUUID(),
+            sessionId: user.sessionId,
+            accountId: user.accountId,
+            userId: user.id,
+            userName: user.name,
+            role: user.role,
+            message: input.message?.trim() || null,
+            ...position,
+            status: "open",
+            raisedAt: new Date().toISOString(),
+            acknowledgedAt: null,
+            acknowledgedBy: null,
+            escalatedAt: null,
+            resolvedAt: null,
+            resolvedBy: null,
+            notes: null,
+        })
+        escalations.set(alert.id, setTimeout(() => escalate(alert.id), config.alerts.ackTimeoutSeconds * 1000))
+        events.emit("raised", alert)
+        return alert
+    }
+
+    const acknowledge = async (alertId: string, actor: AlertActor): Promise<SosAlert> => {
+        await ready
+        const alert = findAlert(alertId)
+        if (alert.status === "resolved") throw new AlertError("Alert is already resolved", "ALERT_RESOLVED")
+        if (alert.status === "acknowledged") throw new AlertError("Alert is already acknowledged", "ALERT_ACKNOWLEDGED")
+
+        const acknowledged = commit({
+            ...alert,
+            status: "acknowledged",
+            acknowledgedAt: new Date().toISOString(),
+            acknowledgedBy: { accountId: actor.accountId, name: actor.name },
+        })
+        events.emit("acknowledged", acknowledged, actor)
+        return acknowledged
+    }
+
+    // Resolving also acknowledges an alert nobody acknowledged yet
+    const resolve = async (alertId: string, actor: AlertActor, notes?: string): Promise<SosAlert> => {
+        await ready
+        const alert = findAlert(alertId)
+        if (alert.status === "resolved") throw new AlertError("Alert is already resolved", "ALERT_RESOLVED")
+
+        const now = new Date().toISOString()
+        const by = { accountId: actor.accountId, name: actor.name }
+        const resolved = commit({
+            ...alert,
+            status: "resolved",
+            acknowledgedAt: alert.acknowledgedAt ?? now,
+            acknowledgedBy: alert.acknowledgedBy ?? by,
+            resolvedAt: now,
+            resolvedBy: by,
+            notes: notes?.trim() || null,
+        })
+        events.emit("resolved", resolved, actor)
+        return resolved
+    }
+
+    const get = async (alertId: string): Promise<SosAlert | undefined> => {
+        await ready
+        return alerts.get(alertId)
+    }
+
+    // Newest first
+    const list = async (filter: { statuses?: AlertStatus[]; sessionId?: string } = {}): Promise<SosAlert[]> => {
+        await ready
+        return Array.from(alerts.values())
+            .filter((alert) => !filter.statuses || filter.statuses.includes(alert.status))
+            .filter((alert) => !filter.sessionId || alert.sessionId === filter.sessionId)
+            .sort((a, b) => b.raisedAt.localeCompare(a.raisedAt))
+    }
+
+    return { events, raise, acknowledge, resolve, get, list }
+}
+
+export type AlertService = ReturnType<typeof createAlertService>
@@ -0,0 +1,17 @@
+import { auditStore } from "../stores"
+import type { AuditEntry, AuditParty } from "../stores/audit"
+import type { User } from "../types"
+
+export const auditParty = (user: Pick<User, "accountId" | "id" | "name" | "role">): AuditParty => ({
+    accountId: user.accountId,
+    userId: user.id,
+    name: user.name,
+    role: user.role,
+})
+
+/**
+ * Appends to the audit trail without holding up the caller; write failures are logged.
+ */
+export const recordAudit = (entry: Omit<AuditEntry, "id" | "timestamp" | "payloadHash">): void => {
+    auditStore.record(entry).catch((error) => console.error(`❌ Failed to record ${entry.type} audit entry:`, error))
+}
@@ -0,0 +1,350 @@
+import { EventEmitter } from "events"
+import { randomUUID } from "crypto"
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+import type { Role } from "../types"
+import {
+    distanceToPolygonEdge,
+    haversineMeters,
+    isValidCoordinates,
+    pointInPolygon,
+    type Coordinates,
+} from "../utils/geo"
+
+interface GeofenceBase {
+    id: string
+    sessionId: string
+    name: string
+    createdBy: string
+    createdAt: string
+    updatedAt: string
+}
+
+export interface CircleGeofence extends GeofenceBase {
+    type: "circle"
+    center: Coordinates
+    radius: number // meters
+}
+
+export interface PolygonGeofence extends GeofenceBase {
+    type: "polygon"
+    points: Coordinates[]
+}
+
+export type Geofence = CircleGeofence | PolygonGeofence
+
+export interface GeofenceSubject {
+    accountId: string
+    userId: string // stable participant id
+    userName: string
+    role: Role
+}
+
+export interface GeofenceFix extends Coordinates {
+    accuracy?: number | null
+    timestamp: string
+}
+
+export interface GeofenceTransition {
+    type: "enter" | "exit"
+    sessionId: string
+    zoneId: string
+    zoneName: string
+    accountId: string
+    userId: string
+    userName: string
+    role: Role
+    location: Coordinates
+    accuracy: number | null
+    timestamp: string
+    dwellMs?: number // duration of the visit that just ended (exit only)
+}
+
+export interface DwellState {
+    zoneId: string
+    accountId: string
+    userName: string
+    inside: boolean
+    enteredAt: string | null
+    lastTransitionAt: string | null
+    visits: number
+    totalDwellMs: number // completed visits only
+}
+
+export class GeofenceValidationError extends Error {
+    readonly code = "INVALID_GEOFENCE"
+
+    constructor(
+        message: string,
+        public readonly field: string,
+    ) {
+        super(message)
+        this.name = "GeofenceValidationError"
+    }
+}
+
+type GeofenceOp =
+    | { op: "zone-set"; zone: Geofence }
+    | { op: "zone-delete"; sessionId: string; zoneId: string }
+    | { op: "dwell-set"; sessionId: string; key: string; state: DwellState }
+
+interface GeofenceSnapshot {
+    zones: Geofence[]
+    dwell: Array<{ sessionId: string; key: string; state: DwellState }>
+}
+
+const GEOFENCE_CHANNEL = "geofences"
+const SYNC_REQUEST_CHANNEL = "geofences:sync-request"
+const SNAPSHOT_CHANNEL = "geofences:snapshot"
+
+/**
+ * Signed distance from a point to the zone boundary in meters: negative inside, positive outside.
+ */
+export const signedDistanceToBoundary = (zone: Geofence, point: Coordinates): number => {
+    if (zone.type === "circle") {
+        return haversineMeters(zone.center, point) - zone.radius
+    }
+    const distance = distanceToPolygonEdge(point, zone.points)
+    return pointInPolygon(point, zone.points) ? -distance : distance
+}
+
+const validateInput = (input: any): Pick<CircleGeofence, "type" | "center" | "radius" | "name"> | Pick<PolygonGeofence, "type" | "points" | "name"> => {
+    if (!input || typeof input !== "object") {
+        throw new GeofenceValidationError("Geofence definition is required", "geofence")
+    }
+
+    const { name, type } = input
+    if (!name || typeof name !== "string" || name.trim().length === 0 || name.length > 100) {
+        throw new GeofenceValidationError("Geofence name must be 1-100 characters", "name")
+    }
+
+    if (type === "circle") {
+        if (!isValidCoordinates(input.center)) {
+            throw new GeofenceValidationError("Circle center must be valid coordinates", "center")
+        }
+        if (typeof input.radius !== "number" || !Number.isFinite(input.radius) || input.radius < 1 || input.radius > 50000) {
+            throw new GeofenceValidationError("Circle radius must be between 1 and 50000 meters", "radius")
+        }
+        return {
+            type,
+            name: name.trim(),
+            center: { latitude: input.center.latitude, longitude: input.center.longitude },
+            radius: input.radius,
+        }
+    }
+
+    if (type === "polygon") {
+        const { points } = input
+        if (!Array.isArray(points) || points.length < 3 || points.length > config.geofences.maxPolygonPoints) {
+            throw new GeofenceValidationError(
+                `Polygon must have between 3 and ${config.geofences.maxPolygonPoints} points`,
+                "points",
+            )
+        }
+        points.forEach((point: unknown, index: number) => {
+            if (!isValidCoordinates(point)) {
+                throw new GeofenceValidationError("Polygon points must be valid coordinates", `points[${index}]`)
+            }
+        })
+        return {
+            type,
+            name: name.trim(),
+            points: points.map((p: Coordinates) => ({ latitude: p.latitude, longitude: p.longitude })),
+        }
+    }
+
+    throw new GeofenceValidationError('Geofence type must be "circle" or "polygon"', "type")
+}
+
+/**
+ * Holds geofence definitions and per-user dwell state for every tracking session. Both are
+ * replicated between nodes over pub/sub; "zone-updated", "zone-deleted" and "transition" are
+ * emitted on the node that made the change so transports can relay it.
+ */
+export const createGeofenceService = (pubsub: PubSub) => {
+    const events = new EventEmitter()
+    const zones = new Map<string, Map<string, Geofence>>() // sessionId → zoneId → zone
+    const dwell = new Map<string, Map<string, DwellState>>() // sessionId → `${zoneId}:${accountId}` → state
+
+    const dwellFor = (sessionId: string): Map<string, DwellState> => {
+        if (!dwell.has(sessionId)) dwell.set(sessionId, new Map())
+        return dwell.get(sessionId)!
+    }
+
+    const apply = (change: GeofenceOp): void => {
+        switch (change.op) {
+            case "zone-set": {
+                const { sessionId, id } = change.zone
+                if (!zones.has(sessionId)) zones.set(sessionId, new Map())
+                zones.get(sessionId)!.set(id, change.zone)
+                break
+            }
+            case "zone-delete": {
+                zones.get(change.sessionId)?.delete(change.zoneId)
+                const sessionDwell = dwellFor(change.sessionId)
+                sessionDwell.forEach((state, key) => {
+                    if (state.zoneId === change.zoneId) sessionDwell.delete(key)
+                })
+                break
+            }
+            case "dwell-set":
+                dwellFor(change.sessionId).set(change.key, change.state)
+                break
+        }
+    }
+
+    const commit = (change: GeofenceOp): void => {
+        apply(change)
+        pubsub.publish(GEOFENCE_CHANNEL, change)
+    }
+
+    let synced = false
+    pubsub.subscribe(GEOFENCE_CHANNEL, apply)
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, ({ requester }) => {
+        const state: GeofenceSnapshot = {
+            zones: Array.from(zones.values()).flatMap((session) => Array.from(session.values())),
+            dwell: Array.from(dwell).flatMap(([sessionId, session]) =>
+                Array.from(session, ([key, dwellState]) => ({ sessionId, key, state: dwellState })),
+            ),
+        }
+        pubsub.publish(SNAPSHOT_CHANNEL, { requester, state })
+    })
+    pubsub.subscribe(SNAPSHOT_CHANNEL, ({ requester, state }: { requester: string; state: GeofenceSnapshot }) => {
+        if (requester !== pubsub.nodeId || synced) return
+        synced = true
+        state.zones.forEach((zone) => !zones.get(zone.sessionId)?.has(zone.id) && apply({ op: "zone-set", zone }))
+        state.dwell.forEach((entry) => !dwell.get(entry.sessionId)?.has(entry.key) && apply({ op: "dwell-set", ...entry }))
+    })
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    const list = (sessionId: string): Geofence[] => Array.from(zones.get(sessionId)?.values() || [])
+
+    const get = (sessionId: string, zoneId: string): Geofence | undefined => zones.get(sessionId)?.get(zoneId)
+
+    const upsert = (sessionId: string, input: any, actor: string, zoneId?: string): Geofence => {
+        const definition = validateInput(input)
+        const sessionZones = zones.get(sessionId) || new Map<string, Geofence>()
+        const existing = zoneId ? sessionZones.get(zoneId) : undefined
+
+        if (zoneId && !existing) {
+            throw new GeofenceValidationError("Geofence not found", "id")
+        }
+        if (!existing && sessionZones.size >= config.geofences.maxZonesPerSession) {
+            throw new GeofenceValidationError(
+                `A session can have at most ${config.geofences.maxZonesPerSession} geofences`,
+                "geofence",
+            )
+        }
+
+        const now = new Date().toISOString()
+        const zone = {
+            id: existing?.id || randomUUID(),
+            sessionId,
+            createdBy: existing?.createdBy || actor,
+            createdAt: existing?.createdAt || now,
+            updatedAt: now,
+            ...definition,
+        } as Geofence
+
+        commit({ op: "zone-set", zone })
+        events.emit("zone-updated", zone, actor)
+        return zone
+    }
+
+    const remove = (sessionId: string, zoneId: string, actor: string): boolean => {
+        if (!zones.get(sessionId)?.has(zoneId)) return false
+
+        commit({ op: "zone-delete", sessionId, zoneId })
+        events.emit("zone-deleted", { sessionId, zoneId }, actor)
+        return true
+    }
+
+    /**
+     * Evaluates an accepted fix against every zone in the session. A user enters once they are
+     * half the hysteresis band inside the boundary, and only exits once they are half the band
+     * plus the fix's accuracy radius outside, so GPS jitter at the edge does not flap.
+     */
+    const evaluate = (sessionId: string, subject: GeofenceSubject, fix: GeofenceFix): GeofenceTransition[] => {
+        const accuracy = typeof fix.accuracy === "number" && fix.accuracy >= 0 ? fix.accuracy : null
+        if (accuracy !== null && accuracy > config.geofences.maxAccuracyMeters) return []
+
+        const band = config.geofences.hysteresisMeters / 2
+        const sessionDwell = dwellFor(sessionId)
+        const transitions: GeofenceTransition[] = []
+
+        list(sessionId).forEach((zone) => {
+            const key = `${zone.id}:${subject.accountId}`
+            const known = sessionDwell.get(key)
+            const state: DwellState = known ? { ...known } : {
+                zoneId: zone.id,
+                accountId: subject.accountId,
+                userName: subject.userName,
+                inside: false,
+                enteredAt: null,
+                lastTransitionAt: null,
+                visits: 0,
+                totalDwellMs: 0,
+            }
+            state.userName = subject.userName
+
+            const distance = signedDistanceToBoundary(zone, fix)
+            let type: GeofenceTransition["type"] | null = null
+
+            if (!state.inside && distance <= -band) {
+                type = "enter"
+                state.inside = true
+                state.enteredAt = fix.timestamp
+                state.visits++
+            } else if (state.inside && distance >= band + (accuracy ?? 0)) {
+                type = "exit"
+            }
+
+            let dwellMs: number | undefined
+            if (type === "exit") {
+                dwellMs = Math.max(0, new Date(fix.timestamp).getTime() - new Date(state.enteredAt!).getTime())
+                state.totalDwellMs += dwellMs
+                state.inside = false
+                state.enteredAt = null
+            }
+
+            if (type) {
+                state.lastTransitionAt = fix.timestamp
+                transitions.push({
+                    type,
+                    sessionId,
+                    zoneId: zone.id,
+                    zoneName: zone.name,
+                    accountId: subject.accountId,
+                    userId: subject.userId,
+                    userName: subject.userName,
+                    role: subject.role,
+                    location: { latitude: fix.latitude, longitude: fix.longitude },
+                    accuracy,
+                    timestamp: fix.timestamp,
+                    ...(dwellMs !== undefined ? { dwellMs } : {}),
+                })
+            }
+
+            // Only changes are replicated; most fixes leave the dwell state as it was
+            if (!known || type || known.userName !== state.userName) {
+                commit({ op: "dwell-set", sessionId, key, state })
+            }
+        })
+
+        transitions.forEach((transition) => events.emit("transition", transition))
+        return transitions
+    }
+
+    // Dwell state including the time spent in any visit still in progress
+    const getDwell = (sessionId: string): Array<DwellState & { currentDwellMs: number }> => {
+        const now = Date.now()
+        return Array.from(dwellFor(sessionId).values()).map((state) => ({
+            ...state,
+            currentDwellMs: state.inside && state.enteredAt ? Math.max(0, now - new Date(state.enteredAt).getTime()) : 0,
+        }))
+    }
+
+    return { events, list, get, upsert, remove, evaluate, getDwell }
+}
+
+export type GeofenceService = ReturnType<typeof createGeofenceService>
@@ -0,0 +1,254 @@
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+import { haversineMeters } from "../utils/geo"
+
+export interface GpsFix {
+    latitude: number
+    longitude: number
+    accuracy: number | null
+    timestamp: string
+}
+
+export type GpsRejectReason = "LOW_ACCURACY" | "IMPLAUSIBLE_SPEED" | "DUPLICATE" | "STATIONARY"
+
+export interface GpsFilterResult {
+    accepted: boolean
+    reason?: GpsRejectReason
+    // Position to use downstream; smoothed when the Kalman filter is enabled
+    latitude: number
+    longitude: number
+    smoothed: boolean
+    distanceMeters: number | null // from the previous accepted fix
+    impliedSpeedMps: number | null
+    latest: boolean // accepted and not older than the newest accepted fix
+}
+
+export interface GpsQualityStats {
+    received: number
+    accepted: number
+    rejected: Record<GpsRejectReason, number>
+    lastRejectReason: GpsRejectReason | null
+    lastRejectedAt: string | null
+    averageAccuracy: number | null
+    maxImpliedSpeedMps: number
+    consecutiveRejects: number
+}
+
+interface TrackState {
+    last: (GpsFix & { time: number }) | null
+    kalman: { latitude: number; longitude: number; variance: number; time: number } | null
+    stats: GpsQualityStats
+    accuracySum: number
+    accuracyCount: number
+}
+
+type GpsFilterOp =
+    | { op: "track-set"; sessionId: string; accountId: string; state: TrackState }
+    | { op: "track-reset"; sessionId: string; accountId: string }
+
+const GPS_CHANNEL = "gps-filter"
+const SYNC_REQUEST_CHANNEL = "gps-filter:sync-request"
+const SNAPSHOT_CHANNEL = "gps-filter:snapshot"
+
+const emptyStats = (): GpsQualityStats => ({
+    received: 0,
+    accepted: 0,
+    rejected: { LOW_ACCURACY: 0, IMPLAUSIBLE_SPEED: 0, DUPLICATE: 0, STATIONARY: 0 },
+    lastRejectReason: null,
+    lastRejectedAt: null,
+    averageAccuracy: null,
+    maxImpliedSpeedMps: 0,
+    consecutiveRejects: 0,
+})
+
+/**
+ * Per-track filtering pipeline applied before a fix is accepted:
+ * accuracy threshold → duplicate check → implied velocity → stationary suppression → optional
+ * Kalman smoothing. Each account has an independent track per session. Tracks are replicated
+ * between nodes over pub/sub, so a participant who reconnects to another node is judged against
+ * the same baseline and quality stats read the same everywhere.
+ */
+export const createGpsFilter = (pubsub: PubSub, options = config.gps) => {
+    const sessions = new Map<string, Map<string, TrackState>>() // sessionId → accountId → track
+
+    const apply = (change: GpsFilterOp): void => {
+        switch (change.op) {
+            case "track-set":
+                if (!sessions.has(change.sessionId)) sessions.set(change.sessionId, new Map())
+                sessions.get(change.sessionId)!.set(change.accountId, change.state)
+                break
+            case "track-reset":
+                sessions.get(change.sessionId)?.delete(change.accountId)
+                break
+        }
+    }
+
+    const commit = (change: GpsFilterOp): void => {
+        apply(change)
+        pubsub.publish(GPS_CHANNEL, change)
+    }
+
+    let synced = false
+    pubsub.subscribe(GPS_CHANNEL, apply)
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, ({ requester }) => {
+        const tracks = Array.from(sessions).flatMap(([sessionId, session]) =>
+            Array.from(session, ([accountId, state]) => ({ sessionId, accountId, state })),
+        )
+        pubsub.publish(SNAPSHOT_CHANNEL, { requester, tracks })
+    })
+    pubsub.subscribe(
+        SNAPSHOT_CHANNEL,
+        ({ requester, tracks }: { requester: string; tracks: Array<{ sessionId: string; accountId: string; state: TrackState }> }) => {
+            if (requester !== pubsub.nodeId || synced) return
+            synced = true
+            tracks.forEach((track) => !sessions.get(track.sessionId)?.has(track.accountId) && apply({ op: "track-set", ...track }))
+        },
+    )
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    const trackFor = (sessionId: string, accountId: string): TrackState => {
+        if (!sessions.has(sessionId)) sessions.set(sessionId, new Map())
+        const tracks = sessions.get(sessionId)!
+        if (!tracks.has(accountId)) {
+            tracks.set(accountId, { last: null, kalman: null, stats: emptyStats(), accuracySum: 0, accuracyCount: 0 })
+        }
+        return tracks.get(accountId)!
+    }
+
+    const smooth = (state: TrackState, fix: GpsFix, time: number): { latitude: number; longitude: number } => {
+        // Unknown accuracy gets a pessimistic measurement variance
+        const accuracy = Math.max(1, fix.accuracy ?? options.maxAccuracyMeters)
+
+        if (!state.kalman) {
+            state.kalman = { latitude: fix.latitude, longitude: fix.longitude, variance: accuracy * accuracy, time }
+            return { latitude: fix.latitude, longitude: fix.longitude }
+        }
+
+        const dt = Math.max(0, (time - state.kalman.time) / 1000)
+        const variance = state.kalman.variance + dt * options.kalmanProcessNoise * options.kalmanProcessNoise
+        const gain = variance / (variance + accuracy * accuracy)
+
+        state.kalman = {
+            latitude: state.kalman.latitude + gain * (fix.latitude - state.kalman.latitude),
+            longitude: state.kalman.longitude + gain * (fix.longitude - state.kalman.longitude),
+            variance: (1 - gain) * variance,
+            time,
+        }
+        return { latitude: state.kalman.latitude, longitude: state.kalman.longitude }
+    }
+
+    const judge = (state: TrackState, fix: GpsFix, baseline: GpsFix | null | undefined): GpsFilterResult => {
+        const time = new Date(fix.timestamp).getTime()
+        state.stats.received++
+
+        if (fix.accuracy !== null) {
+            state.accuracySum += fix.accuracy
+            state.accuracyCount++
+            state.stats.averageAccuracy = Math.round((state.accuracySum / state.accuracyCount) * 10) / 10
+        }
+
+        const newest = state.last
+        const previous = baseline === undefined ? newest : baseline && { ...baseline, time: new Date(baseline.timestamp).getTime() }
+        const distance = previous ? haversineMeters(previous, fix) : null
+        const elapsedSeconds = previous ? (time - previous.time) / 1000 : null
+        // Both fixes' error radii are allowed for before judging the implied speed. A fix dated before
+        // the one it is compared with is judged over the time between them all the same.
+        const impliedSpeed =
+            previous && distance !== null && elapsedSeconds !== null && elapsedSeconds !== 0
+                ? Math.max(0, distance - (fix.accuracy ?? 0) - (previous.accuracy ?? 0)) / Math.abs(elapsedSeconds)
+                : null
+
+        const reject = (reason: GpsRejectReason): GpsFilterResult => {
+            state.stats.rejected[reason]++
+            if (reason === "LOW_ACCURACY" || reason === "IMPLAUSIBLE_SPEED") {
+                state.stats.lastRejectReason = reason
+                state.stats.lastRejectedAt = new Date().toISOString()
+            }
+            return {
+                accepted: false,
+                reason,
+                latitude: fix.latitude,
+                longitude: fix.longitude,
+                smoothed: false,
+                distanceMeters: distance,
+                impliedSpeedMps: impliedSpeed,
+                latest: false,
+            }
+        }
+
+        if (fix.accuracy !== null && fix.accuracy > options.maxAccuracyMeters) {
+            return reject("LOW_ACCURACY")
+        }
+
+        if (previous && (time === previous.time || (distance === 0 && elapsedSeconds !== null && Math.abs(elapsedSeconds) < 1))) {
+            return reject("DUPLICATE")
+        }
+
+        if (impliedSpeed !== null && impliedSpeed > options.maxSpeedMps) {
+            state.stats.consecutiveRejects++
+            // A long run of "impossible" fixes means the baseline was the bad one
+            if (state.stats.consecutiveRejects < options.maxConsecutiveRejects) {
+                return reject("IMPLAUSIBLE_SPEED")
+            }
+            state.kalman = null
+        }
+
+        if (
+            previous &&
+            distance !== null &&
+            elapsedSeconds !== null &&
+            elapsedSeconds >= 0 &&
+            distance < options.stationaryMeters &&
+            time - previous.time < options.stationaryHeartbeatMs
+        ) {
+            return reject("STATIONARY")
+        }
+
+        if (impliedSpeed !== null) {
+            state.stats.maxImpliedSpeedMps = Math.max(state.stats.maxImpliedSpeedMps, Math.round(impliedSpeed * 10) / 10)
+        }
+
+        state.stats.accepted++
+        state.stats.consecutiveRejects = 0
+
+        // Late fixes are accepted but do not move the newest fix backwards in time
+        const latest = !newest || time >= newest.time
+        if (latest) {
+            state.last = { ...fix, time }
+        }
+
+        const position = options.kalman && latest ? smooth(state, fix, time) : fix
+
+        return {
+            accepted: true,
+            latitude: position.latitude,
+            longitude: position.longitude,
+            smoothed: position !== fix,
+            distanceMeters: distance,
+            impliedSpeedMps: impliedSpeed,
+            latest,
+        }
+    }
+
+    /**
+     * Filters one fix. It is judged against the newest accepted fix unless a `baseline` is given:
+     * the accepted fix just before it in time (null when there is none), which a fix recorded
+     * before the newest one (from an offline batch) has to be judged against instead.
+     */
+    const process = (sessionId: string, accountId: string, fix: GpsFix, baseline?: GpsFix | null): GpsFilterResult => {
+        const result = judge(trackFor(sessionId, accountId), fix, baseline)
+        commit({ op: "track-set", sessionId, accountId, state: trackFor(sessionId, accountId) })
+        return result
+    }
+
+    const getStats = (sessionId: string): Array<GpsQualityStats & { accountId: string }> =>
+        Array.from(sessions.get(sessionId)?.entries() || []).map(([accountId, state]) => ({ accountId, ...state.stats }))
+
+    const reset = (sessionId: string, accountId: string): void => {
+        if (sessions.get(sessionId)?.has(accountId)) commit({ op: "track-reset", sessionId, accountId })
+    }
+
+    return { process, getStats, reset }
+}
+
+export type GpsFilter = ReturnType<typeof createGpsFilter>
@@ -0,0 +1,206 @@
+import { isStaff } from "../auth/permissions"
+import { config } from "../config"
+import { pubsub, stateStore } from "../scaling"
+import { activityStore, alertStore, auditStore, locationStore, sessionStore, taskStore } from "../stores"
+import type { Role, SosAlert, TrackingSession } from "../types"
+import { createAlertService, type AlertActor } from "./alerts"
+import { recordAudit } from "./audit"
+import { createGeofenceService } from "./geofences"
+import { createGpsFilter } from "./gpsFilter"
+import { createInviteService, type Invite, type InviteActor, type JoinResolution } from "./invites"
+import { createModerationService } from "./moderation"
+import { createPrivacyService } from "./privacy"
+import { createProximityService } from "./proximity"
+import { createRateLimiter } from "./rateLimiter"
+import { createSessionJournal } from "./sessionJournal"
+import { createSessionService, type SessionActor } from "./sessions"
+import { createTaskService } from "./tasks"
+import { createWatchdog } from "./watchdog"
+
+export const geofenceService = createGeofenceService(pubsub)
+export const gpsFilter = createGpsFilter(pubsub)
+export const sessionJournal = createSessionJournal(pubsub, stateStore.nextSeq)
+export const moderationService = createModerationService(pubsub, stateStore.listUsers)
+export const sessionService = createSessionService(pubsub, sessionStore, stateStore.listUsers)
+export const inviteService = createInviteService(pubsub)
+export const privacyService = createPrivacyService(pubsub)
+export const alertService = createAlertService(pubsub, alertStore)
+export const proximityService = createProximityService(pubsub, stateStore.getUser)
+export const taskService = createTaskService(pubsub, taskStore)
+export const watchdog = createWatchdog(stateStore.getUser, sessionService.get, (userId) => {
+    const presence = stateStore.getPresence(userId)
+    return presence !== undefined && presence.nodeId !== pubsub.nodeId
+})
+export const socketRateLimiter = createRateLimiter(pubsub, {
+    name: "socket",
+    budgets: config.rateLimits.events,
+    defaultBudget: config.rateLimits.defaultEvent,
+    escalation: config.rateLimits.escalation,
+})
+export const httpRateLimiter = createRateLimiter(pubsub, { name: "http", budgets: {}, defaultBudget: config.rateLimits.http })
+
+/**
+ * Whether an account may read a session's history. Sessions that are not open to everyone are
+ * kept to staff, accounts admitted by invite or approval, and participants; sessions without
+ * metadata (never created, or deleted with their history kept) to staff and participants. Bans
+ * are checked separately.
+ */
+export const mayReadSession = async (sessionId: string, accountId: string, role: Role): Promise<boolean> => {
+    const session = await sessionService.get(sessionId)
+    return (
+        session?.joinPolicy === "open" ||
+        isStaff(role) ||
+        (session !== undefined && inviteService.isAdmitted(session.id, accountId)) ||
+        stateStore.listUsers(sessionId).some((user) => user.accountId === accountId)
+    )
+}
+
+// The role an account holds in a session: one granted by a moderator, else the one it joined with, else its token's
+export const sessionRoleFor = (sessionId: string, accountId: string, tokenRole: Role): Role =>
+    moderationService.roleFor(sessionId, accountId) ??
+    stateStore.listUsers(sessionId).find((user) => user.accountId === accountId)?.role ??
+    tokenRole
+
+// Zone transitions feed the activity log used for timesheets
+geofenceService.events.on("transition", (transition) => {
+    activityStore
+        .record({
+            sessionId: transition.sessionId,
+            type: transition.type === "enter" ? "geofence-enter" : "geofence-exit",
+            accountId: transition.accountId,
+            userId: transition.userId,
+            userName: transition.userName,
+            role: transition.role,
+            timestamp: transition.timestamp,
+            data: { zoneId: transition.zoneId, zoneName: transition.zoneName, location: transition.location },
+        })
+        .catch((error) => console.error("❌ Failed to record geofence activity:", error))
+})
+
+// Persistent flooding mutes the account in every session it is part of; staff are only throttled
+socketRateLimiter.events.on("escalate", ({ identity, action, violations }) => {
+    const sessionIds = new Set(
+        stateStore
+            .listUsers()
+            .filter((user) => user.accountId === identity && !isStaff(user.role))
+            .map((user) => user.sessionId),
+    )
+    sessionIds.forEach((sessionId) => {
+        if (moderationService.getMute(sessionId, identity)) return
+        moderationService.muteAutomatically(
+            sessionId,
+            identity,
+            config.rateLimits.escalation.muteMinutes,
+            `Rate limit exceeded ${violations} times (last: ${action})`,
+        )
+    })
+})
+
+// Kicked and banned accounts lose their admission to invite-only and approval sessions, and are no longer watched
+moderationService.events.on("action", (action) => {
+    if (action.type !== "kick" && action.type !== "ban") return
+    inviteService.forget(action.sessionId, action.accountId)
+    watchdog.forget(action.sessionId, action.accountId)
+})
+
+// Moderation and geofence changes are kept in the audit trail
+moderationService.events.on("action", (action) => {
+    recordAudit({
+        type: action.type,
+        sessionId: action.sessionId,
+        actor: action.actor,
+        target: { accountId: action.accountId, ...(action.userIds[0] ? { userId: action.userIds[0] } : {}) },
+        payload: {
+            reason: action.reason,
+            userIds: action.userIds,
+            ...(action.until ? { until: action.until } : {}),
+            ...(action.role ? { role: action.role, previousRole: action.previousRole ?? null } : {}),
+        },
+    })
+})
+
+geofenceService.events.on("zone-updated", (zone, actor) => {
+    recordAudit({ type: "geofence-update", sessionId: zone.sessionId, actor: { accountId: actor }, target: null, payload: zone })
+})
+
+geofenceService.events.on("zone-deleted", ({ sessionId, zoneId }, actor) => {
+    recordAudit({ type: "geofence-delete", sessionId, actor: { accountId: actor }, target: null, payload: { zoneId } })
+})
+
+proximityService.events.on("rule-updated", (rule, actor) => {
+    recordAudit({ type: "proximity-rule-update", sessionId: rule.sessionId, actor: { accountId: actor }, target: null, payload: rule })
+})
+
+proximityService.events.on("rule-deleted", ({ sessionId, ruleId }, actor) => {
+    recordAudit({ type: "proximity-rule-delete", sessionId, actor: { accountId: actor }, target: null, payload: { ruleId } })
+})
+
+const auditSession = (type: "create" | "update" | "close" | "archive" | "delete") => (session: TrackingSession, actor: SessionActor) => {
+    recordAudit({
+        type: `session-${type}`,
+        sessionId: session.id,
+        actor: { accountId: actor.accountId, name: actor.name },
+        target: null,
+        payload: session,
+    })
+}
+
+sessionService.events.on("created", auditSession("create"))
+sessionService.events.on("updated", auditSession("update"))
+sessionService.events.on("closed", auditSession("close"))
+sessionService.events.on("archived", auditSession("archive"))
+sessionService.events.on("deleted", auditSession("delete"))
+
+const auditInvite = (type: "create" | "revoke") => (invite: Invite, actor: InviteActor) => {
+    recordAudit({ type: `invite-${type}`, sessionId: invite.sessionId, actor, target: null, payload: invite })
+}
+
+inviteService.events.on("invite-created", auditInvite("create"))
+inviteService.events.on("invite-revoked", auditInvite("revoke"))
+
+inviteService.events.on("resolved", (resolution: JoinResolution) => {
+    if (resolution.decision === "cancelled" || !resolution.by) return
+    recordAudit({
+        type: resolution.decision === "approved" ? "join-approve" : "join-deny",
+        sessionId: resolution.request.sessionId,
+        actor: resolution.by,
+        target: { accountId: resolution.request.accountId, name: resolution.request.name, role: resolution.request.role },
+        payload: { requestId: resolution.request.id, role: resolution.role, reason: resolution.reason },
+    })
+})
+
+// SOS alerts are kept in the audit trail from raise to resolution
+const auditAlert = (alert: SosAlert, actor: AlertActor | null, type: "sos-raise" | "sos-ack" | "sos-escalate" | "sos-resolve") => {
+    recordAudit({
+        type,
+        sessionId: alert.sessionId,
+        actor,
+        target: { accountId: alert.accountId, userId: alert.userId, name: alert.userName, role: alert.role },
+        payload: { alertId: alert.id, status: alert.status, location: alert.location, notes: alert.notes },
+    })
+}
+
+alertService.events.on("raised", (alert: SosAlert) => auditAlert(alert, { accountId: alert.accountId, name: alert.userName }, "sos-raise"))
+alertService.events.on("acknowledged", (alert: SosAlert, actor: AlertActor) => auditAlert(alert, actor, "sos-ack"))
+alertService.events.on("escalated", (alert: SosAlert) => auditAlert(alert, null, "sos-escalate"))
+alertService.events.on("resolved", (alert: SosAlert, actor: AlertActor) => auditAlert(alert, actor, "sos-resolve"))
+
+// Audit retention: expired days are dropped at startup and then hourly
+const pruneAudit = (): void => {
+    auditStore
+        .prune(Date.now() - config.audit.retentionDays * 24 * 60 * 60 * 1000)
+        .then((days) => days > 0 && console.log(`🧹 Dropped ${days} day(s) of expired audit entries`))
+        .catch((error) => console.error("❌ Failed to prune audit log:", error))
+}
+pruneAudit()
+setInterval(pruneAudit, 60 * 60 * 1000).unref()
+
+// Location history retention, on the same schedule
+const pruneLocations = (): void => {
+    locationStore
+        .prune(Date.now() - config.locations.retentionDays * 24 * 60 * 60 * 1000)
+        .then((days) => days > 0 && console.log(`🧹 Dropped ${days} session-day(s) of expired location history`))
+        .catch((error) => console.error("❌ Failed to prune location history:", error))
+}
+pruneLocations()
+setInterval(pruneLocations, 60 * 60 * 1000).unref()
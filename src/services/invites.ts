@@ -0,0 +1,379 @@
+import { randomBytes, randomUUID } from "crypto"
+import { EventEmitter } from "events"
+import { canGrant, isStaff } from "../auth/permissions"
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+import { ROLES, type Role, type TrackingSession } from "../types"
+import { s, SchemaValidationError } from "../utils/schema"
+
+export interface InviteActor {
+    accountId: string
+    name: string
+    role: Role
+}
+
+export interface Invite {
+    code: string
+    sessionId: string
+    role: Role | null // role participants joining with the code get in the session; null keeps their own
+    maxUses: number | null // null for no limit
+    uses: number
+    expiresAt: string
+    createdBy: string
+    createdAt: string
+    revokedAt: string | null
+}
+
+// An account let into a session by an invite or an approval; later rejoins need neither again
+export interface Admission {
+    sessionId: string
+    accountId: string
+    role: Role | null
+    via: "invite" | "approval"
+    admittedAt: string
+}
+
+export interface JoinRequest {
+    id: string
+    sessionId: string
+    accountId: string
+    name: string
+    role: Role // role in the requester's token
+    requestedAt: string
+}
+
+export type JoinDecision = "approved" | "denied" | "cancelled"
+
+export interface JoinResolution {
+    request: JoinRequest
+    decision: JoinDecision
+    by: { accountId: string; name: string } | null // null when the request was cancelled
+    role: Role | null // approved role override
+    reason: string | null
+    timestamp: string
+}
+
+// What join-tracking should do with an account that passed the session's own checks
+export type JoinAccess = { admitted: true; role: Role | null } | { admitted: false; request: JoinRequest }
+
+export type InviteErrorCode =
+    | "INVALID_INVITE"
+    | "INVITE_NOT_FOUND"
+    | "INVITE_EXPIRED"
+    | "INVITE_EXHAUSTED"
+    | "INVITE_REQUIRED"
+    | "REQUEST_NOT_FOUND"
+    | "FORBIDDEN"
+
+export class InviteError extends Error {
+    constructor(
+        message: string,
+        public readonly code: InviteErrorCode,
+        public readonly field?: string,
+    ) {
+        super(message)
+        this.name = "InviteError"
+    }
+}
+
+type InviteOp =
+    | { op: "invite-set"; invite: Invite }
+    | { op: "admission-set"; admission: Admission }
+    | { op: "admission-clear"; sessionId: string; accountId: string }
+    | { op: "request-set"; request: JoinRequest }
+    | { op: "request-resolve"; resolution: JoinResolution }
+
+interface InviteSnapshot {
+    invites: Invite[]
+    admissions: Admission[]
+    requests: JoinRequest[]
+}
+
+const INVITE_CHANNEL = "invites"
+const SYNC_REQUEST_CHANNEL = "invites:sync-request"
+const SNAPSHOT_CHANNEL = "invites:snapshot"
+
+// No 0/O or 1/I, so codes survive being read out loud
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+const CODE_LENGTH = 8
+
+const generateCode = (): string =>
+    Array.from(randomBytes(CODE_LENGTH), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("")
+
+export const normalizeInviteCode = (code: string): string => code.trim().toUpperCase()
+
+const inviteInput = s.object({
+    role: s.optional(s.nullable(s.literal(...ROLES))),
+    maxUses: s.optional(s.nullable(s.number({ minimum: 1, maximum: 10000, integer: true }))),
+    expiresInMinutes: s.optional(s.number({ minimum: 1, maximum: config.invites.maxExpiryMinutes, integer: true })),
+})
+
+const parseReason = (value: unknown): string | null => {
+    if (value === undefined || value === null || value === "") return null
+    if (typeof value !== "string" || value.length > 500) {
+        throw new InviteError("Reason must be a string of at most 500 characters", "INVALID_INVITE", "reason")
+    }
+    return value.trim() || null
+}
+
+const checkGrant = (actor: InviteActor, role: Role | null | undefined): void => {
+    if (role && !canGrant(actor.role, role)) {
+        throw new InviteError(`Users with the ${actor.role} role cannot grant the ${role} role`, "FORBIDDEN", "role")
+    }
+}
+
+/**
+ * Invite codes, admissions and pending join requests per session, replicated between nodes over
+ * pub/sub. Actions are emitted on the node that performed them ("invite-created", "invite-revoked",
+ * "requested" and "resolved"). Resolutions are additionally emitted as "decided" on every node,
+ * since the requester's socket may be connected to any of them.
+ */
+export const createInviteService = (pubsub: PubSub) => {
+    const events = new EventEmitter()
+    const invites = new Map<string, Invite>() // code → invite
+    const admissions = new Map<string, Map<string, Admission>>() // sessionId → accountId → admission
+    const requests = new Map<string, JoinRequest>() // request id → pending request
+
+    const apply = (change: InviteOp): void => {
+        switch (change.op) {
+            case "invite-set":
+                invites.set(change.invite.code, change.invite)
+                break
+            case "admission-set": {
+                const { sessionId, accountId } = change.admission
+                if (!admissions.has(sessionId)) admissions.set(sessionId, new Map())
+                admissions.get(sessionId)!.set(accountId, change.admission)
+                break
+            }
+            case "admission-clear": {
+                const entries = admissions.get(change.sessionId)
+                entries?.delete(change.accountId)
+                if (entries?.size === 0) admissions.delete(change.sessionId)
+                break
+            }
+            case "request-set":
+                requests.set(change.request.id, change.request)
+                break
+            case "request-resolve":
+                if (!requests.delete(change.resolution.request.id)) return
+                events.emit("decided", change.resolution)
+                break
+        }
+    }
+
+    const commit = (change: InviteOp): void => {
+        apply(change)
+        pubsub.publish(INVITE_CHANNEL, change)
+    }
+
+    const snapshot = (): InviteSnapshot => ({
+        invites: Array.from(invites.values()),
+        admissions: Array.from(admissions.values()).flatMap((entries) => Array.from(entries.values())),
+        requests: Array.from(requests.values()),
+    })
+
+    let synced = false
+    pubsub.subscribe(INVITE_CHANNEL, apply)
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, ({ requester }) => {
+        pubsub.publish(SNAPSHOT_CHANNEL, { requester, state: snapshot() })
+    })
+    pubsub.subscribe(SNAPSHOT_CHANNEL, ({ requester, state }: { requester: string; state: InviteSnapshot }) => {
+        if (requester !== pubsub.nodeId || synced) return
+        synced = true
+        state.invites.forEach((invite) => !invites.has(invite.code) && apply({ op: "invite-set", invite }))
+        state.admissions.forEach(
+            (admission) =>
+                !admissions.get(admission.sessionId)?.has(admission.accountId) && apply({ op: "admission-set", admission }),
+        )
+        state.requests.forEach((request) => !requests.has(request.id) && apply({ op: "request-set", request }))
+    })
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    const isUsable = (invite: Invite): boolean =>
+        !invite.revokedAt &&
+        new Date(invite.expiresAt).getTime() > Date.now() &&
+        (invite.maxUses === null || invite.uses < invite.maxUses)
+
+    const createInvite = (sessionId: string, input: unknown, actor: InviteActor): Invite => {
+        let parsed: ReturnType<typeof inviteInput.parse>
+        try {
+            parsed = inviteInput.parse(input ?? {})
+        } catch (error) {
+            if (error instanceof SchemaValidationError) throw new InviteError(error.message, "INVALID_INVITE", error.field)
+            throw error
+        }
+        checkGrant(actor, parsed.role)
+
+        let code = generateCode()
+        while (invites.has(code)) code = generateCode()
+
+        const now = Date.now()
+        const invite: Invite = {
+            code,
+            sessionId,
+            role: parsed.role ?? null,
+            maxUses: parsed.maxUses ?? null,
+            uses: 0,
+            expiresAt: new Date(now + (parsed.expiresInMinutes ?? config.invites.defaultExpiryMinutes) * 60 * 1000).toISOString(),
+            createdBy: actor.accountId,
+            createdAt: new Date(now).toISOString(),
+            revokedAt: null,
+        }
+        commit({ op: "invite-set", invite })
+        events.emit("invite-created", invite, actor)
+        return invite
+    }
+
+    // Unexpired, unrevoked invites of a session, newest first
+    const listInvites = (sessionId: string): Invite[] =>
+        Array.from(invites.values())
+            .filter((invite) => invite.sessionId === sessionId && isUsable(invite))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+    const revokeInvite = (sessionId: string, code: string, actor: InviteActor): Invite => {
+        const invite = invites.get(normalizeInviteCode(code))
+        if (!invite || invite.sessionId !== sessionId || invite.revokedAt) {
+            throw new InviteError("Invite not found", "INVITE_NOT_FOUND")
+        }
+        const revoked = { ...invite, revokedAt: new Date().toISOString() }
+        commit({ op: "invite-set", invite: revoked })
+        events.emit("invite-revoked", revoked, actor)
+        return revoked
+    }
+
+    const redeem = (session: TrackingSession, accountId: string, code: string): Admission => {
+        const invite = invites.get(normalizeInviteCode(code))
+        if (!invite || invite.sessionId !== session.id || invite.revokedAt) {
+            throw new InviteError("Invite code is not valid for this session", "INVALID_INVITE", "inviteCode")
+        }
+        if (new Date(invite.expiresAt).getTime() <= Date.now()) {
+            throw new InviteError("Invite code has expired", "INVITE_EXPIRED", "inviteCode")
+        }
+        if (invite.maxUses !== null && invite.uses >= invite.maxUses) {
+            throw new InviteError("Invite code has been used up", "INVITE_EXHAUSTED", "inviteCode")
+        }
+
+        commit({ op: "invite-set", invite: { ...invite, uses: invite.uses + 1 } })
+        const admission: Admission = {
+            sessionId: session.id,
+            accountId,
+            role: invite.role,
+            via: "invite",
+            admittedAt: new Date().toISOString(),
+        }
+        commit({ op: "admission-set", admission })
+        return admission
+    }
+
+    /**
+     * Decides whether a joining account enters the session now, needs an invite, or has to wait
+     * for approval. Staff tokens, admitted accounts, accounts already present (e.g. refreshing after
+     * the policy changed) and valid invite codes get in directly.
+     */
+    const authorize = (
+        session: TrackingSession,
+        account: { accountId: string; name: string; role: Role },
+        options: { inviteCode?: string; present?: boolean } = {},
+    ): JoinAccess => {
+        const { inviteCode, present = false } = options
+        // Rejoining with the code that let the account in must not use the invite up again
+        const admission = admissions.get(session.id)?.get(account.accountId)
+        if (admission) return { admitted: true, role: admission.role }
+        if (inviteCode) {
+            return { admitted: true, role: redeem(session, account.accountId, inviteCode).role }
+        }
+        if (session.joinPolicy === "open" || session.joinPolicy === "locked" || isStaff(account.role) || present) {
+            return { admitted: true, role: null }
+        }
+        if (session.joinPolicy === "invite") {
+            throw new InviteError("This session requires an invite code", "INVITE_REQUIRED", "inviteCode")
+        }
+
+        // One pending request per account and session; asking again keeps the original
+        const existing = Array.from(requests.values()).find(
+            (request) => request.sessionId === session.id && request.accountId === account.accountId,
+        )
+        if (existing) return { admitted: false, request: existing }
+
+        const request: JoinRequest = {
+            id: randomUUID(),
+            sessionId: session.id,
+            accountId: account.accountId,
+            name: account.name,
+            role: account.role,
+            requestedAt: new Date().toISOString(),
+        }
+        commit({ op: "request-set", request })
+        events.emit("requested", request)
+        return { admitted: false, request }
+    }
+
+    // Pending requests of a session, oldest first
+    const listRequests = (sessionId: string): JoinRequest[] =>
+        Array.from(requests.values())
+            .filter((request) => request.sessionId === sessionId)
+            .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt))
+
+    const resolve = (
+        sessionId: string,
+        requestId: string,
+        decision: JoinDecision,
+        actor: InviteActor | null,
+        options: { role?: Role | null; reason?: string | null } = {},
+    ): JoinResolution => {
+        const request = requests.get(requestId)
+        if (!request || request.sessionId !== sessionId) {
+            throw new InviteError("Join request not found", "REQUEST_NOT_FOUND", "requestId")
+        }
+
+        const resolution: JoinResolution = {
+            request,
+            decision,
+            by: actor ? { accountId: actor.accountId, name: actor.name } : null,
+            role: options.role ?? null,
+            reason: options.reason ?? null,
+            timestamp: new Date().toISOString(),
+        }
+        if (decision === "approved") {
+            commit({
+                op: "admission-set",
+                admission: {
+                    sessionId,
+                    accountId: request.accountId,
+                    role: resolution.role,
+                    via: "approval",
+                    admittedAt: resolution.timestamp,
+                },
+            })
+        }
+        commit({ op: "request-resolve", resolution })
+        events.emit("resolved", resolution)
+        return resolution
+    }
+
+    const approve = (sessionId: string, requestId: string, actor: InviteActor, role?: Role | null): JoinResolution => {
+        checkGrant(actor, role)
+        return resolve(sessionId, requestId, "approved", actor, { role })
+    }
+
+    const deny = (sessionId: string, requestId: string, actor: InviteActor, reason?: unknown): JoinResolution =>
+        resolve(sessionId, requestId, "denied", actor, { reason: parseReason(reason) })
+
+    // The requester gave up waiting or the session ended; a no-op when the request was already decided
+    const cancel = (requestId: string, reason: string | null = null): void => {
+        const request = requests.get(requestId)
+        if (request) resolve(request.sessionId, requestId, "cancelled", null, { reason })
+    }
+
+    // Admitted through an invite code or an approved request, and not kicked or banned since
+    const isAdmitted = (sessionId: string, accountId: string): boolean => admissions.get(sessionId)?.has(accountId) ?? false
+
+    // Kicked or banned accounts have to be let in again
+    const forget = (sessionId: string, accountId: string): void => {
+        if (admissions.get(sessionId)?.has(accountId)) commit({ op: "admission-clear", sessionId, accountId })
+    }
+
+    return { events, createInvite, listInvites, revokeInvite, authorize, isAdmitted, listRequests, approve, deny, cancel, forget }
+}
+
+export type InviteService = ReturnType<typeof createInviteService>
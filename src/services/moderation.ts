@@ -0,0 +1,372 @@
+import { EventEmitter } from "events"
+import { canModerate } from "../auth/permissions"
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+import { isRole, type Role, type User } from "../types"
+
+export interface ModerationActor {
+    accountId: string
+    name: string
+    role: Role
+}
+
+export interface Mute {
+    sessionId: string
+    accountId: string
+    until: string
+    mutedBy: string
+    reason: string | null
+    createdAt: string
+}
+
+export interface Ban {
+    sessionId: string
+    accountId: string
+    bannedBy: string
+    reason: string | null
+    createdAt: string
+}
+
+export type ModerationActionType = "kick" | "mute" | "unmute" | "ban" | "unban" | "role-change"
+
+export interface ModerationAction {
+    type: ModerationActionType
+    sessionId: string
+    accountId: string
+    // Participants currently in the session for that identity
+    userIds: string[]
+    actor: ModerationActor
+    reason: string | null
+    timestamp: string
+    until?: string // mute
+    role?: Role // role-change
+    previousRole?: Role // role-change
+}
+
+// Either the participant id or the account id of the user being moderated
+export interface ModerationTarget {
+    userId?: unknown
+    accountId?: unknown
+}
+
+export class ModerationError extends Error {
+    constructor(
+        message: string,
+        public readonly code: "INVALID_MODERATION" | "TARGET_NOT_FOUND" | "FORBIDDEN",
+        public readonly field?: string,
+    ) {
+        super(message)
+        this.name = "ModerationError"
+    }
+}
+
+type ModerationOp =
+    | { op: "mute-set"; mute: Mute }
+    | { op: "mute-clear"; sessionId: string; accountId: string }
+    | { op: "ban-set"; ban: Ban }
+    | { op: "ban-clear"; sessionId: string; accountId: string }
+    | { op: "role-set"; sessionId: string; accountId: string; role: Role }
+
+interface ModerationSnapshot {
+    mutes: Mute[]
+    bans: Ban[]
+    roles: Array<{ sessionId: string; accountId: string; role: Role }>
+}
+
+// Actor recorded for actions the server takes on its own
+export const SYSTEM_ACTOR: ModerationActor = { accountId: "system", name: "System", role: "admin" }
+
+const MODERATION_CHANNEL = "moderation"
+const SYNC_REQUEST_CHANNEL = "moderation:sync-request"
+const SNAPSHOT_CHANNEL = "moderation:snapshot"
+
+const parseReason = (value: unknown): string | null => {
+    if (value === undefined || value === null || value === "") return null
+    if (typeof value !== "string" || value.length > 500) {
+        throw new ModerationError("Reason must be a string of at most 500 characters", "INVALID_MODERATION", "reason")
+    }
+    return value.trim() || null
+}
+
+/**
+ * Session-scoped mutes, bans and role changes, keyed by account so they survive rejoining.
+ * State is replicated to the other nodes over pub/sub; each action is emitted as "action" on the
+ * node that performed it so the transport there can notify and disconnect the participants.
+ */
+export const createModerationService = (pubsub: PubSub, listUsers: (sessionId: string) => User[]) => {
+    const events = new EventEmitter()
+    const mutes = new Map<string, Map<string, Mute>>() // sessionId → accountId → mute
+    const bans = new Map<string, Map<string, Ban>>() // sessionId → accountId → ban
+    const roles = new Map<string, Map<string, Role>>() // sessionId → accountId → role granted in that session
+
+    const entriesFor = <T>(store: Map<string, Map<string, T>>, sessionId: string): Map<string, T> => {
+        if (!store.has(sessionId)) store.set(sessionId, new Map())
+        return store.get(sessionId)!
+    }
+
+    const clear = <T>(store: Map<string, Map<string, T>>, sessionId: string, accountId: string): void => {
+        const entries = store.get(sessionId)
+        entries?.delete(accountId)
+        if (entries?.size === 0) store.delete(sessionId)
+    }
+
+    const apply = (change: ModerationOp): void => {
+        switch (change.op) {
+            case "mute-set":
+                entriesFor(mutes, change.mute.sessionId).set(change.mute.accountId, change.mute)
+                break
+            case "mute-clear":
+                clear(mutes, change.sessionId, change.accountId)
+                break
+            case "ban-set":
+                entriesFor(bans, change.ban.sessionId).set(change.ban.accountId, change.ban)
+                break
+            case "ban-clear":
+                clear(bans, change.sessionId, change.accountId)
+                break
+            case "role-set":
+                entriesFor(roles, change.sessionId).set(change.accountId, change.role)
+                break
+        }
+    }
+
+    const commit = (change: ModerationOp): void => {
+        apply(change)
+        pubsub.publish(MODERATION_CHANNEL, change)
+    }
+
+    const snapshot = (): ModerationSnapshot => ({
+        mutes: Array.from(mutes.values()).flatMap((entries) => Array.from(entries.values())),
+        bans: Array.from(bans.values()).flatMap((entries) => Array.from(entries.values())),
+        roles: Array.from(roles.entries()).flatMap(([sessionId, entries]) =>
+            Array.from(entries.entries()).map(([accountId, role]) => ({ sessionId, accountId, role })),
+        ),
+    })
+
+    let synced = false
+    pubsub.subscribe(MODERATION_CHANNEL, apply)
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, ({ requester }) => {
+        pubsub.publish(SNAPSHOT_CHANNEL, { requester, state: snapshot() })
+    })
+    pubsub.subscribe(SNAPSHOT_CHANNEL, ({ requester, state }: { requester: string; state: ModerationSnapshot }) => {
+        if (requester !== pubsub.nodeId || synced) return
+        synced = true
+        state.mutes.forEach((mute) => !mutes.get(mute.sessionId)?.has(mute.accountId) && apply({ op: "mute-set", mute }))
+        state.bans.forEach((ban) => !bans.get(ban.sessionId)?.has(ban.accountId) && apply({ op: "ban-set", ban }))
+        state.roles.forEach((entry) => !roles.get(entry.sessionId)?.has(entry.accountId) && apply({ op: "role-set", ...entry }))
+    })
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    const getMute = (sessionId: string, accountId: string): Mute | undefined => {
+        const mute = mutes.get(sessionId)?.get(accountId)
+        if (mute && new Date(mute.until).getTime() <= Date.now()) {
+            clear(mutes, sessionId, accountId)
+            return undefined
+        }
+        return mute
+    }
+
+    const getBan = (sessionId: string, accountId: string): Ban | undefined => bans.get(sessionId)?.get(accountId)
+
+    // Role granted in this session, overriding the one in the participant's token
+    const roleFor = (sessionId: string, accountId: string): Role | undefined => roles.get(sessionId)?.get(accountId)
+
+    const list = (sessionId: string) => ({
+        mutes: Array.from(mutes.get(sessionId)?.values() || []).filter((mute) => getMute(sessionId, mute.accountId)),
+        bans: Array.from(bans.get(sessionId)?.values() || []),
+        roles: Array.from(roles.get(sessionId)?.entries() || []).map(([accountId, role]) => ({ accountId, role })),
+    })
+
+    /**
+     * Resolves the target to an account and checks the actor outranks it. Targets given by
+     * account id need not be connected, so bans and mutes can be applied ahead of a join.
+     */
+    const resolveTarget = (sessionId: string, target: ModerationTarget, actor: ModerationActor) => {
+        const participants = listUsers(sessionId)
+        let accountId: string
+
+        if (target?.userId !== undefined) {
+            const user = typeof target.userId === "string" ? participants.find((u) => u.id === target.userId) : undefined
+            if (!user) {
+                throw new ModerationError("User not found in this session", "TARGET_NOT_FOUND", "userId")
+            }
+            accountId = user.accountId
+        } else if (typeof target?.accountId === "string" && target.accountId.length > 0 && target.accountId.length <= 200) {
+            accountId = target.accountId
+        } else {
+            throw new ModerationError("A target userId or accountId is required", "INVALID_MODERATION", "accountId")
+        }
+
+        if (accountId === actor.accountId) {
+            throw new ModerationError("You cannot moderate yourself", "INVALID_MODERATION", "accountId")
+        }
+
+        const users = participants.filter((u) => u.accountId === accountId)
+        const role = users[0]?.role ?? roleFor(sessionId, accountId)
+        if (role && !canModerate(actor.role, role)) {
+            throw new ModerationError(`Users with the ${actor.role} role cannot moderate ${role} users`, "FORBIDDEN")
+        }
+        return { accountId, users, role }
+    }
+
+    const record = (action: Omit<ModerationAction, "timestamp">): ModerationAction => {
+        const recorded = { ...action, timestamp: new Date().toISOString() }
+        events.emit("action", recorded)
+        return recorded
+    }
+
+    const kick = (sessionId: string, target: ModerationTarget, actor: ModerationActor, reason?: unknown): ModerationAction => {
+        const resolved = resolveTarget(sessionId, target, actor)
+        if (resolved.users.length === 0) {
+            throw new ModerationError("User is not in this session", "TARGET_NOT_FOUND", "accountId")
+        }
+        return record({
+            type: "kick",
+            sessionId,
+            accountId: resolved.accountId,
+            userIds: resolved.users.map((u) => u.id),
+            actor,
+            reason: parseReason(reason),
+        })
+    }
+
+    const mute = (
+        sessionId: string,
+        target: ModerationTarget,
+        minutes: unknown,
+        actor: ModerationActor,
+        reason?: unknown,
+    ): ModerationAction => {
+        if (typeof minutes !== "number" || !Number.isFinite(minutes) || minutes <= 0 || minutes > config.moderation.maxMuteMinutes) {
+            throw new ModerationError(
+                `Mute duration must be between 0 and ${config.moderation.maxMuteMinutes} minutes`,
+                "INVALID_MODERATION",
+                "minutes",
+            )
+        }
+        const resolved = resolveTarget(sessionId, target, actor)
+        return applyMute(sessionId, resolved.accountId, resolved.users, minutes, actor, parseReason(reason))
+    }
+
+    /**
+     * Mutes on behalf of the server itself, e.g. after repeated rate limit violations. No rank
+     * check applies; callers decide who is subject to it.
+     */
+    const muteAutomatically = (sessionId: string, accountId: string, minutes: number, reason: string): ModerationAction =>
+        applyMute(
+            sessionId,
+            accountId,
+            listUsers(sessionId).filter((u) => u.accountId === accountId),
+            minutes,
+            SYSTEM_ACTOR,
+            reason,
+        )
+
+    const applyMute = (
+        sessionId: string,
+        accountId: string,
+        users: User[],
+        minutes: number,
+        actor: ModerationActor,
+        reason: string | null,
+    ): ModerationAction => {
+        const now = Date.now()
+        const until = new Date(now + minutes * 60 * 1000).toISOString()
+
+        commit({
+            op: "mute-set",
+            mute: { sessionId, accountId, until, mutedBy: actor.accountId, reason, createdAt: new Date(now).toISOString() },
+        })
+        return record({
+            type: "mute",
+            sessionId,
+            accountId,
+            userIds: users.map((u) => u.id),
+            actor,
+            reason,
+            until,
+        })
+    }
+
+    // Returns null when the account was not muted
+    const unmute = (sessionId: string, target: ModerationTarget, actor: ModerationActor): ModerationAction | null => {
+        const resolved = resolveTarget(sessionId, target, actor)
+        if (!getMute(sessionId, resolved.accountId)) return null
+
+        commit({ op: "mute-clear", sessionId, accountId: resolved.accountId })
+        return record({
+            type: "unmute",
+            sessionId,
+            accountId: resolved.accountId,
+            userIds: resolved.users.map((u) => u.id),
+            actor,
+            reason: null,
+        })
+    }
+
+    const ban = (sessionId: string, target: ModerationTarget, actor: ModerationActor, reason?: unknown): ModerationAction => {
+        const resolved = resolveTarget(sessionId, target, actor)
+        const parsedReason = parseReason(reason)
+
+        commit({
+            op: "ban-set",
+            ban: {
+                sessionId,
+                accountId: resolved.accountId,
+                bannedBy: actor.accountId,
+                reason: parsedReason,
+                createdAt: new Date().toISOString(),
+            },
+        })
+        return record({
+            type: "ban",
+            sessionId,
+            accountId: resolved.accountId,
+            userIds: resolved.users.map((u) => u.id),
+            actor,
+            reason: parsedReason,
+        })
+    }
+
+    // Returns null when the account was not banned
+    const unban = (sessionId: string, target: ModerationTarget, actor: ModerationActor): ModerationAction | null => {
+        const resolved = resolveTarget(sessionId, target, actor)
+        if (!getBan(sessionId, resolved.accountId)) return null
+
+        commit({ op: "ban-clear", sessionId, accountId: resolved.accountId })
+        return record({
+            type: "unban",
+            sessionId,
+            accountId: resolved.accountId,
+            userIds: resolved.users.map((u) => u.id),
+            actor,
+            reason: null,
+        })
+    }
+
+    const changeRole = (sessionId: string, target: ModerationTarget, role: unknown, actor: ModerationActor): ModerationAction => {
+        if (!isRole(role)) {
+            throw new ModerationError("Unknown role", "INVALID_MODERATION", "role")
+        }
+        if (!canModerate(actor.role, role) && role !== actor.role) {
+            throw new ModerationError(`Users with the ${actor.role} role cannot grant the ${role} role`, "FORBIDDEN", "role")
+        }
+        const resolved = resolveTarget(sessionId, target, actor)
+
+        commit({ op: "role-set", sessionId, accountId: resolved.accountId, role })
+        return record({
+            type: "role-change",
+            sessionId,
+            accountId: resolved.accountId,
+            userIds: resolved.users.map((u) => u.id),
+            actor,
+            reason: null,
+            role,
+            previousRole: resolved.role,
+        })
+    }
+
+    return { events, getMute, getBan, roleFor, list, kick, mute, muteAutomatically, unmute, ban, unban, changeRole }
+}
+
+export type ModerationService = ReturnType<typeof createModerationService>
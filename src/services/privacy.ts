@@ -0,0 +1,171 @@
+import { randomUUID } from "crypto"
+import { EventEmitter } from "events"
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+import type { SharingState } from "../types"
+import { haversineMeters, type Coordinates } from "../utils/geo"
+
+// A circle around a place the user does not want to be seen at, such as their home
+export interface PrivacyZone {
+    id: string
+    accountId: string
+    name: string
+    center: Coordinates
+    radius: number // meters
+    createdAt: string
+    updatedAt: string
+}
+
+// Shape checks happen in the socket contract; the service enforces ownership and limits
+export interface PrivacyZoneInput {
+    id?: string
+    name: string
+    center: Coordinates
+    radius: number
+}
+
+export class PrivacyError extends Error {
+    constructor(
+        message: string,
+        public readonly code: "PRIVACY_ZONE_NOT_FOUND" | "PRIVACY_ZONE_LIMIT",
+        public readonly field?: string,
+    ) {
+        super(message)
+        this.name = "PrivacyError"
+    }
+}
+
+type PrivacyOp =
+    | { op: "pause-set"; accountId: string; pausedAt: string }
+    | { op: "pause-clear"; accountId: string }
+    | { op: "zone-set"; zone: PrivacyZone }
+    | { op: "zone-delete"; accountId: string; zoneId: string }
+
+interface PrivacySnapshot {
+    paused: Array<{ accountId: string; pausedAt: string }>
+    zones: PrivacyZone[]
+}
+
+const PRIVACY_CHANNEL = "privacy"
+const SYNC_REQUEST_CHANNEL = "privacy:sync-request"
+const SNAPSHOT_CHANNEL = "privacy:snapshot"
+
+/**
+ * Per-account location sharing preferences: a pause switch and personal privacy zones. Both
+ * follow the account into every session and across reconnects, and are replicated between
+ * nodes over pub/sub. Zones are only ever shown to their owner. Changes are emitted on the node
+ * that made them ("sharing-changed" with the account id and whether it is now paused,
+ * "zones-changed" with the account id).
+ */
+export const createPrivacyService = (pubsub: PubSub) => {
+    const events = new EventEmitter()
+    const paused = new Map<string, string>() // accountId → paused at
+    const zones = new Map<string, Map<string, PrivacyZone>>() // accountId → zone id → zone
+
+    const apply = (change: PrivacyOp): void => {
+        switch (change.op) {
+            case "pause-set":
+                paused.set(change.accountId, change.pausedAt)
+                break
+            case "pause-clear":
+                paused.delete(change.accountId)
+                break
+            case "zone-set": {
+                const { accountId, id } = change.zone
+                if (!zones.has(accountId)) zones.set(accountId, new Map())
+                zones.get(accountId)!.set(id, change.zone)
+                break
+            }
+            case "zone-delete": {
+                const owned = zones.get(change.accountId)
+                owned?.delete(change.zoneId)
+                if (owned?.size === 0) zones.delete(change.accountId)
+                break
+            }
+        }
+    }
+
+    const commit = (change: PrivacyOp): void => {
+        apply(change)
+        pubsub.publish(PRIVACY_CHANNEL, change)
+    }
+
+    let synced = false
+    pubsub.subscribe(PRIVACY_CHANNEL, apply)
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, ({ requester }) => {
+        const state: PrivacySnapshot = {
+            paused: Array.from(paused, ([accountId, pausedAt]) => ({ accountId, pausedAt })),
+            zones: Array.from(zones.values()).flatMap((owned) => Array.from(owned.values())),
+        }
+        pubsub.publish(SNAPSHOT_CHANNEL, { requester, state })
+    })
+    pubsub.subscribe(SNAPSHOT_CHANNEL, ({ requester, state }: { requester: string; state: PrivacySnapshot }) => {
+        if (requester !== pubsub.nodeId || synced) return
+        synced = true
+        state.paused.forEach(({ accountId, pausedAt }) => !paused.has(accountId) && apply({ op: "pause-set", accountId, pausedAt }))
+        state.zones.forEach((zone) => !zones.get(zone.accountId)?.has(zone.id) && apply({ op: "zone-set", zone }))
+    })
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    const isPaused = (accountId: string): boolean => paused.has(accountId)
+
+    // Returns false when sharing was already in the requested state
+    const setPaused = (accountId: string, pause: boolean): boolean => {
+        if (pause === isPaused(accountId)) return false
+        commit(pause ? { op: "pause-set", accountId, pausedAt: new Date().toISOString() } : { op: "pause-clear", accountId })
+        events.emit("sharing-changed", accountId, pause)
+        return true
+    }
+
+    const listZones = (accountId: string): PrivacyZone[] =>
+        Array.from(zones.get(accountId)?.values() || []).sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+    // Create a zone, or replace one of the account's zones when `id` is given
+    const setZone = (accountId: string, input: PrivacyZoneInput): PrivacyZone => {
+        const owned = zones.get(accountId)
+        const existing = input.id ? owned?.get(input.id) : undefined
+        if (input.id && !existing) throw new PrivacyError("Privacy zone not found", "PRIVACY_ZONE_NOT_FOUND", "id")
+        if (!existing && (owned?.size ?? 0) >= config.privacy.maxZonesPerAccount) {
+            throw new PrivacyError(`At most ${config.privacy.maxZonesPerAccount} privacy zones are allowed`, "PRIVACY_ZONE_LIMIT")
+        }
+
+        const now = new Date().toISOString()
+        const zone: PrivacyZone = {
+            id: existing?.id ?? randomUUID(),
+            accountId,
+            name: input.name.trim(),
+            center: { latitude: input.center.latitude, longitude: input.center.longitude },
+            radius: input.radius,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        }
+        commit({ op: "zone-set", zone })
+        events.emit("zones-changed", accountId)
+        return zone
+    }
+
+    const removeZone = (accountId: string, zoneId: string): boolean => {
+        if (!zones.get(accountId)?.has(zoneId)) return false
+        commit({ op: "zone-delete", accountId, zoneId })
+        events.emit("zones-changed", accountId)
+        return true
+    }
+
+    /**
+     * How a position of the account may be shared. A fix counts as inside a zone as soon as its
+     * accuracy circle reaches it, so imprecise fixes near home are hidden too.
+     */
+    const sharingFor = (accountId: string, fix: (Coordinates & { accuracy?: number | null }) | null | undefined): SharingState => {
+        if (isPaused(accountId)) return "paused"
+        if (!fix) return "live"
+
+        const inside = listZones(accountId).some(
+            (zone) => haversineMeters(zone.center, fix) - Math.min(fix.accuracy ?? 0, zone.radius) <= zone.radius,
+        )
+        return inside ? "private-zone" : "live"
+    }
+
+    return { events, isPaused, setPaused, listZones, setZone, removeZone, sharingFor }
+}
+
+export type PrivacyService = ReturnType<typeof createPrivacyService>
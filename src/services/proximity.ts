@@ -0,0 +1,355 @@
+import { randomUUID } from "crypto"
+import { EventEmitter } from "events"
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+import { ROLES, type Role, type User, type UserStatus } from "../types"
+import { haversineMeters, type Coordinates } from "../utils/geo"
+import { s, SchemaValidationError } from "../utils/schema"
+import { createSpatialIndex } from "../utils/spatialIndex"
+
+export const PROXIMITY_RULE_TYPES = ["pair", "point"] as const
+
+export type ProximityRuleType = (typeof PROXIMITY_RULE_TYPES)[number]
+
+/**
+ * "pair": two participants came within `distance` of each other.
+ * "point": a participant came within `distance` of `point`.
+ */
+export interface ProximityRule {
+    id: string
+    sessionId: string
+    name: string
+    type: ProximityRuleType
+    distance: number // meters
+    roles: Role[] | null // participants the rule applies to; null for everyone
+    point: Coordinates | null // "point" rules only
+    createdBy: string
+    createdAt: string
+    updatedAt: string
+}
+
+export interface ProximityParty {
+    userId: string
+    accountId: string
+    userName: string
+    role: Role
+    location: Coordinates
+}
+
+export interface ProximityAlert {
+    sessionId: string
+    ruleId: string
+    ruleName: string
+    type: ProximityRuleType
+    threshold: number // the rule's distance
+    distance: number // measured, meters
+    users: ProximityParty[] // one for "point" rules, two for "pair" rules
+    point: Coordinates | null
+    timestamp: string
+}
+
+export interface NearbyUser {
+    userId: string
+    accountId: string
+    name: string
+    role: Role
+    status: UserStatus
+    location: Coordinates
+    accuracy: number | null
+    lastSeen: string
+    distance: number // meters
+}
+
+export class ProximityError extends Error {
+    constructor(
+        message: string,
+        public readonly code: "INVALID_PROXIMITY_RULE" | "PROXIMITY_RULE_NOT_FOUND" | "PROXIMITY_RULE_LIMIT",
+        public readonly field?: string,
+    ) {
+        super(message)
+        this.name = "ProximityError"
+    }
+}
+
+const coordinates = s.object({
+    latitude: s.number({ minimum: -90, maximum: 90 }),
+    longitude: s.number({ minimum: -180, maximum: 180 }),
+})
+
+// Shared with the socket contract; REST bodies are checked here
+export const proximityRuleInput = s.object({
+    id: s.optional(s.string({ minLength: 1, maxLength: 200 })),
+    name: s.string({ minLength: 1, maxLength: 100, notBlank: true }),
+    type: s.literal(...PROXIMITY_RULE_TYPES),
+    distance: s.number({ minimum: 1, maximum: config.proximity.maxDistanceMeters }),
+    roles: s.optional(s.nullable(s.array(s.literal(...ROLES), { minItems: 1 }))),
+    point: s.optional(s.nullable(coordinates)),
+})
+
+const parseRule = (input: unknown) => {
+    try {
+        return proximityRuleInput.parse(input)
+    } catch (error) {
+        if (error instanceof SchemaValidationError) throw new ProximityError(error.message, "INVALID_PROXIMITY_RULE", error.field)
+        throw error
+    }
+}
+
+type ProximityOp =
+    | { op: "position-set"; userId: string; sessionId: string; location: Coordinates }
+    | { op: "position-clear"; userId: string }
+    | { op: "rule-set"; rule: ProximityRule }
+    | { op: "rule-delete"; sessionId: string; ruleId: string }
+    | { op: "engaged-set"; key: string }
+    | { op: "engaged-clear"; key: string }
+
+interface ProximitySnapshot {
+    positions: Array<{ userId: string; sessionId: string; location: Coordinates }>
+    rules: ProximityRule[]
+    engaged: string[]
+}
+
+const PROXIMITY_CHANNEL = "proximity"
+const SYNC_REQUEST_CHANNEL = "proximity:sync-request"
+const SNAPSHOT_CHANNEL = "proximity:snapshot"
+
+// Engagement keys: `${ruleId}|${userId}` for point rules, `${ruleId}|${a}|${b}` (sorted) for pairs
+const engagementKey = (ruleId: string, ...userIds: string[]): string => [ruleId, ...userIds.sort()].join("|")
+
+/**
+ * Proximity of participants to each other and to fixed points. Current shared positions are kept
+ * in a grid index per session for nearest-user queries; rules fire an "alert" once when their
+ * condition starts to hold and re-arm once it clearly stops. Positions, rules and which rules are
+ * currently engaged are replicated between nodes over pub/sub; alerts and rule changes are
+ * emitted on the node that made them ("alert", "rule-updated" with the rule and actor,
+ * "rule-deleted" with { sessionId, ruleId } and actor).
+ */
+export const createProximityService = (pubsub: PubSub, getUser: (userId: string) => User | undefined) => {
+    const events = new EventEmitter()
+    const index = createSpatialIndex(config.proximity.cellSizeDegrees)
+    const sessionsByUser = new Map<string, string>() // user id → session id, for indexed users
+    const rules = new Map<string, Map<string, ProximityRule>>() // sessionId → rule id → rule
+    const engaged = new Set<string>()
+
+    const apply = (change: ProximityOp): void => {
+        switch (change.op) {
+            case "position-set":
+                index.set(change.userId, change.sessionId, change.location)
+                sessionsByUser.set(change.userId, change.sessionId)
+                break
+            case "position-clear":
+                index.remove(change.userId)
+                sessionsByUser.delete(change.userId)
+                break
+            case "rule-set": {
+                const { sessionId, id } = change.rule
+                if (!rules.has(sessionId)) rules.set(sessionId, new Map())
+                rules.get(sessionId)!.set(id, change.rule)
+                break
+            }
+            case "rule-delete": {
+                const session = rules.get(change.sessionId)
+                session?.delete(change.ruleId)
+                if (session?.size === 0) rules.delete(change.sessionId)
+                engaged.forEach((key) => key.startsWith(`${change.ruleId}|`) && engaged.delete(key))
+                break
+            }
+            case "engaged-set":
+                engaged.add(change.key)
+                break
+            case "engaged-clear":
+                engaged.delete(change.key)
+                break
+        }
+    }
+
+    const commit = (change: ProximityOp): void => {
+        apply(change)
+        pubsub.publish(PROXIMITY_CHANNEL, change)
+    }
+
+    let synced = false
+    pubsub.subscribe(PROXIMITY_CHANNEL, apply)
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, ({ requester }) => {
+        const state: ProximitySnapshot = {
+            positions: Array.from(sessionsByUser, ([userId, sessionId]) => ({ userId, sessionId, location: index.get(userId)! })),
+            rules: Array.from(rules.values()).flatMap((session) => Array.from(session.values())),
+            engaged: Array.from(engaged),
+        }
+        pubsub.publish(SNAPSHOT_CHANNEL, { requester, state })
+    })
+    pubsub.subscribe(SNAPSHOT_CHANNEL, ({ requester, state }: { requester: string; state: ProximitySnapshot }) => {
+        if (requester !== pubsub.nodeId || synced) return
+        synced = true
+        state.positions.forEach((position) => !sessionsByUser.has(position.userId) && apply({ op: "position-set", ...position }))
+        state.rules.forEach((rule) => !rules.get(rule.sessionId)?.has(rule.id) && apply({ op: "rule-set", rule }))
+        state.engaged.forEach((key) => engaged.add(key))
+    })
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    const listRules = (sessionId: string): ProximityRule[] =>
+        Array.from(rules.get(sessionId)?.values() || []).sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+    const getRule = (sessionId: string, ruleId: string): ProximityRule | undefined => rules.get(sessionId)?.get(ruleId)
+
+    const appliesTo = (rule: ProximityRule, role: Role): boolean => !rule.roles || rule.roles.includes(role)
+
+    const party = (user: User, location: Coordinates): ProximityParty => ({
+        userId: user.id,
+        accountId: user.accountId,
+        userName: user.name,
+        role: user.role,
+        location,
+    })
+
+    const engage = (key: string, alert: Omit<ProximityAlert, "timestamp">): void => {
+        commit({ op: "engaged-set", key })
+        events.emit("alert", { ...alert, timestamp: new Date().toISOString() })
+    }
+
+    // Re-arms the participant's engaged rules whose condition has clearly stopped holding
+    const release = (user: User, location: Coordinates | null): void => {
+        const rearm = config.proximity.hysteresisMeters
+        engaged.forEach((key) => {
+            const [ruleId, ...userIds] = key.split("|")
+            if (!userIds.includes(user.id)) return
+            const rule = getRule(user.sessionId, ruleId)
+            if (!rule) return
+
+            const other = rule.type === "pair" ? index.get(userIds.find((id) => id !== user.id)!) : rule.point
+            if (!location || !other || haversineMeters(location, other) > rule.distance + rearm) {
+                commit({ op: "engaged-clear", key })
+            }
+        })
+    }
+
+    const evaluate = (user: User, location: Coordinates): void => {
+        listRules(user.sessionId)
+            .filter((rule) => appliesTo(rule, user.role))
+            .forEach((rule) => {
+                if (rule.type === "point") {
+                    const distance = haversineMeters(rule.point!, location)
+                    const key = engagementKey(rule.id, user.id)
+                    if (distance > rule.distance || engaged.has(key)) return
+                    engage(key, {
+                        sessionId: user.sessionId,
+                        ruleId: rule.id,
+                        ruleName: rule.name,
+                        type: rule.type,
+                        threshold: rule.distance,
+                        distance,
+                        users: [party(user, location)],
+                        point: rule.point,
+                    })
+                    return
+                }
+
+                index
+                    .nearest(user.sessionId, location, { radius: rule.distance })
+                    .filter((match) => match.id !== user.id)
+                    .forEach((match) => {
+                        const key = engagementKey(rule.id, user.id, match.id)
+                        const other = getUser(match.id)
+                        if (engaged.has(key) || !other || !appliesTo(rule, other.role)) return
+                        engage(key, {
+                            sessionId: user.sessionId,
+                            ruleId: rule.id,
+                            ruleName: rule.name,
+                            type: rule.type,
+                            threshold: rule.distance,
+                            distance: match.distance,
+                            users: [party(user, location), party(other, match.location)],
+                            point: null,
+                        })
+                    })
+            })
+    }
+
+    /**
+     * Indexes the participant's current position and evaluates the session's rules against it.
+     * Participants who are not sharing a position are taken out of the index.
+     */
+    const track = (user: User): void => {
+        if (user.location && user.sharing === "live") {
+            commit({ op: "position-set", userId: user.id, sessionId: user.sessionId, location: user.location })
+            release(user, user.location)
+            evaluate(user, user.location)
+        } else {
+            untrack(user.id)
+        }
+    }
+
+    const untrack = (userId: string): void => {
+        const sessionId = sessionsByUser.get(userId)
+        if (!sessionId) return
+        commit({ op: "position-clear", userId })
+        engaged.forEach((key) => key.split("|").includes(userId) && commit({ op: "engaged-clear", key }))
+    }
+
+    // Participants with a shared position, nearest first, optionally within `radius` meters
+    const nearest = (sessionId: string, point: Coordinates, options: { radius?: number; limit?: number } = {}): NearbyUser[] =>
+        index
+            .nearest(sessionId, point, { radius: options.radius })
+            .flatMap((match) => {
+                const user = getUser(match.id)
+                if (!user) return []
+                return [
+                    {
+                        userId: user.id,
+                        accountId: user.accountId,
+                        name: user.name,
+                        role: user.role,
+                        status: user.status,
+                        location: match.location,
+                        accuracy: user.accuracy ?? null,
+                        lastSeen: user.lastSeen,
+                        distance: match.distance,
+                    },
+                ]
+            })
+            .slice(0, options.limit ?? config.proximity.defaultLimit)
+
+    // Create a rule, or replace one of the session's rules when `id` is given
+    const setRule = (sessionId: string, input: unknown, actor: string): ProximityRule => {
+        const parsed = parseRule(input)
+        if (parsed.type === "point" && !parsed.point) {
+            throw new ProximityError("A point rule needs a point", "INVALID_PROXIMITY_RULE", "point")
+        }
+
+        const existing = parsed.id ? getRule(sessionId, parsed.id) : undefined
+        if (parsed.id && !existing) throw new ProximityError("Proximity rule not found", "PROXIMITY_RULE_NOT_FOUND", "id")
+        if (!existing && listRules(sessionId).length >= config.proximity.maxRulesPerSession) {
+            throw new ProximityError(`At most ${config.proximity.maxRulesPerSession} proximity rules are allowed`, "PROXIMITY_RULE_LIMIT")
+        }
+
+        const now = new Date().toISOString()
+        const rule: ProximityRule = {
+            id: existing?.id ?? randomUUID(),
+            sessionId,
+            name: parsed.name.trim(),
+            type: parsed.type,
+            distance: parsed.distance,
+            roles: parsed.roles ? Array.from(new Set(parsed.roles)) : null,
+            point: parsed.type === "point" ? { latitude: parsed.point!.latitude, longitude: parsed.point!.longitude } : null,
+            createdBy: existing?.createdBy ?? actor,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        }
+        // A changed rule starts over, so whoever already matches it is reported again at their next fix
+        if (existing) commit({ op: "rule-delete", sessionId, ruleId: rule.id })
+        commit({ op: "rule-set", rule })
+        events.emit("rule-updated", rule, actor)
+        return rule
+    }
+
+    const removeRule = (sessionId: string, ruleId: string, actor: string): boolean => {
+        if (!getRule(sessionId, ruleId)) return false
+        commit({ op: "rule-delete", sessionId, ruleId })
+        events.emit("rule-deleted", { sessionId, ruleId }, actor)
+        return true
+    }
+
+    return { events, track, untrack, nearest, listRules, getRule, setRule, removeRule }
+}
+
+export type ProximityService = ReturnType<typeof createProximityService>
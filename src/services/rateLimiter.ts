@@ -0,0 +1,147 @@
+import { EventEmitter } from "events"
+import type { PubSub } from "../scaling/pubsub"
+
+/**
+ * Sustained rate (tokens added per second) and burst size (bucket capacity) for one kind of action.
+ */
+export interface RateBudget {
+    rate: number
+    burst: number
+}
+
+// `repeated` is false for the first rejection after the bucket last allowed an action
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterMs: number; repeated: boolean }
+
+export interface RateLimiterOptions {
+    // Tells limiters apart on pub/sub; limiters with the same name share their buckets across nodes
+    name: string
+    budgets: Readonly<Record<string, RateBudget>>
+    defaultBudget: RateBudget
+    // Repeated violations within the window are reported as an "escalate" event
+    escalation?: { violations: number; windowMs: number }
+}
+
+interface Bucket {
+    tokens: number
+    updatedAt: number
+    budget: RateBudget
+    limited: boolean
+}
+
+type RateLimitOp =
+    | { op: "consume"; identity: string; action: string; cost: number }
+    | { op: "violation"; identity: string }
+    | { op: "escalated"; identity: string }
+
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+/**
+ * Token buckets keyed by identity and action. Keys are chosen by the caller, so limits follow an
+ * account across reconnects rather than a socket. Allowed actions and violations are replicated
+ * to the other nodes over pub/sub, so an account's budget is shared by all its connections
+ * whichever worker they landed on. Two nodes can each let the last token through before hearing
+ * of the other, so across nodes a burst can briefly overshoot by a token per node.
+ */
+export const createRateLimiter = (pubsub: PubSub, options: RateLimiterOptions) => {
+    const events = new EventEmitter()
+    const buckets = new Map<string, Bucket>() // `${identity}:${action}` → bucket
+    const violations = new Map<string, number[]>() // identity → violation times within the window
+    const channel = `rate-limit:${options.name}`
+
+    const budgetFor = (action: string): RateBudget => options.budgets[action] || options.defaultBudget
+
+    const refill = (bucket: Bucket, now: number): void => {
+        const elapsedSeconds = (now - bucket.updatedAt) / 1000
+        bucket.tokens = Math.min(bucket.budget.burst, bucket.tokens + elapsedSeconds * bucket.budget.rate)
+        bucket.updatedAt = now
+    }
+
+    const bucketFor = (identity: string, action: string, now: number): Bucket => {
+        const key = `${identity}:${action}`
+        let bucket = buckets.get(key)
+        if (!bucket) {
+            const budget = budgetFor(action)
+            bucket = { tokens: budget.burst, updatedAt: now, budget, limited: false }
+            buckets.set(key, bucket)
+        }
+        refill(bucket, now)
+        return bucket
+    }
+
+    // Violation times within the window, including the one being recorded
+    const addViolation = (identity: string, now: number): number[] => {
+        const recent = (violations.get(identity) || []).filter((time) => now - time < options.escalation!.windowMs)
+        recent.push(now)
+        violations.set(identity, recent)
+        return recent
+    }
+
+    const apply = (change: RateLimitOp): void => {
+        const now = Date.now()
+        switch (change.op) {
+            case "consume": {
+                const bucket = bucketFor(change.identity, change.action, now)
+                bucket.tokens = Math.max(0, bucket.tokens - change.cost)
+                break
+            }
+            case "violation":
+                if (options.escalation) addViolation(change.identity, now)
+                break
+            case "escalated":
+                violations.delete(change.identity)
+                break
+        }
+    }
+
+    pubsub.subscribe(channel, apply)
+
+    // Escalation is reported on the node whose violation crossed the threshold
+    const recordViolation = (identity: string, action: string, now: number): void => {
+        if (!options.escalation) return
+        const recent = addViolation(identity, now)
+        pubsub.publish(channel, { op: "violation", identity })
+
+        if (recent.length >= options.escalation.violations) {
+            violations.delete(identity)
+            pubsub.publish(channel, { op: "escalated", identity })
+            events.emit("escalate", { identity, action, violations: recent.length })
+        }
+    }
+
+    const consume = (identity: string, action: string, cost = 1): RateLimitResult => {
+        const now = Date.now()
+        const bucket = bucketFor(identity, action, now)
+        if (bucket.tokens >= cost) {
+            bucket.tokens -= cost
+            bucket.limited = false
+            pubsub.publish(channel, { op: "consume", identity, action, cost })
+            return { allowed: true }
+        }
+
+        const repeated = bucket.limited
+        bucket.limited = true
+        recordViolation(identity, action, now)
+        return { allowed: false, retryAfterMs: Math.ceil(((cost - bucket.tokens) / bucket.budget.rate) * 1000), repeated }
+    }
+
+    // Full buckets carry no state worth keeping
+    const sweep = (): void => {
+        const now = Date.now()
+        buckets.forEach((bucket, key) => {
+            refill(bucket, now)
+            if (bucket.tokens >= bucket.budget.burst) buckets.delete(key)
+        })
+        if (options.escalation) {
+            const { windowMs } = options.escalation
+            violations.forEach((times, identity) => {
+                if (times.every((time) => now - time >= windowMs)) violations.delete(identity)
+            })
+        }
+    }
+
+    setInterval(sweep, SWEEP_INTERVAL_MS).unref()
+
+    return { events, consume }
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>
@@ -0,0 +1,277 @@
+import { config } from "../config"
+import { activityStore, locationStore, messageStore } from "../stores"
+import type { ActivityEvent } from "../stores/activity"
+import type { LocationPoint } from "../stores/locations"
+import type { User } from "../types"
+
+export type ReplayEventName = "location-update" | "new-message" | "user-joined" | "user-left"
+
+/**
+ * A recorded event, shaped exactly like its live counterpart.
+ */
+export interface ReplayEvent {
+    event: ReplayEventName
+    payload: any
+    at: number // epoch ms
+}
+
+export interface ReplayTimeline {
+    sessionId: string
+    from: number
+    to: number
+    // Participants present when the window opens, with their last known position
+    initialUsers: User[]
+    events: ReplayEvent[]
+}
+
+export type ReplayStatus = "playing" | "paused" | "ended" | "stopped"
+
+export interface ReplayState {
+    status: ReplayStatus
+    sessionId: string
+    from: string
+    to: string
+    position: string
+    speed: number
+    emitted: number
+    total: number
+}
+
+export class ReplayRangeError extends Error {
+    readonly code = "INVALID_REPLAY_RANGE"
+
+    constructor(message: string) {
+        super(message)
+        this.name = "ReplayRangeError"
+    }
+}
+
+const userFromActivity = (event: ActivityEvent): User => ({
+    id: event.userId,
+    accountId: event.accountId,
+    name: event.userName,
+    role: event.role,
+    sessionId: event.sessionId,
+    joinedAt: event.timestamp,
+    lastSeen: event.timestamp,
+    status: "online",
+    location: null,
+    sharing: "live",
+    trail: [],
+    isTyping: false,
+})
+
+// Only shared positions are ever recorded, so replayed ones are always live
+const locationPayload = (point: LocationPoint) => ({
+    userId: point.userId,
+    location: { latitude: point.latitude, longitude: point.longitude },
+    sharing: "live" as const,
+    accuracy: point.accuracy,
+    speed: point.speed,
+    heading: point.heading,
+    timestamp: point.timestamp,
+})
+
+/**
+ * Applies presence and location events to a participant map, mirroring what a live client does.
+ */
+const applyToUsers = (users: Map<string, User>, item: ReplayEvent): void => {
+    if (item.event === "user-joined") {
+        users.set(item.payload.id, { ...item.payload })
+    } else if (item.event === "user-left") {
+        users.delete(item.payload.userId)
+    } else if (item.event === "location-update") {
+        const user = users.get(item.payload.userId)
+        if (user) {
+            user.location = item.payload.location
+            user.accuracy = item.payload.accuracy
+            user.speed = item.payload.speed
+            user.heading = item.payload.heading
+            user.lastSeen = item.payload.timestamp
+            user.trail = [...user.trail, { ...item.payload.location, timestamp: item.payload.timestamp }].slice(-30)
+        }
+    }
+}
+
+const toEvents = (activity: ActivityEvent[], points: LocationPoint[]): ReplayEvent[] => [
+    ...activity
+        .filter((event) => event.type === "join" || event.type === "leave")
+        .map(
+            (event): ReplayEvent =>
+                event.type === "join"
+                    ? { event: "user-joined", payload: userFromActivity(event), at: new Date(event.timestamp).getTime() }
+                    : {
+                        event: "user-left",
+                        payload: {
+                            userId: event.userId,
+                            userName: event.userName,
+                            timestamp: event.timestamp,
+                            reason: event.data?.reason,
+                        },
+                        at: new Date(event.timestamp).getTime(),
+                    },
+        ),
+    ...points.map((point): ReplayEvent => ({
+        event: "location-update",
+        payload: locationPayload(point),
+        at: new Date(point.timestamp).getTime(),
+    })),
+]
+
+const byTime = (a: ReplayEvent, b: ReplayEvent): number => a.at - b.at
+
+/**
+ * Collects the recorded joins, leaves, locations and messages for a session window.
+ */
+export const buildReplayTimeline = async (sessionId: string, from: number, to: number): Promise<ReplayTimeline> => {
+    if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) {
+        throw new ReplayRangeError("Replay window must have a start before its end")
+    }
+    if (to - from > config.replay.maxWindowHours * 60 * 60 * 1000) {
+        throw new ReplayRangeError(`Replay window cannot exceed ${config.replay.maxWindowHours} hours`)
+    }
+
+    const [activity, points, messages] = await Promise.all([
+        activityStore.list(sessionId, { to }),
+        locationStore.list(sessionId, { to }),
+        messageStore.range(sessionId, from, to),
+    ])
+
+    // Everything before the window only contributes to the starting snapshot
+    const initial = new Map<string, User>()
+    toEvents(
+        activity.filter((event) => new Date(event.timestamp).getTime() < from),
+        points.filter((point) => new Date(point.timestamp).getTime() < from),
+    )
+        .sort(byTime)
+        .forEach((item) => applyToUsers(initial, item))
+
+    const events = [
+        ...toEvents(
+            activity.filter((event) => new Date(event.timestamp).getTime() >= from),
+            points.filter((point) => new Date(point.timestamp).getTime() >= from),
+        ),
+        ...messages.map((message): ReplayEvent => ({
+            event: "new-message",
+            payload: message,
+            at: new Date(message.timestamp).getTime(),
+        })),
+    ].sort(byTime)
+
+    return { sessionId, from, to, initialUsers: Array.from(initial.values()), events }
+}
+
+export const clampReplaySpeed = (speed: unknown): number => {
+    const value = typeof speed === "number" && Number.isFinite(speed) ? speed : config.replay.minSpeed
+    return Math.min(config.replay.maxSpeed, Math.max(config.replay.minSpeed, value))
+}
+
+/**
+ * Plays a timeline back in scaled real time. Seeking re-sends a `users-list` snapshot for the
+ * new position so the client map matches what it would have shown live.
+ */
+export const createReplayPlayer = (
+    timeline: ReplayTimeline,
+    options: {
+        speed?: number
+        emit: (event: string, payload: any) => void
+        onState: (state: ReplayState) => void
+    },
+) => {
+    let speed = clampReplaySpeed(options.speed)
+    let status: ReplayStatus = "paused"
+    let position = timeline.from
+    let index = 0
+    let timer: NodeJS.Timeout | undefined
+
+    const state = (): ReplayState => ({
+        status,
+        sessionId: timeline.sessionId,
+        from: new Date(timeline.from).toISOString(),
+        to: new Date(timeline.to).toISOString(),
+        position: new Date(position).toISOString(),
+        speed,
+        emitted: index,
+        total: timeline.events.length,
+    })
+
+    const snapshot = (): void => {
+        const users = new Map(timeline.initialUsers.map((user) => [user.id, { ...user }]))
+        timeline.events.slice(0, index).forEach((item) => applyToUsers(users, item))
+        options.emit("users-list", Array.from(users.values()))
+    }
+
+    const schedule = (): void => {
+        clearTimeout(timer)
+        if (status !== "playing") return
+
+        if (index >= timeline.events.length) {
+            position = timeline.to
+            status = "ended"
+            options.onState(state())
+            return
+        }
+
+        const next = timeline.events[index]
+        const delay = Math.min((next.at - position) / speed, config.replay.maxIdleMs)
+
+        timer = setTimeout(() => {
+            position = next.at
+            while (index < timeline.events.length && timeline.events[index].at <= position) {
+                const item = timeline.events[index++]
+                options.emit(item.event, item.payload)
+            }
+            schedule()
+        }, Math.max(0, delay))
+    }
+
+    const play = (): void => {
+        if (status === "stopped") return
+        if (status === "ended") {
+            index = 0
+            position = timeline.from
+            snapshot()
+        }
+        status = "playing"
+        options.onState(state())
+        schedule()
+    }
+
+    const pause = (): void => {
+        if (status !== "playing") return
+        clearTimeout(timer)
+        status = "paused"
+        options.onState(state())
+    }
+
+    const seek = (time: number): void => {
+        if (status === "stopped") return
+        position = Math.min(timeline.to, Math.max(timeline.from, time))
+        index = timeline.events.findIndex((item) => item.at >= position)
+        if (index === -1) index = timeline.events.length
+        if (status === "ended") status = "paused"
+
+        snapshot()
+        options.onState(state())
+        schedule()
+    }
+
+    const setSpeed = (value: unknown): void => {
+        speed = clampReplaySpeed(value)
+        options.onState(state())
+        schedule()
+    }
+
+    const stop = (): void => {
+        clearTimeout(timer)
+        status = "stopped"
+        options.onState(state())
+    }
+
+    // Initial map state for the start of the window
+    snapshot()
+
+    return { play, pause, seek, setSpeed, stop, state }
+}
+
+export type ReplayPlayer = ReturnType<typeof createReplayPlayer>
@@ -0,0 +1,79 @@
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+
+export interface JournalEntry {
+    seq: number
+    event: string
+    payload: any
+    timestamp: string
+    // Payload carries location data and is redacted per viewer role on delivery
+    redact: boolean
+    // Participant the payload is about; they receive it unredacted, or not at all when excluded
+    subject?: { userId: string; include: boolean }
+}
+
+export interface JournalSince {
+    entries: JournalEntry[]
+    latestSeq: number
+    // False when entries after `since` have already been evicted and the client must resync
+    complete: boolean
+}
+
+const JOURNAL_CHANNEL = "journal"
+
+/**
+ * Numbers every broadcast in a session and keeps the most recent ones so reconnecting clients can
+ * catch up on what they missed. Sequence numbers are per session and strictly increasing; they
+ * come from `nextSeq` so they stay unique when several nodes share a session, and entries are
+ * replicated to the other nodes over pub/sub.
+ */
+export const createSessionJournal = (
+    pubsub: PubSub,
+    nextSeq: (sessionId: string) => Promise<number>,
+    capacity = config.reconnect.journalSize,
+) => {
+    const sessions = new Map<string, { seq: number; entries: JournalEntry[] }>()
+
+    const journalFor = (sessionId: string) => {
+        if (!sessions.has(sessionId)) sessions.set(sessionId, { seq: 0, entries: [] })
+        return sessions.get(sessionId)!
+    }
+
+    const insert = (sessionId: string, entry: JournalEntry): void => {
+        const journal = journalFor(sessionId)
+        journal.entries.push(entry)
+        // Entries from other nodes can arrive slightly out of order
+        if (entry.seq < journal.seq) {
+            journal.entries.sort((a, b) => a.seq - b.seq)
+        }
+        journal.seq = Math.max(journal.seq, entry.seq)
+        if (journal.entries.length > capacity) {
+            journal.entries.splice(0, journal.entries.length - capacity)
+        }
+    }
+
+    pubsub.subscribe(JOURNAL_CHANNEL, ({ sessionId, entry }) => insert(sessionId, entry))
+
+    const record = async (sessionId: string, entry: Omit<JournalEntry, "seq" | "timestamp">): Promise<JournalEntry> => {
+        const recorded: JournalEntry = { ...entry, seq: await nextSeq(sessionId), timestamp: new Date().toISOString() }
+        insert(sessionId, recorded)
+        pubsub.publish(JOURNAL_CHANNEL, { sessionId, entry: recorded })
+        return recorded
+    }
+
+    const since = (sessionId: string, seq: number): JournalSince => {
+        const journal = journalFor(sessionId)
+        const oldest = journal.entries[0]?.seq ?? journal.seq + 1
+        return {
+            entries: journal.entries.filter((entry) => entry.seq > seq),
+            latestSeq: journal.seq,
+            complete: seq >= oldest - 1,
+        }
+    }
+
+    const latestSeq = (sessionId: string): number => sessions.get(sessionId)?.seq ?? 0
+
+    return { record, since, latestSeq }
+}
+
+export type SessionJournal = ReturnType<typeof createSessionJournal>
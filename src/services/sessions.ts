@@ -0,0 +1,302 @@
+import { randomUUID } from "crypto"
+import { EventEmitter } from "events"
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+import { activityStore, locationStore, messageStore } from "../stores"
+import type { SessionStore } from "../stores/sessions"
+import { JOIN_POLICIES, type SessionStats, type SessionStatus, type TrackingSession, type User } from "../types"
+import { s, SchemaValidationError } from "../utils/schema"
+
+export interface SessionActor {
+    accountId: string
+    name: string
+}
+
+export type SessionErrorCode =
+    | "INVALID_SESSION"
+    | "SESSION_NOT_FOUND"
+    | "SESSION_EXISTS"
+    | "SESSION_CLOSED"
+    | "SESSION_ACTIVE"
+    | "SESSION_LOCKED"
+    | "SESSION_FULL"
+
+export class SessionError extends Error {
+    constructor(
+        message: string,
+        public readonly code: SessionErrorCode,
+        public readonly field?: string,
+    ) {
+        super(message)
+        this.name = "SessionError"
+    }
+}
+
+type SessionOp = { op: "session-set"; session: TrackingSession } | { op: "session-delete"; sessionId: string }
+
+const SESSION_CHANNEL = "sessions"
+const SYNC_REQUEST_CHANNEL = "sessions:sync-request"
+const SNAPSHOT_CHANNEL = "sessions:snapshot"
+
+const watchdogRules = s.optional(
+    s.object({
+        enabled: s.optional(s.boolean()),
+        stationaryMinutes: s.optional(s.nullable(s.number({ minimum: 1, maximum: 24 * 60 }))),
+        stationaryRadiusMeters: s.optional(s.number({ minimum: 5, maximum: 1000 })),
+        silentMinutes: s.optional(s.nullable(s.number({ minimum: 1, maximum: 24 * 60 }))),
+        maxLatencyMs: s.optional(s.nullable(s.number({ minimum: 100, maximum: 60000 }))),
+        unhealthyMinutes: s.optional(s.number({ minimum: 0.5, maximum: 60 })),
+    }),
+)
+
+const sessionFields = {
+    name: s.string({ minLength: 1, maxLength: 100, notBlank: true }),
+    siteAddress: s.nullable(s.string({ maxLength: 500 })),
+    joinPolicy: s.literal(...JOIN_POLICIES),
+    maxParticipants: s.nullable(s.number({ minimum: 1, maximum: 10000, integer: true })),
+    watchdog: s.nullable(
+        s.object({
+            defaults: watchdogRules,
+            roles: s.optional(
+                s.object({ admin: watchdogRules, moderator: watchdogRules, worker: watchdogRules, new: watchdogRules }),
+            ),
+        }),
+    ),
+}
+
+const createInput = s.object({
+    id: s.optional(s.string({ minLength: 1, maxLength: 200, notBlank: true })),
+    name: sessionFields.name,
+    siteAddress: s.optional(sessionFields.siteAddress),
+    joinPolicy: s.optional(sessionFields.joinPolicy),
+    maxParticipants: s.optional(sessionFields.maxParticipants),
+    watchdog: s.optional(sessionFields.watchdog),
+})
+
+const updateInput = s.object({
+    name: s.optional(sessionFields.name),
+    siteAddress: s.optional(sessionFields.siteAddress),
+    joinPolicy: s.optional(sessionFields.joinPolicy),
+    maxParticipants: s.optional(sessionFields.maxParticipants),
+    watchdog: s.optional(sessionFields.watchdog),
+})
+
+const parseInput = <T>(schema: { parse(value: unknown): T }, input: unknown): T => {
+    try {
+        return schema.parse(input)
+    } catch (error) {
+        if (error instanceof SchemaValidationError) throw new SessionError(error.message, "INVALID_SESSION", error.field)
+        throw error
+    }
+}
+
+const parseReason = (value: unknown): string | null => {
+    if (value === undefined || value === null || value === "") return null
+    if (typeof value !== "string" || value.length > 500) {
+        throw new SessionError("Reason must be a string of at most 500 characters", "INVALID_SESSION", "reason")
+    }
+    return value.trim() || null
+}
+
+// Totals for an archived session, read from the recorded history
+const computeStats = async (session: TrackingSession): Promise<SessionStats> => {
+    const [activity, messages, fixes] = await Promise.all([
+        activityStore.list(session.id),
+        messageStore.range(session.id, 0, Date.now()),
+        locationStore.list(session.id),
+    ])
+    const endedAt = new Date(session.closedAt || Date.now()).getTime()
+    return {
+        participants: new Set(activity.filter((event) => event.type === "join").map((event) => event.accountId)).size,
+        messages: messages.filter((message) => !message.deleted).length,
+        locationFixes: fixes.length,
+        durationMs: Math.max(0, endedAt - new Date(session.createdAt).getTime()),
+    }
+}
+
+/**
+ * First-class tracking sessions: metadata, lifecycle (active → closed → archived) and the join
+ * checks that go with it. The working copy is replicated between nodes over pub/sub and written
+ * through to the session store; lifecycle changes are emitted on the node that made them
+ * ("created", "updated", "closed", "archived", "deleted", each with the session and the actor).
+ */
+export const createSessionService = (pubsub: PubSub, store: SessionStore, listUsers: (sessionId: string) => User[]) => {
+    const events = new EventEmitter()
+    const sessions = new Map<string, TrackingSession>()
+
+    const apply = (change: SessionOp): void => {
+        if (change.op === "session-set") {
+            sessions.set(change.session.id, change.session)
+        } else {
+            sessions.delete(change.sessionId)
+        }
+    }
+
+    const commit = (change: SessionOp): void => {
+        apply(change)
+        pubsub.publish(SESSION_CHANNEL, change)
+        const persisted = change.op === "session-set" ? store.save(change.session) : store.delete(change.sessionId)
+        persisted.catch((error) => console.error("❌ Failed to persist session:", error))
+    }
+
+    let synced = false
+    pubsub.subscribe(SESSION_CHANNEL, apply)
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, ({ requester }) => {
+        pubsub.publish(SNAPSHOT_CHANNEL, { requester, sessions: Array.from(sessions.values()) })
+    })
+    pubsub.subscribe(SNAPSHOT_CHANNEL, ({ requester, sessions: state }: { requester: string; sessions: TrackingSession[] }) => {
+        if (requester !== pubsub.nodeId || synced) return
+        synced = true
+        state.forEach((session) => !sessions.has(session.id) && apply({ op: "session-set", session }))
+    })
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    // Stored sessions are loaded once; changes replicated in the meantime take precedence
+    const ready = store
+        .list()
+        .then((stored) => stored.forEach((session) => !sessions.has(session.id) && sessions.set(session.id, session)))
+        .catch((error) => console.error("❌ Failed to load sessions:", error))
+
+    const findSession = (sessionId: string): TrackingSession => {
+        const session = sessions.get(sessionId)
+        if (!session) throw new SessionError("Session not found", "SESSION_NOT_FOUND")
+        return session
+    }
+
+    const save = (session: TrackingSession, changes: Partial<TrackingSession>): TrackingSession => {
+        const updated = { ...session, ...changes, updatedAt: new Date().toISOString() }
+        commit({ op: "session-set", session: updated })
+        return updated
+    }
+
+    const build = (id: string, input: ReturnType<typeof createInput.parse>, owner: SessionActor): TrackingSession => {
+        const now = new Date().toISOString()
+        return {
+            id,
+            name: input.name.trim(),
+            siteAddress: input.siteAddress?.trim() || null,
+            owner: { accountId: owner.accountId, name: owner.name },
+            status: "active",
+            joinPolicy: input.joinPolicy ?? "open",
+            maxParticipants: input.maxParticipants ?? null,
+            watchdog: input.watchdog ?? null,
+            createdAt: now,
+            updatedAt: now,
+            closedAt: null,
+            closedBy: null,
+            closeReason: null,
+            archivedAt: null,
+            stats: null,
+        }
+    }
+
+    const get = async (sessionId: string): Promise<TrackingSession | undefined> => {
+        await ready
+        return sessions.get(sessionId)
+    }
+
+    // Newest first
+    const list = async (statuses?: SessionStatus[]): Promise<TrackingSession[]> => {
+        await ready
+        return Array.from(sessions.values())
+            .filter((session) => !statuses || statuses.includes(session.status))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    }
+
+    const create = async (input: unknown, owner: SessionActor): Promise<TrackingSession> => {
+        await ready
+        const parsed = parseInput(createInput, input)
+        const id = parsed.id?.trim() || randomUUID()
+        if (sessions.has(id)) throw new SessionError("A session with this id already exists", "SESSION_EXISTS", "id")
+
+        const session = build(id, parsed, owner)
+        commit({ op: "session-set", session })
+        events.emit("created", session, owner)
+        return session
+    }
+
+    const update = async (sessionId: string, input: unknown, actor: SessionActor): Promise<TrackingSession> => {
+        await ready
+        const session = findSession(sessionId)
+        if (session.status === "archived") throw new SessionError("Archived sessions cannot be changed", "SESSION_CLOSED")
+
+        const parsed = parseInput(updateInput, input)
+        const updated = save(session, {
+            ...(parsed.name !== undefined ? { name: parsed.name.trim() } : {}),
+            ...(parsed.siteAddress !== undefined ? { siteAddress: parsed.siteAddress?.trim() || null } : {}),
+            ...(parsed.joinPolicy !== undefined ? { joinPolicy: parsed.joinPolicy } : {}),
+            ...(parsed.maxParticipants !== undefined ? { maxParticipants: parsed.maxParticipants } : {}),
+            ...(parsed.watchdog !== undefined ? { watchdog: parsed.watchdog } : {}),
+        })
+        events.emit("updated", updated, actor)
+        return updated
+    }
+
+    const close = async (sessionId: string, actor: SessionActor, reason?: unknown): Promise<TrackingSession> => {
+        await ready
+        const session = findSession(sessionId)
+        if (session.status !== "active") throw new SessionError("Session is already closed", "SESSION_CLOSED")
+
+        const closed = save(session, {
+            status: "closed",
+            closedAt: new Date().toISOString(),
+            closedBy: actor.accountId,
+            closeReason: parseReason(reason),
+        })
+        events.emit("closed", closed, actor)
+        return closed
+    }
+
+    const archive = async (sessionId: string, actor: SessionActor): Promise<TrackingSession> => {
+        await ready
+        const session = findSession(sessionId)
+        if (session.status === "active") throw new SessionError("Close the session before archiving it", "SESSION_ACTIVE")
+        if (session.status === "archived") throw new SessionError("Session is already archived", "SESSION_CLOSED")
+
+        const stats = await computeStats(session)
+        const archived = save(findSession(sessionId), { status: "archived", archivedAt: new Date().toISOString(), stats })
+        events.emit("archived", archived, actor)
+        return archived
+    }
+
+    // Only the metadata is removed; recorded history stays until its own retention applies
+    const remove = async (sessionId: string, actor: SessionActor): Promise<void> => {
+        await ready
+        const session = findSession(sessionId)
+        if (session.status === "active") throw new SessionError("Close the session before deleting it", "SESSION_ACTIVE")
+
+        commit({ op: "session-delete", sessionId })
+        events.emit("deleted", session, actor)
+    }
+
+    /**
+     * Checks a participant may join, creating unknown sessions when auto-create is enabled.
+     * Resuming participants are already members, so only the session's status applies to them.
+     */
+    const admit = async (sessionId: string, account: SessionActor, resuming = false): Promise<TrackingSession> => {
+        await ready
+        let session = sessions.get(sessionId)
+        if (!session) {
+            if (!config.sessions.autoCreate) throw new SessionError("Session not found", "SESSION_NOT_FOUND")
+            session = build(sessionId, { name: sessionId }, account)
+            commit({ op: "session-set", session })
+            events.emit("created", session, account)
+        }
+
+        if (session.status !== "active") throw new SessionError("Session is closed", "SESSION_CLOSED")
+        if (resuming) return session
+
+        // Rejoining replaces the account's previous participant, so it does not count against the limit
+        const others = new Set(listUsers(sessionId).map((user) => user.accountId))
+        if (others.has(account.accountId)) return session
+        if (session.joinPolicy === "locked") throw new SessionError("Session is not accepting new participants", "SESSION_LOCKED")
+        if (session.maxParticipants !== null && others.size >= session.maxParticipants) {
+            throw new SessionError("Session is full", "SESSION_FULL")
+        }
+        return session
+    }
+
+    return { events, get, list, create, update, close, archive, remove, admit }
+}
+
+export type SessionService = ReturnType<typeof createSessionService>
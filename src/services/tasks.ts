@@ -0,0 +1,274 @@
+import { randomUUID } from "crypto"
+import { EventEmitter } from "events"
+import { isStaff } from "../auth/permissions"
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+import type { TaskStore } from "../stores/tasks"
+import { TASK_STATUSES, type Role, type Task, type TaskStatus } from "../types"
+import { haversineMeters, type Coordinates } from "../utils/geo"
+import { s, SchemaValidationError, type Schema } from "../utils/schema"
+
+// The participant acting on a task
+export interface TaskActor {
+    accountId: string
+    userId: string
+    name: string
+    role: Role
+}
+
+export class TaskError extends Error {
+    constructor(
+        message: string,
+        public readonly code: "INVALID_TASK" | "TASK_NOT_FOUND" | "TASK_DONE" | "FORBIDDEN",
+        public readonly field?: string,
+    ) {
+        super(message)
+        this.name = "TaskError"
+    }
+}
+
+const id = s.string({ minLength: 1, maxLength: 200 })
+const title = s.string({ minLength: 1, maxLength: 200, notBlank: true })
+const notes = s.nullable(s.string({ maxLength: 2000 }))
+const dueAt = s.nullable(s.string({ maxLength: 64, description: "ISO 8601 time" }))
+const assignees = s.array(id, { minItems: 1, maxItems: config.tasks.maxAssignees })
+const site = s.object({
+    location: s.object({
+        latitude: s.number({ minimum: -90, maximum: 90 }),
+        longitude: s.number({ minimum: -180, maximum: 180 }),
+    }),
+    radius: s.optional(s.number({ minimum: 10, maximum: config.tasks.maxSiteRadiusMeters })),
+    address: s.optional(s.nullable(s.string({ maxLength: 500 }))),
+})
+
+// Shared with the socket contract
+export const taskInputs = {
+    create: s.object({ title, notes: s.optional(notes), site, assignees, dueAt: s.optional(dueAt) }),
+    assign: s.object({ taskId: id, assignees }),
+    update: s.object({
+        taskId: id,
+        title: s.optional(title),
+        notes: s.optional(notes),
+        site: s.optional(site),
+        dueAt: s.optional(dueAt),
+        status: s.optional(s.literal(...TASK_STATUSES)),
+    }),
+}
+
+const parseInput = <T>(schema: Schema<T>, input: unknown): T => {
+    try {
+        return schema.parse(input)
+    } catch (error) {
+        if (error instanceof SchemaValidationError) throw new TaskError(error.message, "INVALID_TASK", error.field)
+        throw error
+    }
+}
+
+const parseDueAt = (value: string | null | undefined): string | null => {
+    if (!value) return null
+    const time = Date.parse(value)
+    if (Number.isNaN(time)) throw new TaskError("Due time must be an ISO 8601 time", "INVALID_TASK", "dueAt")
+    return new Date(time).toISOString()
+}
+
+const toSite = (input: { location: Coordinates; radius?: number; address?: string | null }): Task["site"] => ({
+    location: { latitude: input.location.latitude, longitude: input.location.longitude },
+    radius: input.radius ?? config.tasks.defaultSiteRadiusMeters,
+    address: input.address?.trim() || null,
+})
+
+const TASK_CHANNEL = "tasks"
+const SYNC_REQUEST_CHANNEL = "tasks:sync-request"
+const SNAPSHOT_CHANNEL = "tasks:snapshot"
+
+/**
+ * Work dispatched within a tracking session. Staff create and assign tasks; assignees move them
+ * along (assigned → en-route → on-site → done), and arriving within the site radius marks them
+ * on site automatically. Tasks are replicated between nodes over pub/sub and written through to
+ * the task store. Changes are emitted on the node that made them ("created", "assigned",
+ * "updated" and "status", each with the task and the actor; "status" also with whether the
+ * change was automatic).
+ */
+export const createTaskService = (pubsub: PubSub, store: TaskStore) => {
+    const events = new EventEmitter()
+    const tasks = new Map<string, Task>()
+
+    const apply = (task: Task): void => {
+        tasks.set(task.id, task)
+    }
+
+    const commit = (task: Task): Task => {
+        apply(task)
+        pubsub.publish(TASK_CHANNEL, task)
+        store.save(task).catch((error) => console.error("❌ Failed to persist task:", error))
+        return task
+    }
+
+    let synced = false
+    pubsub.subscribe(TASK_CHANNEL, apply)
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, ({ requester }) => {
+        pubsub.publish(SNAPSHOT_CHANNEL, { requester, tasks: Array.from(tasks.values()) })
+    })
+    pubsub.subscribe(SNAPSHOT_CHANNEL, ({ requester, tasks: state }: { requester: string; tasks: Task[] }) => {
+        if (requester !== pubsub.nodeId || synced) return
+        synced = true
+        state.forEach((task) => !tasks.has(task.id) && apply(task))
+    })
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    // Stored tasks are loaded once; changes replicated in the meantime take precedence
+    const ready = store
+        .list()
+        .then((stored) => stored.forEach((task) => !tasks.has(task.id) && tasks.set(task.id, task)))
+        .catch((error) => console.error("❌ Failed to load tasks:", error))
+
+    const findTask = (sessionId: string, taskId: string): Task => {
+        const task = tasks.get(taskId)
+        if (!task || task.sessionId !== sessionId) throw new TaskError("Task not found", "TASK_NOT_FOUND", "taskId")
+        return task
+    }
+
+    const by = (actor: TaskActor) => ({ accountId: actor.accountId, name: actor.name })
+
+    const withStatus = (task: Task, status: TaskStatus, actor: TaskActor, automatic: boolean): Task => {
+        const now = new Date().toISOString()
+        return {
+            ...task,
+            status,
+            statusHistory: [...task.statusHistory, { status, at: now, by: by(actor), automatic }],
+            updatedAt: now,
+            completedAt: status === "done" ? now : null,
+        }
+    }
+
+    const create = async (sessionId: string, input: unknown, actor: TaskActor): Promise<Task> => {
+        await ready
+        const parsed = parseInput(taskInputs.create, input)
+        const now = new Date().toISOString()
+        const task = commit({
+            id: randomUUID(),
+            sessionId,
+            title: parsed.title.trim(),
+            notes: parsed.notes?.trim() || null,
+            site: toSite(parsed.site),
+            assignees: Array.from(new Set(parsed.assignees)),
+            dueAt: parseDueAt(parsed.dueAt),
+            status: "assigned",
+            statusHistory: [{ status: "assigned", at: now, by: by(actor), automatic: false }],
+            createdBy: by(actor),
+            createdAt: now,
+            updatedAt: now,
+            completedAt: null,
+        })
+        events.emit("created", task, actor)
+        return task
+    }
+
+    const assign = async (sessionId: string, input: unknown, actor: TaskActor): Promise<Task> => {
+        await ready
+        const parsed = parseInput(taskInputs.assign, input)
+        const task = findTask(sessionId, parsed.taskId)
+        if (task.status === "done") throw new TaskError("Task is already done", "TASK_DONE")
+
+        const assigned = commit({ ...task, assignees: Array.from(new Set(parsed.assignees)), updatedAt: new Date().toISOString() })
+        events.emit("assigned", assigned, actor)
+        return assigned
+    }
+
+    /**
+     * Changes a task's details (staff) or moves its status along. Assignees may only move their
+     * own tasks forward; staff may also move a task back, e.g. to reopen it.
+     */
+    const update = async (sessionId: string, input: unknown, actor: TaskActor): Promise<Task> => {
+        await ready
+        const { taskId, status, ...details } = parseInput(taskInputs.update, input)
+        const task = findTask(sessionId, taskId)
+        const staff = isStaff(actor.role)
+
+        if (!staff) {
+            if (!task.assignees.includes(actor.accountId)) throw new TaskError("Only assignees can update this task", "FORBIDDEN")
+            const field = Object.keys(details).find((key) => details[key as keyof typeof details] !== undefined)
+            if (field) throw new TaskError("Only staff can change task details", "FORBIDDEN", field)
+            if (status && TASK_STATUSES.indexOf(status) < TASK_STATUSES.indexOf(task.status)) {
+                throw new TaskError("Task status can only move forward", "FORBIDDEN", "status")
+            }
+        }
+
+        let updated = task
+        const changed =
+            (details.title !== undefined && details.title.trim() !== task.title) ||
+            (details.notes !== undefined && (details.notes?.trim() || null) !== task.notes) ||
+            details.site !== undefined ||
+            (details.dueAt !== undefined && parseDueAt(details.dueAt) !== task.dueAt)
+        if (changed) {
+            updated = commit({
+                ...task,
+                title: details.title?.trim() ?? task.title,
+                notes: details.notes === undefined ? task.notes : details.notes?.trim() || null,
+                site: details.site ? toSite(details.site) : task.site,
+                dueAt: details.dueAt === undefined ? task.dueAt : parseDueAt(details.dueAt),
+                updatedAt: new Date().toISOString(),
+            })
+            events.emit("updated", updated, actor)
+        }
+
+        if (status && status !== task.status) {
+            updated = commit(withStatus(updated, status, actor, false))
+            events.emit("status", updated, actor, false)
+        }
+        return updated
+    }
+
+    // Marks the participant's open tasks on site once a fix places them within the site radius
+    const arrive = async (actor: TaskActor, sessionId: string, location: Coordinates): Promise<Task[]> => {
+        await ready
+        const arrived = Array.from(tasks.values()).filter(
+            (task) =>
+                task.sessionId === sessionId &&
+                (task.status === "assigned" || task.status === "en-route") &&
+                task.assignees.includes(actor.accountId) &&
+                haversineMeters(task.site.location, location) <= task.site.radius,
+        )
+        return arrived.map((task) => {
+            const updated = commit(withStatus(task, "on-site", actor, true))
+            events.emit("status", updated, actor, true)
+            return updated
+        })
+    }
+
+    const get = async (sessionId: string, taskId: string): Promise<Task | undefined> => {
+        await ready
+        const task = tasks.get(taskId)
+        return task?.sessionId === sessionId ? task : undefined
+    }
+
+    // Oldest first; `assignee` is an account id
+    const list = async (sessionId: string, filter: { statuses?: TaskStatus[]; assignee?: string } = {}): Promise<Task[]> => {
+        await ready
+        return Array.from(tasks.values())
+            .filter((task) => task.sessionId === sessionId)
+            .filter((task) => !filter.statuses || filter.statuses.includes(task.status))
+            .filter((task) => !filter.assignee || task.assignees.includes(filter.assignee))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    }
+
+    // The open task an assignee is heading to: one already en route first, then the earliest due
+    const current = (sessionId: string, accountId: string): Task | undefined =>
+        Array.from(tasks.values())
+            .filter(
+                (task) =>
+                    task.sessionId === sessionId &&
+                    (task.status === "assigned" || task.status === "en-route") &&
+                    task.assignees.includes(accountId),
+            )
+            .sort(
+                (a, b) =>
+                    Number(b.status === "en-route") - Number(a.status === "en-route") ||
+                    (a.dueAt ?? "\uffff").localeCompare(b.dueAt ?? "\uffff") ||
+                    a.createdAt.localeCompare(b.createdAt),
+            )[0]
+
+    return { events, create, assign, update, arrive, current, get, list }
+}
+
+export type TaskService = ReturnType<typeof createTaskService>
@@ -0,0 +1,259 @@
+import { config } from "../config"
+import type { ActivityEvent } from "../stores/activity"
+import type { Role } from "../types"
+import { toCsv } from "../utils/csv"
+
+export type TimesheetBasis = "auto" | "geofence" | "presence"
+
+export interface TimesheetRules {
+    graceMinutes: number
+    minShiftMinutes: number
+    basis: TimesheetBasis
+}
+
+export interface TimesheetBreak {
+    start: string
+    end: string
+    minutes: number
+    reason: "away" | "off-site"
+}
+
+export interface Shift {
+    clockIn: string
+    clockOut: string | null // null while the shift is still running
+    open: boolean
+    durationMinutes: number
+    onSiteMinutes: number
+    breakMinutes: number
+    breaks: TimesheetBreak[]
+}
+
+export interface WorkerTimesheet {
+    accountId: string
+    userName: string
+    role: Role
+    basis: Exclude<TimesheetBasis, "auto">
+    shifts: Shift[]
+    totalOnSiteMinutes: number
+}
+
+type Interval = [number, number]
+
+const MINUTE = 60 * 1000
+
+const roundMinutes = (ms: number): number => Math.round((ms / MINUTE) * 10) / 10
+
+const overlap = ([a1, a2]: Interval, [b1, b2]: Interval): number => Math.max(0, Math.min(a2, b2) - Math.max(a1, b1))
+
+export const defaultTimesheetRules = (): TimesheetRules => ({ ...config.timesheets })
+
+/**
+ * Replays one worker's activity and returns on-site and away intervals, clipped to the window.
+ * The final interval is left open (ending at `end`) when the worker has not clocked out.
+ */
+const collectIntervals = (
+    events: ActivityEvent[],
+    basis: Exclude<TimesheetBasis, "auto">,
+    start: number,
+    end: number,
+): { onSite: Interval[]; away: Interval[]; openAtEnd: boolean } => {
+    const onSite: Interval[] = []
+    const away: Interval[] = []
+    const zones = new Set<string>()
+    let connected = false
+    let onSince: number | null = null
+    let awaySince: number | null = null
+
+    const isOnSite = (): boolean => connected && (basis === "presence" || zones.size > 0)
+
+    for (const event of events) {
+        const time = new Date(event.timestamp).getTime()
+        if (time > end) break
+
+        const wasOnSite = isOnSite()
+
+        switch (event.type) {
+            case "join":
+                connected = true
+                break
+            case "leave":
+                connected = false
+                break
+            case "geofence-enter":
+                zones.add(event.data?.zoneId)
+                break
+            case "geofence-exit":
+                zones.delete(event.data?.zoneId)
+                break
+            case "status":
+                if (event.data?.status === "away" && awaySince === null) {
+                    awaySince = time
+                } else if (event.data?.status !== "away" && awaySince !== null) {
+                    away.push([awaySince, time])
+                    awaySince = null
+                }
+                break
+        }
+
+        // A disconnect also ends any away period
+        if (event.type === "leave" && awaySince !== null) {
+            away.push([awaySince, time])
+            awaySince = null
+        }
+
+        const nowOnSite = isOnSite()
+        if (!wasOnSite && nowOnSite) {
+            onSince = time
+        } else if (wasOnSite && !nowOnSite && onSince !== null) {
+            onSite.push([onSince, time])
+            onSince = null
+        }
+    }
+
+    if (onSince !== null) onSite.push([onSince, end])
+    if (awaySince !== null) away.push([awaySince, end])
+
+    const clip = (intervals: Interval[]): Interval[] =>
+        intervals
+            .map(([a, b]): Interval => [Math.max(a, start), Math.min(b, end)])
+            .filter(([a, b]) => b > a)
+
+    return { onSite: clip(onSite), away: clip(away), openAtEnd: onSince !== null }
+}
+
+const buildShifts = (onSite: Interval[], away: Interval[], openAtEnd: boolean, rules: TimesheetRules, end: number): Shift[] => {
+    const grace = rules.graceMinutes * MINUTE
+    const groups: Interval[][] = []
+
+    onSite.forEach((interval) => {
+        const current = groups[groups.length - 1]
+        if (current && interval[0] - current[current.length - 1][1] <= grace) {
+            current.push(interval)
+        } else {
+            groups.push([interval])
+        }
+    })
+
+    return groups
+        .map((intervals, index): Shift => {
+            const clockIn = intervals[0][0]
+            const clockOut = intervals[intervals.length - 1][1]
+            const open = openAtEnd && index === groups.length - 1 && clockOut === end
+
+            const breaks: TimesheetBreak[] = []
+            for (let i = 1; i < intervals.length; i++) {
+                const [gapStart, gapEnd] = [intervals[i - 1][1], intervals[i][0]]
+                if (gapEnd > gapStart) {
+                    breaks.push({
+                        start: new Date(gapStart).toISOString(),
+                        end: new Date(gapEnd).toISOString(),
+                        minutes: roundMinutes(gapEnd - gapStart),
+                        reason: "off-site",
+                    })
+                }
+            }
+
+            let awayOnSite = 0
+            away.forEach((interval) => {
+                const onSiteOverlap = intervals.reduce((sum, onInterval) => sum + overlap(interval, onInterval), 0)
+                if (onSiteOverlap === 0) return
+                awayOnSite += onSiteOverlap
+                breaks.push({
+                    start: new Date(Math.max(interval[0], clockIn)).toISOString(),
+                    end: new Date(Math.min(interval[1], clockOut)).toISOString(),
+                    minutes: roundMinutes(onSiteOverlap),
+                    reason: "away",
+                })
+            })
+            breaks.sort((a, b) => a.start.localeCompare(b.start))
+
+            const onSiteMs = intervals.reduce((sum, [a, b]) => sum + (b - a), 0) - awayOnSite
+            const duration = clockOut - clockIn
+
+            return {
+                clockIn: new Date(clockIn).toISOString(),
+                clockOut: open ? null : new Date(clockOut).toISOString(),
+                open,
+                durationMinutes: roundMinutes(duration),
+                onSiteMinutes: roundMinutes(onSiteMs),
+                breakMinutes: roundMinutes(duration - onSiteMs),
+                breaks,
+            }
+        })
+        .filter((shift) => shift.durationMinutes >= rules.minShiftMinutes || shift.open)
+}
+
+/**
+ * Derives per-worker shifts from a session's activity log. Events before `from` are replayed so
+ * workers already on site when the window opens are clocked in at `from`.
+ */
+export const buildTimesheets = (
+    events: ActivityEvent[],
+    window: { from: number; to: number },
+    rules: TimesheetRules = defaultTimesheetRules(),
+): WorkerTimesheet[] => {
+    const end = Math.min(window.to, Date.now())
+    const byAccount = new Map<string, ActivityEvent[]>()
+    events.forEach((event) => {
+        if (!byAccount.has(event.accountId)) byAccount.set(event.accountId, [])
+        byAccount.get(event.accountId)!.push(event)
+    })
+
+    const timesheets: WorkerTimesheet[] = []
+    byAccount.forEach((accountEvents, accountId) => {
+        const latest = accountEvents[accountEvents.length - 1]
+        const basis =
+            rules.basis === "auto"
+                ? accountEvents.some((e) => e.type === "geofence-enter" || e.type === "geofence-exit")
+                    ? "geofence"
+                    : "presence"
+                : rules.basis
+
+        const { onSite, away, openAtEnd } = collectIntervals(accountEvents, basis, window.from, end)
+        const shifts = buildShifts(onSite, away, openAtEnd, rules, end)
+        if (shifts.length === 0) return
+
+        timesheets.push({
+            accountId,
+            userName: latest.userName,
+            role: latest.role,
+            basis,
+            shifts,
+            totalOnSiteMinutes: roundMinutes(shifts.reduce((sum, shift) => sum + shift.onSiteMinutes * MINUTE, 0)),
+        })
+    })
+
+    return timesheets.sort((a, b) => a.userName.localeCompare(b.userName))
+}
+
+export const timesheetsToCsv = (timesheets: WorkerTimesheet[]): string =>
+    toCsv(
+        [
+            "accountId",
+            "userName",
+            "role",
+            "basis",
+            "clockIn",
+            "clockOut",
+            "open",
+            "durationMinutes",
+            "onSiteMinutes",
+            "breakMinutes",
+            "breaks",
+        ],
+        timesheets.flatMap((sheet) =>
+            sheet.shifts.map((shift) => [
+                sheet.accountId,
+                sheet.userName,
+                sheet.role,
+                sheet.basis,
+                shift.clockIn,
+                shift.clockOut,
+                shift.open,
+                shift.durationMinutes,
+                shift.onSiteMinutes,
+                shift.breakMinutes,
+                shift.breaks.length,
+            ]),
+        ),
+    )
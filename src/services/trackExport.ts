@@ -0,0 +1,117 @@
+import { config } from "../config"
+import type { LocationPoint } from "../stores/locations"
+import { toCsv } from "../utils/csv"
+
+export const TRACK_FORMATS = ["gpx", "geojson", "csv"] as const
+
+export type TrackFormat = (typeof TRACK_FORMATS)[number]
+
+/**
+ * Sorts fixes by timestamp and splits them wherever consecutive fixes are more than
+ * `gapMinutes` apart. Exact duplicates (same timestamp and position) are dropped.
+ */
+export const splitIntoSegments = (
+    points: LocationPoint[],
+    gapMinutes = config.locations.segmentGapMinutes,
+): LocationPoint[][] => {
+    const sorted = [...points].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    const segments: LocationPoint[][] = []
+    let previous: LocationPoint | undefined
+
+    sorted.forEach((point) => {
+        if (
+            previous &&
+            previous.timestamp === point.timestamp &&
+            previous.latitude === point.latitude &&
+            previous.longitude === point.longitude
+        ) {
+            return
+        }
+
+        const gap = previous ? new Date(point.timestamp).getTime() - new Date(previous.timestamp).getTime() : Infinity
+        if (gap > gapMinutes * 60 * 1000) {
+            segments.push([point])
+        } else {
+            segments[segments.length - 1].push(point)
+        }
+        previous = point
+    })
+
+    return segments
+}
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;")
+
+export const toGpx = (name: string, segments: LocationPoint[][]): string => {
+    const trackSegments = segments
+        .map((segment) => {
+            const points = segment
+                .map((point) => {
+                    const extensions = [
+                        point.accuracy !== null ? `<accuracy>${point.accuracy}</accuracy>` : "",
+                        point.speed !== null ? `<speed>${point.speed}</speed>` : "",
+                        point.heading !== null ? `<course>${point.heading}</course>` : "",
+                    ].join("")
+                    return (
+                        `      <trkpt lat="${point.latitude}" lon="${point.longitude}">` +
+                        `<time>${point.timestamp}</time>` +
+                        (extensions ? `<extensions>${extensions}</extensions>` : "") +
+                        `</trkpt>`
+                    )
+                })
+                .join("\n")
+            return `    <trkseg>\n${points}\n    </trkseg>`
+        })
+        .join("\n")
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<gpx version="1.1" creator="carpentary-server" xmlns="http://www.topografix.com/GPX/1/1">`,
+        `  <trk>`,
+        `    <name>${escapeXml(name)}</name>`,
+        trackSegments,
+        `  </trk>`,
+        `</gpx>`,
+        ``,
+    ].join("\n")
+}
+
+export const toGeoJson = (name: string, segments: LocationPoint[][]) => ({
+    type: "FeatureCollection",
+    features: [
+        {
+            type: "Feature",
+            geometry: {
+                type: "MultiLineString",
+                coordinates: segments.map((segment) => segment.map((point) => [point.longitude, point.latitude])),
+            },
+            properties: {
+                name,
+                // Per-point attributes, parallel to the coordinate arrays
+                coordinateTimes: segments.map((segment) => segment.map((point) => point.timestamp)),
+                accuracy: segments.map((segment) => segment.map((point) => point.accuracy)),
+                speed: segments.map((segment) => segment.map((point) => point.speed)),
+                heading: segments.map((segment) => segment.map((point) => point.heading)),
+                flagged: segments.map((segment) => segment.map((point) => point.flagged ?? null)),
+            },
+        },
+    ],
+})
+
+export const trackToCsv = (segments: LocationPoint[][]): string =>
+    toCsv(
+        ["segment", "timestamp", "latitude", "longitude", "accuracy", "speed", "heading", "flagged"],
+        segments.flatMap((segment, index) =>
+            segment.map((point) => [
+                index,
+                point.timestamp,
+                point.latitude,
+                point.longitude,
+                point.accuracy,
+                point.speed,
+                point.heading,
+                point.flagged,
+            ]),
+        ),
+    )
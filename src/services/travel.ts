@@ -0,0 +1,113 @@
+import { config } from "../config"
+import type { Eta, User } from "../types"
+import { bearingDegrees, haversineMeters, type Coordinates } from "../utils/geo"
+
+type TrailPoint = User["trail"][number]
+
+export interface DailyDistance {
+    day: string // UTC date, YYYY-MM-DD
+    meters: number
+    fixes: number
+}
+
+const utcDay = (timestamp: string): string => new Date(timestamp).toISOString().slice(0, 10)
+
+/**
+ * The participant's distance for the day after `point` was accepted into `trail`. A late point
+ * slots in between its neighbours, replacing the leg between them; a point from an earlier day
+ * leaves today's distance alone, and the first point of a new day starts it over.
+ */
+export const addTravel = (distance: User["distance"], trail: User["trail"], point: TrailPoint): User["distance"] => {
+    const day = utcDay(point.timestamp)
+    if (distance && distance.day > day) return distance
+
+    const meters = distance?.day === day ? distance.meters : 0
+    const index = trail.indexOf(point)
+    if (index < 0) return { day, meters }
+
+    const sameDay = (neighbour: TrailPoint | undefined) => (neighbour && utcDay(neighbour.timestamp) === day ? neighbour : undefined)
+    const previous = sameDay(trail[index - 1])
+    const next = sameDay(trail[index + 1])
+    let added = 0
+    if (previous) added += haversineMeters(previous, point)
+    if (next) added += haversineMeters(point, next)
+    if (previous && next) added -= haversineMeters(previous, next)
+    return { day, meters: meters + added }
+}
+
+/**
+ * Distance travelled per UTC day over a participant's recorded points, oldest day first. Legs
+ * are only counted between points of the same day.
+ */
+export const dailyDistances = (points: Array<Coordinates & { timestamp: string }>): DailyDistance[] => {
+    const sorted = [...points].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    const days = new Map<string, DailyDistance>()
+    let previous: (Coordinates & { timestamp: string }) | undefined
+    sorted.forEach((point) => {
+        const day = utcDay(point.timestamp)
+        const entry = days.get(day) ?? { day, meters: 0, fixes: 0 }
+        if (previous && utcDay(previous.timestamp) === day) entry.meters += haversineMeters(previous, point)
+        entry.fixes++
+        days.set(day, entry)
+        previous = point
+    })
+    return Array.from(days.values(), (entry) => ({ ...entry, meters: Math.round(entry.meters) }))
+}
+
+// Meters per second along the trail over the configured window, or null without two points in it
+const recentSpeed = (trail: User["trail"], now: number): number | null => {
+    const since = now - config.eta.windowMinutes * 60 * 1000
+    const recent = trail.filter((point) => Date.parse(point.timestamp) >= since)
+    if (recent.length < 2) return null
+
+    const seconds = (Date.parse(recent[recent.length - 1].timestamp) - Date.parse(recent[0].timestamp)) / 1000
+    if (seconds <= 0) return null
+    let meters = 0
+    for (let i = 1; i < recent.length; i++) meters += haversineMeters(recent[i - 1], recent[i])
+    return meters / seconds
+}
+
+/**
+ * Rolling ETA to `target` from the participant's average speed over recent trail points, using
+ * the reported speed until the trail covers enough ground to average. The heading (or, without
+ * one, the direction of the last leg) tells whether the participant is heading towards the target.
+ * Null for participants without a position.
+ */
+export const estimateArrival = (
+    mover: Pick<User, "location" | "trail" | "speed" | "heading">,
+    target: Coordinates,
+    taskId: string | null = null,
+    now = Date.now(),
+): Eta | null => {
+    if (!mover.location) return null
+
+    const distanceMeters = haversineMeters(mover.location, target)
+    const speedMps = recentSpeed(mover.trail, now) ?? mover.speed ?? null
+
+    const last = mover.trail[mover.trail.length - 1]
+    const beforeLast = mover.trail[mover.trail.length - 2]
+    const heading = mover.heading ?? (last && beforeLast ? bearingDegrees(beforeLast, last) : null)
+    let approaching: boolean | null = null
+    if (heading !== null && distanceMeters >= 1) {
+        const offset = Math.abs(((heading - bearingDegrees(mover.location, target) + 540) % 360) - 180)
+        approaching = offset <= 90
+    }
+
+    const moving = speedMps !== null && speedMps >= config.eta.minSpeedMps
+    const etaSeconds = moving ? Math.round((distanceMeters * config.eta.detourFactor) / speedMps) : null
+
+    return {
+        target: { latitude: target.latitude, longitude: target.longitude },
+        taskId,
+        distanceMeters: Math.round(distanceMeters),
+        speedMps: speedMps === null ? null : Math.round(speedMps * 100) / 100,
+        approaching,
+        etaSeconds,
+        arrivalAt: etaSeconds === null ? null : new Date(now + etaSeconds * 1000).toISOString(),
+        computedAt: new Date(now).toISOString(),
+    }
+}
+
+// The participant an account is tracked as; the most recently seen while an old connection lingers
+export const latestParticipant = (users: User[], accountId: string): User | undefined =>
+    users.filter((user) => user.accountId === accountId).sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))[0]
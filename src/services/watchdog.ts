@@ -0,0 +1,248 @@
+import { EventEmitter } from "events"
+import { config } from "../config"
+import type { Role, TrackingSession, User, WatchdogRules } from "../types"
+import { haversineMeters, type Coordinates } from "../utils/geo"
+
+export type InactivityReason = "stationary" | "silent" | "connection"
+
+export interface InactivityAlert {
+    sessionId: string
+    userId: string
+    accountId: string
+    userName: string
+    role: Role
+    reason: InactivityReason
+    since: string // when the participant last moved, reported, or had a healthy connection
+    lastKnown: { location: Coordinates | null; accuracy: number | null; timestamp: string | null }
+    connection: { latency: number | null; isHealthy: boolean } | null
+    timestamp: string
+}
+
+interface Watch {
+    user: User // last known state, kept for participants lost without a clean leave
+    rules: WatchdogRules
+    anchor: { location: Coordinates; since: number } | null // where the participant has been staying
+    lastKnown: InactivityAlert["lastKnown"]
+    lastSignalAt: number
+    connection: InactivityAlert["connection"]
+    unhealthySince: number | null
+    lostAt: number | null // dropped connection; watched until the account rejoins
+    flagged: Map<InactivityReason, InactivityAlert>
+}
+
+/**
+ * The rules for one role in a session: server defaults, then the role's server rules, then the
+ * session's defaults and finally the session's rules for that role.
+ */
+export const resolveWatchdogRules = (role: Role, session: TrackingSession | undefined): WatchdogRules => ({
+    ...config.watchdog.defaults,
+    ...config.watchdog.roles[role],
+    ...session?.watchdog?.defaults,
+    ...session?.watchdog?.roles?.[role],
+})
+
+/**
+ * Notices participants who may be hurt or in trouble: standing still for too long, no longer
+ * reporting without having left cleanly, or stuck on a collapsed connection. Participants are
+ * watched on the node their socket is connected to, from the signals that node receives; a
+ * participant resumed on another node is left to that node. "inactive" is emitted once per
+ * participant and reason, and "active" when the condition clears or the participant is released.
+ */
+export const createWatchdog = (
+    getUser: (userId: string) => User | undefined,
+    getSession: (sessionId: string) => Promise<TrackingSession | undefined>,
+    isAttachedElsewhere: (userId: string) => boolean,
+) => {
+    const events = new EventEmitter()
+    const watches = new Map<string, Watch>() // participant id → watch
+
+    const release = (userId: string): void => {
+        const current = watches.get(userId)
+        if (!current) return
+        watches.delete(userId)
+        current.flagged.forEach((alert) => events.emit("active", { ...alert, timestamp: new Date().toISOString() }))
+    }
+
+    // Starts watching a joined or resumed participant; a resume keeps what was already known
+    const watch = (user: User): void => {
+        const existing = watches.get(user.id)
+        if (existing) {
+            existing.user = user
+            existing.lastSignalAt = Date.now()
+            existing.lostAt = null
+            return
+        }
+
+        // Coming back under a new participant id settles what was flagged for the lost one
+        watches.forEach((other) => {
+            if (other.user.sessionId === user.sessionId && other.user.accountId === user.accountId) release(other.user.id)
+        })
+
+        watches.set(user.id, {
+            user,
+            rules: resolveWatchdogRules(user.role, undefined),
+            anchor: user.location ? { location: user.location, since: Date.now() } : null,
+            lastKnown: { location: user.location, accuracy: user.accuracy ?? null, timestamp: user.location ? user.lastSeen : null },
+            lastSignalAt: Date.now(),
+            connection: null,
+            unhealthySince: null,
+            lostAt: null,
+            flagged: new Map(),
+        })
+    }
+
+    // Leaving on purpose ends the watch; a dropped connection keeps it so the silence is noticed
+    const disconnected = (userId: string, clean: boolean): void => {
+        const current = watches.get(userId)
+        if (!current) return
+        if (clean) {
+            release(userId)
+        } else {
+            current.lostAt = Date.now()
+        }
+    }
+
+    // The participant was removed; one whose connection dropped stays watched until the account rejoins
+    const unwatch = (userId: string): void => {
+        if (!watches.get(userId)?.lostAt) release(userId)
+    }
+
+    // Kicked or banned accounts are no longer anyone's concern in that session
+    const forget = (sessionId: string, accountId: string): void => {
+        watches.forEach((current) => {
+            if (current.user.sessionId === sessionId && current.user.accountId === accountId) release(current.user.id)
+        })
+    }
+
+    // Any sign of life from the client: a location report (even one that was filtered out) or activity
+    const recordSignal = (userId: string): void => {
+        const current = watches.get(userId)
+        if (current) current.lastSignalAt = Date.now()
+    }
+
+    // Someone using the app is not lying motionless, wherever they are
+    const recordActivity = (userId: string): void => {
+        const current = watches.get(userId)
+        if (!current) return
+        current.lastSignalAt = Date.now()
+        if (current.anchor) current.anchor.since = Date.now()
+    }
+
+    // An accepted fix; moving away from the anchor, or reporting a walking speed, restarts the stationary clock
+    const recordFix = (
+        userId: string,
+        fix: { location: Coordinates; accuracy?: number | null; speed?: number | null; timestamp: string },
+    ): void => {
+        const current = watches.get(userId)
+        if (!current) return
+        const now = Date.now()
+        current.lastSignalAt = now
+        const location = { latitude: fix.location.latitude, longitude: fix.location.longitude }
+        current.lastKnown = { location, accuracy: fix.accuracy ?? null, timestamp: fix.timestamp }
+
+        const moving = (fix.speed ?? 0) >= config.watchdog.movingSpeedMps
+        if (!current.anchor || moving || haversineMeters(current.anchor.location, fix.location) > current.rules.stationaryRadiusMeters) {
+            current.anchor = { location, since: now }
+        }
+    }
+
+    // Round trip of the latest server ping, or null latency when it went unanswered
+    const recordHealth = (userId: string, health: { latency: number | null; isHealthy: boolean }): void => {
+        const current = watches.get(userId)
+        if (!current) return
+        current.connection = health
+        const { maxLatencyMs } = current.rules
+        const collapsed = !health.isHealthy || (maxLatencyMs !== null && health.latency !== null && health.latency > maxLatencyMs)
+        if (!collapsed) {
+            current.unhealthySince = null
+        } else if (current.unhealthySince === null) {
+            current.unhealthySince = Date.now()
+        }
+    }
+
+    // When each condition started, or null while it does not hold
+    const conditions = (current: Watch, now: number): Record<InactivityReason, number | null> => {
+        const { rules, user } = current
+        const minutes = (value: number | null) => (value === null ? Infinity : value * 60 * 1000)
+        // Off shift (away or offline), not sharing a position, or without a connection, there is nothing to judge movement by
+        const onShift = rules.enabled && user.status === "online" && current.lostAt === null
+
+        const stationarySince = current.anchor?.since ?? null
+        const stationary =
+            onShift && user.sharing === "live" && stationarySince !== null && now - stationarySince >= minutes(rules.stationaryMinutes)
+        const silent = rules.enabled && user.status === "online" && now - current.lastSignalAt >= minutes(rules.silentMinutes)
+        const collapsed =
+            onShift &&
+            rules.maxLatencyMs !== null &&
+            current.unhealthySince !== null &&
+            now - current.unhealthySince >= rules.unhealthyMinutes * 60 * 1000
+
+        return {
+            stationary: stationary ? stationarySince : null,
+            silent: silent ? current.lastSignalAt : null,
+            connection: collapsed ? current.unhealthySince : null,
+        }
+    }
+
+    const check = async (): Promise<void> => {
+        const now = Date.now()
+        for (const current of Array.from(watches.values())) {
+            const userId = current.user.id
+            const user = getUser(userId)
+            if (user && isAttachedElsewhere(userId)) {
+                release(userId)
+                continue
+            }
+            if (!user && current.lostAt === null) {
+                release(userId)
+                continue
+            }
+            if (user) current.user = user
+
+            const session = await getSession(current.user.sessionId)
+            if (session?.status !== "active") {
+                release(userId)
+                continue
+            }
+            current.rules = resolveWatchdogRules(current.user.role, session)
+
+            const { user: watched } = current
+            const started = conditions(current, now)
+            ;(Object.keys(started) as InactivityReason[]).forEach((reason) => {
+                const since = started[reason]
+                const flagged = current.flagged.get(reason)
+                if (since !== null && !flagged) {
+                    const alert: InactivityAlert = {
+                        sessionId: watched.sessionId,
+                        userId: watched.id,
+                        accountId: watched.accountId,
+                        userName: watched.name,
+                        role: watched.role,
+                        reason,
+                        since: new Date(since).toISOString(),
+                        lastKnown: current.lastKnown,
+                        connection: current.connection,
+                        timestamp: new Date(now).toISOString(),
+                    }
+                    current.flagged.set(reason, alert)
+                    events.emit("inactive", alert)
+                } else if (since === null && flagged) {
+                    current.flagged.delete(reason)
+                    events.emit("active", { ...flagged, timestamp: new Date(now).toISOString() })
+                }
+            })
+        }
+    }
+
+    // Participants of a session currently flagged on this node
+    const list = (sessionId: string): InactivityAlert[] =>
+        Array.from(watches.values()).flatMap((current) =>
+            Array.from(current.flagged.values()).filter((alert) => alert.sessionId === sessionId),
+        )
+
+    setInterval(() => check().catch((error) => console.error("❌ Watchdog check failed:", error)), config.watchdog.checkIntervalMs).unref()
+
+    return { events, watch, disconnected, unwatch, forget, recordSignal, recordActivity, recordFix, recordHealth, list }
+}
+
+export type Watchdog = ReturnType<typeof createWatchdog>
@@ -0,0 +1,111 @@
+import { isStaff } from "../auth/permissions"
+import { stateStore } from "../scaling"
+import { alertService } from "../services"
+import { AlertError, type AlertActor } from "../services/alerts"
+import type { SosAlert, User } from "../types"
+import type { SocketContext } from "./context"
+import type { TrackingSocket } from "./contract"
+
+// Once escalated, an alert is also handled by the admins of every other active session
+const inScope = (alert: SosAlert, user: User): boolean =>
+    alert.sessionId === user.sessionId || (alert.escalatedAt !== null && user.role === "admin")
+
+/**
+ * Relays SOS alerts to the session's staff and the raiser, and after an escalation to the
+ * admins of every other session with participants.
+ */
+export const relayAlertEvents = (ctx: SocketContext): void => {
+    const audience = (alert: SosAlert): string[] => {
+        const rooms = [ctx.roleRoom(alert.sessionId, "admin"), ctx.roleRoom(alert.sessionId, "moderator"), ctx.userRoom(alert.userId)]
+        if (alert.escalatedAt) {
+            const sessionIds = new Set(stateStore.listUsers().map((user) => user.sessionId))
+            sessionIds.delete(alert.sessionId)
+            sessionIds.forEach((sessionId) => rooms.push(ctx.roleRoom(sessionId, "admin")))
+        }
+        return rooms
+    }
+
+    alertService.events.on("raised", (alert: SosAlert) => {
+        ctx.io.to(audience(alert)).emit("sos-alert", alert)
+        console.log(`🆘 ${alert.userName} raised an SOS in session: ${alert.sessionId}`)
+    })
+
+    alertService.events.on("escalated", (alert: SosAlert) => {
+        ctx.io.to(audience(alert)).emit("sos-escalated", alert)
+        console.log(`🚨 SOS ${alert.id} in session ${alert.sessionId} was not acknowledged in time, escalating`)
+    })
+
+    alertService.events.on("acknowledged", (alert: SosAlert) => {
+        ctx.io.to(audience(alert)).emit("sos-acknowledged", alert)
+    })
+
+    alertService.events.on("resolved", (alert: SosAlert) => {
+        ctx.io.to(audience(alert)).emit("sos-resolved", alert)
+    })
+}
+
+/**
+ * Sends the alerts still open in the participant's session: all of them to staff, their own
+ * to everyone else.
+ */
+export const sendOpenAlerts = async (socket: TrackingSocket, user: User): Promise<void> => {
+    try {
+        const alerts = (await alertService.list({ statuses: ["open", "acknowledged"], sessionId: user.sessionId })).filter(
+            (alert) => isStaff(user.role) || alert.accountId === user.accountId,
+        )
+        if (alerts.length > 0) socket.emit("sos-alerts", { sessionId: user.sessionId, alerts })
+    } catch (error) {
+        console.error("❌ Failed to send open alerts:", error)
+    }
+}
+
+export const registerAlertHandlers = (socket: TrackingSocket, ctx: SocketContext): void => {
+    // Runs an alert command for the socket's participant, mapping alert errors to socket errors
+    const handle = async (event: string, run: (user: User) => Promise<void>) => {
+        try {
+            const user = ctx.getUser(socket.id)
+            if (!user) {
+                socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                return
+            }
+
+            await run(user)
+        } catch (error) {
+            if (error instanceof AlertError) {
+                socket.emit("error", { message: error.message, code: error.code, field: error.field })
+                return
+            }
+            console.error(`❌ Error in ${event}:`, error)
+            socket.emit("error", { message: "Failed to handle emergency alert", code: "SOS_ERROR" })
+        }
+    }
+
+    const findInScope = async (alertId: string, user: User): Promise<SosAlert> => {
+        const alert = await alertService.get(alertId)
+        if (!alert || !inScope(alert, user)) throw new AlertError("Alert not found", "ALERT_NOT_FOUND", "alertId")
+        return alert
+    }
+
+    const actorOf = (user: User): AlertActor => ({ accountId: user.accountId, name: user.name })
+
+    // Never blocked by a mute; the rate limit only stops repeated presses
+    socket.on("sos-alert", (data) =>
+        handle("sos-alert", async (user) => {
+            await alertService.raise(user, data)
+        }),
+    )
+
+    socket.on("sos-ack", (data) =>
+        handle("sos-ack", async (user) => {
+            const alert = await findInScope(data.alertId, user)
+            await alertService.acknowledge(alert.id, actorOf(user))
+        }),
+    )
+
+    socket.on("sos-resolve", (data) =>
+        handle("sos-resolve", async (user) => {
+            const alert = await findInScope(data.alertId, user)
+            await alertService.resolve(alert.id, actorOf(user), data.notes)
+        }),
+    )
+}
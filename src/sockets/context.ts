@@ -0,0 +1,35 @@
+import type { ChatMessage, Role, SharingState, User } from "../types"
+import type { Coordinates } from "../utils/geo"
+import type { RedactedEvent, SequencedEvent, ServerEventPayload, TrackingServer } from "./contract"
+
+/**
+ * Shared helpers handed from initSocket to the feature-specific handler modules.
+ */
+export interface SocketContext {
+    io: TrackingServer
+    getUser(socketId: string): User | undefined
+    getCurrentTimestamp(): string
+    // Broadcast a location-bearing payload to a session, redacted per recipient role
+    emitRedacted<E extends RedactedEvent>(
+        sessionId: string,
+        event: E,
+        payload: ServerEventPayload<E>,
+        subject?: { userId: string; include: boolean },
+    ): void
+    // Broadcast a payload without location data to a session, optionally skipping one participant
+    broadcast<E extends SequencedEvent>(sessionId: string, event: E, payload: ServerEventPayload<E>, exceptUserId?: string): void
+    // Rooms every participant socket joins besides the session room
+    roleRoom(sessionId: string, role: Role): string
+    userRoom(userId: string): string
+    // Drop a participant for good, without a reconnection grace period
+    removeUser(userId: string): void
+    // Store and broadcast a participant's position; only the state goes out when sharing is not live
+    publishLocation(
+        user: User,
+        fix: { location?: Coordinates | null; accuracy?: number | null; speed?: number | null; heading?: number | null },
+        timestamp: string,
+        sharing?: SharingState,
+    ): void
+    // Persist a chat message and deliver it to the session; resolves to its sequence number, if any
+    postMessage(message: ChatMessage): Promise<number | null>
+}
@@ -0,0 +1,603 @@
+import type { Server, Socket } from "socket.io"
+import type { RedactableFields } from "../auth/permissions"
+import type { TokenClaims } from "../auth/token"
+import { config } from "../config"
+import type { Geofence, GeofenceTransition } from "../services/geofences"
+import type { JoinDecision, JoinRequest } from "../services/invites"
+import type { Ban, Mute } from "../services/moderation"
+import type { PrivacyZone } from "../services/privacy"
+import { proximityRuleInput, type NearbyUser, type ProximityAlert, type ProximityRule } from "../services/proximity"
+import type { ReplayState } from "../services/replay"
+import { taskInputs } from "../services/tasks"
+import type { InactivityAlert } from "../services/watchdog"
+import type { MessagePage } from "../stores/messages"
+import { ROLES, TASK_STATUSES, USER_STATUSES, type ChatMessage, type ConnectionHealth, type Role, type SharingState, type SosAlert, type Task, type TrackingSession, type User } from "../types"
+import type { Coordinates } from "../utils/geo"
+import { compactJsonSchema, s, SchemaValidationError, type Infer, type JsonSchema, type Schema } from "../utils/schema"
+
+/*
+ * The Socket.IO contract: every client → server event with its payload schema, and every
+ * server → client event with its payload type. Inbound payloads are validated against these
+ * schemas before any handler runs (see initSocket), so handlers receive the inferred types.
+ */
+
+// ---- Client → server payloads ----
+
+const id = s.string({ minLength: 1, maxLength: 200 })
+const timestamp = s.union(s.string({ maxLength: 64 }), s.number({ minimum: 0 }))
+const measurement = s.optional(s.nullable(s.number()))
+
+const location = s.coded(
+    s.object(
+        {
+            latitude: s.number({ minimum: -90, maximum: 90 }),
+            longitude: s.number({ minimum: -180, maximum: 180 }),
+        },
+        "WGS84 position in decimal degrees",
+    ),
+    "INVALID_LOCATION",
+)
+
+const messageText = s.string({ minLength: 1, maxLength: 1000, notBlank: true })
+
+const moderationTarget = {
+    userId: s.optional(id),
+    accountId: s.optional(id),
+}
+
+const fix = s.object({
+    location,
+    accuracy: measurement,
+    speed: measurement,
+    heading: measurement,
+    timestamp: s.optional(timestamp),
+})
+
+const payloads = {
+    joinTracking: s.optional(
+        s.object({
+            sessionId: s.optional(s.coded(s.string({ minLength: 1, maxLength: 200, notBlank: true }), "INVALID_SESSION")),
+            location: s.optional(s.nullable(location)),
+            accuracy: measurement,
+            speed: measurement,
+            heading: measurement,
+            resumeToken: s.optional(s.string({ maxLength: 200 })),
+            lastSeq: s.optional(s.number({ minimum: 0, integer: true })),
+            inviteCode: s.optional(s.string({ minLength: 1, maxLength: 64 })),
+        }),
+    ),
+    locationUpdate: s.object({
+        location: s.optional(s.nullable(location)),
+        accuracy: measurement,
+        speed: measurement,
+        heading: measurement,
+        timestamp: s.optional(timestamp),
+    }),
+    // Fixes are checked one by one so a bad fix does not reject the whole batch
+    locationBatch: s.coded(
+        s.union(
+            s.array(s.unknown<LocationFix>("A fix: { location, accuracy?, speed?, heading?, timestamp }"), {
+                minItems: 1,
+                maxItems: config.locations.maxBatchSize,
+            }),
+            s.object({
+                fixes: s.array(s.unknown<LocationFix>("A fix: { location, accuracy?, speed?, heading?, timestamp }"), {
+                    minItems: 1,
+                    maxItems: config.locations.maxBatchSize,
+                }),
+            }),
+        ),
+        "INVALID_BATCH",
+    ),
+    sendMessage: s.coded(
+        s.object({
+            message: messageText,
+            messageType: s.optional(s.string({ minLength: 1, maxLength: 50 })),
+            clientMessageId: s.optional(s.string({ minLength: 1, maxLength: 100 })),
+        }),
+        "INVALID_MESSAGE",
+    ),
+    editMessage: s.coded(s.object({ messageId: id, message: messageText }), "INVALID_MESSAGE"),
+    deleteMessage: s.coded(s.object({ messageId: id }), "INVALID_MESSAGE"),
+    messageReaction: s.coded(
+        s.object({ messageId: id, emoji: s.string({ minLength: 1, maxLength: 32 }), action: s.literal("add", "remove") }),
+        "INVALID_REACTION",
+    ),
+    statusUpdate: s.coded(s.literal(...USER_STATUSES), "INVALID_STATUS"),
+    presenceUpdate: s.object({
+        isActive: s.optional(s.boolean()),
+        lastActivity: s.optional(s.string({ maxLength: 64 })),
+    }),
+    messagesHistory: s.coded(
+        s.optional(
+            s.object({
+                before: s.optional(id),
+                after: s.optional(id),
+                limit: s.optional(s.number({ minimum: 1, integer: true })),
+            }),
+        ),
+        "INVALID_HISTORY_QUERY",
+    ),
+    // Shape rules (radius limits, polygon size) are enforced by the geofence service
+    geofenceDefine: s.coded(
+        s.object({
+            id: s.optional(id),
+            name: s.string({ minLength: 1, maxLength: 100, notBlank: true }),
+            type: s.literal("circle", "polygon"),
+            center: s.optional(location),
+            radius: s.optional(s.number()),
+            points: s.optional(s.array(location, { maxItems: config.geofences.maxPolygonPoints })),
+        }),
+        "INVALID_GEOFENCE",
+    ),
+    geofenceDelete: s.coded(s.object({ zoneId: id }), "INVALID_GEOFENCE"),
+    privacyZoneSet: s.coded(
+        s.object({
+            id: s.optional(id),
+            name: s.string({ minLength: 1, maxLength: 100, notBlank: true }),
+            center: location,
+            radius: s.number({ minimum: config.privacy.minZoneRadiusMeters, maximum: config.privacy.maxZoneRadiusMeters }),
+        }),
+        "INVALID_PRIVACY_ZONE",
+    ),
+    privacyZoneDelete: s.coded(s.object({ zoneId: id }), "INVALID_PRIVACY_ZONE"),
+    sosAlert: s.coded(
+        s.optional(
+            s.object({
+                message: s.optional(s.string({ maxLength: 500 })),
+                location: s.optional(s.nullable(location)),
+                accuracy: measurement,
+            }),
+        ),
+        "INVALID_SOS",
+    ),
+    nearestUsers: s.coded(
+        s.object({
+            location,
+            radius: s.optional(s.number({ minimum: 1, maximum: config.proximity.maxDistanceMeters })),
+            limit: s.optional(s.number({ minimum: 1, maximum: config.proximity.maxLimit, integer: true })),
+        }),
+        "INVALID_NEARBY_QUERY",
+    ),
+    proximityRuleSet: s.coded(proximityRuleInput, "INVALID_PROXIMITY_RULE"),
+    proximityRuleDelete: s.coded(s.object({ ruleId: id }), "INVALID_PROXIMITY_RULE"),
+    sosAck: s.coded(s.object({ alertId: id }), "INVALID_SOS"),
+    taskCreate: s.coded(taskInputs.create, "INVALID_TASK"),
+    taskAssign: s.coded(taskInputs.assign, "INVALID_TASK"),
+    taskUpdate: s.coded(taskInputs.update, "INVALID_TASK"),
+    tasksList: s.coded(
+        s.optional(s.object({ status: s.optional(s.array(s.literal(...TASK_STATUSES), { minItems: 1 })), assignee: s.optional(id) })),
+        "INVALID_TASK_QUERY",
+    ),
+    sosResolve: s.coded(s.object({ alertId: id, notes: s.optional(s.string({ maxLength: 2000 })) }), "INVALID_SOS"),
+    replayStart: s.coded(
+        s.optional(
+            s.object({
+                sessionId: s.optional(id),
+                from: s.optional(timestamp),
+                to: s.optional(timestamp),
+                speed: s.optional(s.number()),
+            }),
+        ),
+        "INVALID_REPLAY_RANGE",
+    ),
+    replaySeek: s.coded(s.object({ position: timestamp }), "INVALID_REPLAY_RANGE"),
+    replaySpeed: s.object({ speed: s.number() }),
+    ping: s.optional(s.object({ timestamp: s.optional(timestamp) })),
+    syncSince: s.coded(
+        s.union(s.number({ minimum: 0, integer: true }), s.object({ seq: s.number({ minimum: 0, integer: true }) })),
+        "INVALID_SEQ",
+    ),
+    reconnectRequest: s.optional(
+        s.object({
+            sessionId: s.optional(id),
+            resumeToken: s.optional(s.string({ maxLength: 200 })),
+            lastSeq: s.optional(s.number({ minimum: 0, integer: true })),
+        }),
+    ),
+    moderationKick: s.coded(s.object({ ...moderationTarget, reason: s.optional(s.string({ maxLength: 500 })) }), "INVALID_MODERATION"),
+    moderationMute: s.coded(
+        s.object({
+            ...moderationTarget,
+            minutes: s.number({ minimum: 0, maximum: config.moderation.maxMuteMinutes }),
+            reason: s.optional(s.string({ maxLength: 500 })),
+        }),
+        "INVALID_MODERATION",
+    ),
+    moderationTarget: s.coded(s.object(moderationTarget), "INVALID_MODERATION"),
+    moderationRole: s.coded(s.object({ ...moderationTarget, role: s.literal(...ROLES) }), "INVALID_MODERATION"),
+    approveJoin: s.coded(s.object({ requestId: id, role: s.optional(s.literal(...ROLES)) }), "INVALID_JOIN_REQUEST"),
+    denyJoin: s.coded(s.object({ requestId: id, reason: s.optional(s.string({ maxLength: 500 })) }), "INVALID_JOIN_REQUEST"),
+}
+
+export type LocationFix = Infer<typeof fix>
+export type JoinTrackingPayload = Infer<typeof payloads.joinTracking>
+export type LocationUpdatePayload = Infer<typeof payloads.locationUpdate>
+export type LocationBatchPayload = Infer<typeof payloads.locationBatch>
+export type SendMessagePayload = Infer<typeof payloads.sendMessage>
+
+/**
+ * Checks one fix of a location batch, returning null when it is invalid.
+ */
+export const parseLocationFix = (value: unknown): LocationFix | null => {
+    try {
+        return fix.parse(value)
+    } catch (error) {
+        if (error instanceof SchemaValidationError) return null
+        throw error
+    }
+}
+
+// ---- Acknowledgement and server → client payloads ----
+
+export interface SocketError {
+    message: string
+    code: string
+    field?: string // payload property that failed validation
+    action?: string // FORBIDDEN
+    event?: string // RATE_LIMIT
+    retryAfterMs?: number // RATE_LIMIT
+    until?: string // MUTED
+}
+
+// Payloads recorded in the session journal carry their sequence number when broadcast
+export type Sequenced<T> = T & { seq?: number }
+
+export type SendMessageAck =
+    | { success: true; duplicate: boolean; id: string; seq: number | null; clientMessageId: string | null }
+    | ({ success: false } & SocketError)
+
+export interface LocationBatchResult {
+    total: number
+    accepted: number
+    duplicates: number
+    rejected: Array<{ index: number; code: string; timestamp?: string }>
+    timestamp: string
+}
+
+export interface JournalPage {
+    since: number
+    latestSeq: number
+    complete: boolean
+    events: Array<{ seq: number; event: string; payload: any }>
+}
+
+export interface SessionJoined {
+    userId: string
+    sessionId: string
+    resumeToken: string
+    latestSeq: number
+    resumed: boolean
+}
+
+export interface LocationBroadcast {
+    userId: string
+    location: Coordinates | null // null unless sharing is "live"
+    sharing: SharingState
+    accuracy?: number | null
+    speed?: number | null
+    heading?: number | null
+    timestamp: string
+}
+
+export interface UserLeft {
+    userId: string
+    userName: string
+    timestamp: string
+    reason?: string
+}
+
+export interface ReactionUpdate {
+    messageId: string
+    userId: string
+    userName: string
+    emoji: string
+    action: "add" | "remove"
+    reactions: Record<string, string[]>
+    timestamp: string
+}
+
+export interface ModerationNotice {
+    sessionId: string
+    reason: string | null
+    moderator: { accountId: string; name: string }
+    timestamp: string
+    until?: string // mute
+    role?: Role // role change
+    previousRole?: Role | null
+}
+
+export interface ModerationBroadcast extends ModerationNotice {
+    accountId: string
+    userIds: string[]
+    userName: string | null
+}
+
+export interface ServerToClientEvents {
+    "connection-confirmed": (payload: {
+        socketId: string
+        timestamp: string
+        serverTime: number
+        serverVersion: string
+        features: string[]
+    }) => void
+    "connection-recovery": (payload: { message: string; timestamp: string }) => void
+    "server-shutdown": (payload: {
+        message: string
+        timestamp: string
+        // The recipient's session as they would see it; null for sockets that have not joined one
+        recoveryData: { sessionId: string; users: User[]; timestamp: string } | null
+        expectedDowntime: number
+    }) => void
+    error: (error: SocketError) => void
+    ping: (payload: { timestamp: number; serverLoad: NodeJS.CpuUsage; memoryUsage: number }) => void
+    pong: (payload: {
+        timestamp: string
+        serverTime: number
+        clientTime?: string | number
+        connectionHealth: Pick<ConnectionHealth, "latency" | "pingCount" | "isHealthy"> | null
+    }) => void
+
+    // Session membership
+    "session-joined": (payload: SessionJoined) => void
+    // Approval sessions: the requester waits without receiving any session traffic
+    "join-pending": (payload: { requestId: string; sessionId: string; timestamp: string }) => void
+    "join-denied": (payload: { requestId: string; sessionId: string; reason: string | null; timestamp: string }) => void
+    // Sent to staff in the session
+    "join-request": (request: JoinRequest) => void
+    "join-request-resolved": (payload: {
+        requestId: string
+        sessionId: string
+        accountId: string
+        decision: JoinDecision
+        by: { accountId: string; name: string } | null
+        timestamp: string
+    }) => void
+    "join-requests": (payload: { sessionId: string; requests: JoinRequest[] }) => void
+    "session-updated": (session: TrackingSession) => void
+    // Sent to every member right before they are disconnected
+    "session-closed": (payload: {
+        sessionId: string
+        reason: string | null
+        closedBy: { accountId: string; name: string }
+        timestamp: string
+    }) => void
+    "users-list": (users: User[]) => void
+    "user-count": (count: number) => void
+    "user-joined": (user: Sequenced<User>) => void
+    "user-left": (payload: Sequenced<UserLeft>) => void
+    "user-updated": (user: Sequenced<User>) => void
+    "user-status-changed": (payload: Sequenced<{ userId: string; status: User["status"]; timestamp: string }>) => void
+    "user-presence-changed": (
+        payload: Sequenced<{ userId: string; isActive: boolean; lastActivity: string; timestamp: string }>,
+    ) => void
+    "user-typing": (payload: Sequenced<{ userId: string; userName: string; isTyping: boolean; timestamp: string }>) => void
+    "reconnect-response": (payload: {
+        success: boolean
+        code?: string
+        message?: string
+        timestamp: string
+        serverTime: number
+        userData?: User
+        connectionHealth?: ConnectionHealth
+        bufferedMessages?: ChatMessage[]
+    }) => void
+    "missed-events": (page: JournalPage) => void
+    "sync-since": (page: JournalPage) => void
+
+    // Locations
+    "location-update": (payload: Sequenced<LocationBroadcast>) => void
+    "location-rejected": (payload: {
+        code: string
+        message: string
+        location: Coordinates
+        accuracy?: number | null
+        impliedSpeedMps?: number | null
+        timestamp: string
+    }) => void
+    "location-batch-ack": (result: LocationBatchResult) => void
+
+    // Chat
+    "new-message": (message: Sequenced<ChatMessage>) => void
+    "message-edited": (message: Sequenced<ChatMessage>) => void
+    "message-deleted": (
+        payload: Sequenced<{ messageId: string; deletedBy: string; deletedByName: string; timestamp: string }>,
+    ) => void
+    "message-reaction-update": (payload: Sequenced<ReactionUpdate>) => void
+    "messages-history": (page: MessagePage) => void
+    "buffered-messages": (messages: Sequenced<ChatMessage>[]) => void
+
+    // Geofences
+    "geofences-list": (payload: { sessionId: string; geofences: Geofence[] }) => void
+    // Only sent to the account's own sockets
+    "sharing-state": (payload: { paused: boolean; timestamp: string }) => void
+    "privacy-zones": (payload: { zones: PrivacyZone[] }) => void
+    // To the session's staff and the raiser; escalated alerts also reach other sessions' admins
+    "sos-alert": (alert: SosAlert) => void
+    "sos-escalated": (alert: SosAlert) => void
+    "sos-acknowledged": (alert: SosAlert) => void
+    "sos-resolved": (alert: SosAlert) => void
+    // Unresolved alerts, sent to staff when they join
+    "sos-alerts": (payload: { sessionId: string; alerts: SosAlert[] }) => void
+    // Tasks, to the whole session; each change also appears in the message stream as a "task" entry
+    "task-created": (task: Sequenced<Task>) => void
+    "task-assigned": (task: Sequenced<Task>) => void
+    "task-updated": (task: Sequenced<Task>) => void
+    "tasks-list": (payload: { sessionId: string; tasks: Task[] }) => void
+    // Proximity, to the session's staff
+    "nearest-users": (payload: { sessionId: string; location: Coordinates; radius: number | null; users: NearbyUser[]; timestamp: string }) => void
+    "proximity-rules": (payload: { sessionId: string; rules: ProximityRule[] }) => void
+    "proximity-rule-updated": (rule: ProximityRule) => void
+    "proximity-rule-deleted": (payload: { sessionId: string; ruleId: string; timestamp: string }) => void
+    "proximity-alert": (alert: ProximityAlert) => void
+    // To the session's staff; "worker-active" repeats the alert with the time it cleared
+    "worker-inactive": (alert: InactivityAlert) => void
+    "worker-active": (alert: InactivityAlert) => void
+    "geofence-updated": (zone: Sequenced<Geofence>) => void
+    "geofence-deleted": (payload: Sequenced<{ sessionId: string; zoneId: string; timestamp: string }>) => void
+    "geofence-enter": (transition: Sequenced<GeofenceTransition>) => void
+    "geofence-exit": (transition: Sequenced<GeofenceTransition>) => void
+
+    // Replay
+    "replay-state": (state: ReplayState) => void
+
+    // Moderation: the affected participant gets the notice, everyone else the broadcast
+    kicked: (notice: ModerationNotice) => void
+    muted: (notice: ModerationNotice) => void
+    unmuted: (notice: ModerationNotice) => void
+    banned: (notice: ModerationNotice) => void
+    unbanned: (notice: ModerationNotice) => void
+    "role-changed": (notice: ModerationNotice) => void
+    "user-kicked": (payload: Sequenced<ModerationBroadcast>) => void
+    "user-muted": (payload: Sequenced<ModerationBroadcast>) => void
+    "user-unmuted": (payload: Sequenced<ModerationBroadcast>) => void
+    "user-banned": (payload: Sequenced<ModerationBroadcast>) => void
+    "user-unbanned": (payload: Sequenced<ModerationBroadcast>) => void
+    "user-role-changed": (payload: Sequenced<ModerationBroadcast>) => void
+    "moderation-list": (payload: {
+        sessionId: string
+        mutes: Mute[]
+        bans: Ban[]
+        roles: Array<{ accountId: string; role: Role }>
+    }) => void
+}
+
+export type ServerEvent = keyof ServerToClientEvents
+export type ServerEventPayload<E extends ServerEvent> = Parameters<ServerToClientEvents[E]>[0]
+// Events broadcast to a session through the journal, whose payloads carry its sequence number
+export type SequencedEvent = { [E in ServerEvent]: ServerEventPayload<E> extends Sequenced<object> ? E : never }[ServerEvent]
+// Sequenced events whose payloads can carry location data, redacted per recipient role
+export type RedactedEvent = { [E in SequencedEvent]: ServerEventPayload<E> extends RedactableFields ? E : never }[SequencedEvent]
+
+// ---- Client → server events ----
+
+interface ClientEventDefinition {
+    payload?: Schema<any>
+    description: string
+}
+
+/**
+ * Every event a client may emit. Events with an acknowledgement take the callback as their last
+ * argument (see ClientToServerEvents).
+ */
+export const CLIENT_EVENTS = {
+    "join-tracking": { payload: payloads.joinTracking, description: "Join or resume a tracking session" },
+    "users-list": { description: "Request the participant list" },
+    "location-update": { payload: payloads.locationUpdate, description: "Report the current position" },
+    "location-batch": { payload: payloads.locationBatch, description: "Upload fixes collected while offline" },
+    "typing-start": { description: "Start the typing indicator" },
+    "typing-stop": { description: "Stop the typing indicator" },
+    "send-message": { payload: payloads.sendMessage, description: "Post a chat message" },
+    "edit-message": { payload: payloads.editMessage, description: "Edit a chat message" },
+    "delete-message": { payload: payloads.deleteMessage, description: "Delete a chat message" },
+    "message-reaction": { payload: payloads.messageReaction, description: "Add or remove a reaction" },
+    "status-update": { payload: payloads.statusUpdate, description: "Change the participant status" },
+    "presence-update": { payload: payloads.presenceUpdate, description: "Report client activity" },
+    "messages-history": { payload: payloads.messagesHistory, description: "Load a page of message history" },
+    "geofences-list": { description: "List the session's geofences" },
+    "geofence-define": { payload: payloads.geofenceDefine, description: "Create or replace a geofence" },
+    "geofence-delete": { payload: payloads.geofenceDelete, description: "Delete a geofence" },
+    "sharing-pause": { description: "Stop sharing and recording the own location, staying present" },
+    "sharing-resume": { description: "Share the own location again" },
+    "privacy-zones": { description: "List the own privacy zones" },
+    "privacy-zone-set": { payload: payloads.privacyZoneSet, description: "Create or replace a privacy zone" },
+    "privacy-zone-delete": { payload: payloads.privacyZoneDelete, description: "Delete a privacy zone" },
+    "task-create": { payload: payloads.taskCreate, description: "Create a task and assign it" },
+    "task-assign": { payload: payloads.taskAssign, description: "Replace a task's assignees" },
+    "task-update": { payload: payloads.taskUpdate, description: "Change a task's details or status" },
+    "tasks-list": { payload: payloads.tasksList, description: "List the session's tasks" },
+    "nearest-users": { payload: payloads.nearestUsers, description: "Find the participants closest to a point" },
+    "proximity-rules": { description: "List the session's proximity rules" },
+    "proximity-rule-set": { payload: payloads.proximityRuleSet, description: "Create or replace a proximity rule" },
+    "proximity-rule-delete": { payload: payloads.proximityRuleDelete, description: "Delete a proximity rule" },
+    "sos-alert": { payload: payloads.sosAlert, description: "Raise an emergency alert with the current position" },
+    "sos-ack": { payload: payloads.sosAck, description: "Acknowledge an emergency alert" },
+    "sos-resolve": { payload: payloads.sosResolve, description: "Resolve an emergency alert with notes" },
+    "replay-start": { payload: payloads.replayStart, description: "Start replaying a session window" },
+    "replay-pause": { description: "Pause the replay" },
+    "replay-resume": { description: "Resume the replay" },
+    "replay-seek": { payload: payloads.replaySeek, description: "Jump to a position in the replay" },
+    "replay-speed": { payload: payloads.replaySpeed, description: "Change the replay speed" },
+    "replay-stop": { description: "Stop the replay" },
+    ping: { payload: payloads.ping, description: "Measure latency" },
+    pong: { payload: payloads.ping, description: "Answer a server ping" },
+    "sync-since": { payload: payloads.syncSince, description: "Fetch session events after a sequence number" },
+    "reconnect-request": { payload: payloads.reconnectRequest, description: "Resume after a reconnect" },
+    "moderation-kick": { payload: payloads.moderationKick, description: "Remove a user from the session" },
+    "moderation-mute": { payload: payloads.moderationMute, description: "Mute a user for a number of minutes" },
+    "moderation-unmute": { payload: payloads.moderationTarget, description: "Lift a mute" },
+    "moderation-ban": { payload: payloads.moderationKick, description: "Ban an identity from the session" },
+    "moderation-unban": { payload: payloads.moderationTarget, description: "Lift a ban" },
+    "moderation-role": { payload: payloads.moderationRole, description: "Change a user's role in the session" },
+    "moderation-list": { description: "List active mutes, bans and role grants" },
+    "join-requests": { description: "List pending join requests" },
+    "approve-join": { payload: payloads.approveJoin, description: "Admit a pending participant, optionally with a role" },
+    "deny-join": { payload: payloads.denyJoin, description: "Turn a pending participant away" },
+} satisfies Record<string, ClientEventDefinition>
+
+export type ClientEvent = keyof typeof CLIENT_EVENTS
+
+type PayloadOf<E extends ClientEvent> = (typeof CLIENT_EVENTS)[E] extends { payload: Schema<infer P> } ? P : never
+
+type Handler<E extends ClientEvent> = [PayloadOf<E>] extends [never] ? () => void : (payload: PayloadOf<E>) => void
+
+type AckHandler<E extends ClientEvent, A> = (payload: PayloadOf<E>, ack?: (response: A) => void) => void
+
+export type ClientToServerEvents = { [E in Exclude<ClientEvent, "send-message" | "location-batch" | "sync-since">]: Handler<E> } & {
+    "send-message": AckHandler<"send-message", SendMessageAck>
+    "location-batch": AckHandler<"location-batch", LocationBatchResult | SocketError>
+    "sync-since": AckHandler<"sync-since", JournalPage | SocketError>
+}
+
+// Only the adapter talks between nodes
+export type InterServerEvents = Record<string, never>
+
+export interface SocketData {
+    auth: TokenClaims
+}
+
+export type TrackingServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+export type TrackingSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+
+/**
+ * Validates an inbound event's payload (the first argument) against the contract. Events without
+ * a payload schema ignore their arguments. The parsed payload replaces the raw one.
+ */
+export const validateClientEvent = (
+    event: string,
+    args: unknown[],
+): { ok: true; args: unknown[] } | { ok: false; error: SocketError } => {
+    const definition: ClientEventDefinition | undefined = CLIENT_EVENTS[event as ClientEvent]
+    if (!definition?.payload) return { ok: true, args }
+
+    // An acknowledgement callback sent without a payload is not the payload
+    const [raw, ...rest] = typeof args[0] === "function" ? [undefined, ...args] : args
+    try {
+        return { ok: true, args: [definition.payload.parse(raw), ...rest] }
+    } catch (error) {
+        if (error instanceof SchemaValidationError) {
+            return { ok: false, error: { message: error.message, code: error.code || "INVALID_PAYLOAD", field: error.field } }
+        }
+        throw error
+    }
+}
+
+/**
+ * The client → server contract as a JSON Schema document: one definition per event payload.
+ */
+export const clientEventsJsonSchema = (): JsonSchema =>
+    compactJsonSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $id: "urn:carpentary:socket-events",
+        title: "Client to server socket events",
+        description: "Payload of each event a client may emit. Events without a payload definition take no arguments.",
+        $defs: Object.fromEntries(
+            Object.entries(CLIENT_EVENTS).map(([event, definition]) => [
+                event,
+                {
+                    description: definition.description,
+                    ...("payload" in definition ? definition.payload.jsonSchema : { not: {} }),
+                },
+            ]),
+        ),
+    })
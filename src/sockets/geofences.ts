@@ -0,0 +1,86 @@
+import { geofenceService } from "../services"
+import { GeofenceValidationError, type GeofenceTransition } from "../services/geofences"
+import type { SocketContext } from "./context"
+import type { TrackingSocket } from "./contract"
+
+/**
+ * Relays geofence service events to the affected session rooms.
+ */
+export const relayGeofenceEvents = (ctx: SocketContext): void => {
+    geofenceService.events.on("zone-updated", (zone) => {
+        ctx.broadcast(zone.sessionId, "geofence-updated", zone)
+    })
+
+    geofenceService.events.on("zone-deleted", ({ sessionId, zoneId }) => {
+        ctx.broadcast(sessionId, "geofence-deleted", {
+            sessionId,
+            zoneId,
+            timestamp: ctx.getCurrentTimestamp(),
+        })
+    })
+
+    geofenceService.events.on("transition", (transition: GeofenceTransition) => {
+        ctx.emitRedacted(transition.sessionId, `geofence-${transition.type}` as const, transition, {
+            userId: transition.userId,
+            include: true,
+        })
+    })
+}
+
+export const registerGeofenceHandlers = (socket: TrackingSocket, ctx: SocketContext): void => {
+    socket.on("geofences-list", () => {
+        try {
+            const user = ctx.getUser(socket.id)
+            if (!user) {
+                socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                return
+            }
+
+            socket.emit("geofences-list", {
+                sessionId: user.sessionId,
+                geofences: geofenceService.list(user.sessionId),
+            })
+        } catch (error) {
+            console.error("❌ Error in geofences-list:", error)
+            socket.emit("error", { message: "Failed to list geofences", code: "GEOFENCE_ERROR" })
+        }
+    })
+
+    // Create a zone, or replace an existing one when `id` is given
+    socket.on("geofence-define", (data) => {
+        try {
+            const user = ctx.getUser(socket.id)
+            if (!user) {
+                socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                return
+            }
+
+            const zone = geofenceService.upsert(user.sessionId, data, user.accountId, data.id)
+            console.log(`📍 ${user.name} defined geofence "${zone.name}" in session: ${user.sessionId}`)
+        } catch (error) {
+            if (error instanceof GeofenceValidationError) {
+                socket.emit("error", { message: error.message, code: error.code, field: error.field })
+                return
+            }
+            console.error("❌ Error in geofence-define:", error)
+            socket.emit("error", { message: "Failed to define geofence", code: "GEOFENCE_ERROR" })
+        }
+    })
+
+    socket.on("geofence-delete", (data) => {
+        try {
+            const user = ctx.getUser(socket.id)
+            if (!user) {
+                socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                return
+            }
+
+            if (!geofenceService.remove(user.sessionId, data.zoneId, user.accountId)) {
+                socket.emit("error", { message: "Geofence not found", code: "GEOFENCE_NOT_FOUND" })
+            }
+        } catch (error) {
+            console.error("❌ Error in geofence-delete:", error)
+            socket.emit("error", { message: "Failed to delete geofence", code: "GEOFENCE_ERROR" })
+        }
+    })
+}
@@ -1,43 +1,78 @@
+import { randomBytes, randomUUID } from "crypto"
 import type { Server as HttpServer } from "http"
-import { Server, type Socket } from "socket.io"
-
-interface User {
-    id: string
-    name: string
-    role: "admin" | "moderator" | "worker" | "new"
-    sessionId: string
-    joinedAt: string
-    lastSeen: string
-    status: "online" | "away" | "offline"
-    location: any
-    accuracy?: number
-    speed?: number
-    heading?: number
-    trail: Array<{
-        latitude: number
-        longitude: number
-        timestamp: string
-    }>
-    isTyping: boolean
-    connectionHealth?: any
-}
-
-interface ConnectionHealth {
-    connectedAt: number
-    lastPing: number
-    pingCount: number
-    reconnectCount: number
-    isHealthy: boolean
-    latency?: number
-}
+import { Server } from "socket.io"
+import { authenticateSocket } from "../auth/middleware"
+import { canModifyMessage, canPerform, forbiddenError, isStaff, redactForViewer } from "../auth/permissions"
+import type { TokenClaims } from "../auth/token"
+import { config } from "../config"
+import { pubsub, socketAdapter, stateStore } from "../scaling"
+import {
+    geofenceService,
+    gpsFilter,
+    inviteService,
+    moderationService,
+    privacyService,
+    proximityService,
+    sessionJournal,
+    sessionService,
+    socketRateLimiter,
+    taskService,
+    watchdog,
+} from "../services"
+import { auditParty, recordAudit } from "../services/audit"
+import type { GpsFix, GpsRejectReason } from "../services/gpsFilter"
+import { InviteError, type JoinResolution } from "../services/invites"
+import type { JournalEntry, JournalSince } from "../services/sessionJournal"
+import { SessionError } from "../services/sessions"
+import { addTravel, estimateArrival } from "../services/travel"
+import { activityStore, locationStore, messageStore } from "../stores"
+import type { ActivityType } from "../stores/activity"
+import { CursorNotFoundError, type MessageQuery } from "../stores/messages"
+import { ROLES, type ChatMessage, type ConnectionHealth, type Role, type SharingState, type TrackingSession, type User } from "../types"
+import type { Coordinates } from "../utils/geo"
+import { parseTime } from "../utils/time"
+import { registerAlertHandlers, relayAlertEvents, sendOpenAlerts } from "./alerts"
+import type { SocketContext } from "./context"
+import {
+    parseLocationFix,
+    validateClientEvent,
+    type ClientToServerEvents,
+    type InterServerEvents,
+    type JoinTrackingPayload,
+    type JournalPage,
+    type LocationBatchResult,
+    type LocationFix,
+    type RedactedEvent,
+    type SendMessageAck,
+    type SequencedEvent,
+    type ServerEvent,
+    type ServerEventPayload,
+    type ServerToClientEvents,
+    type SocketData,
+    type SocketError,
+    type TrackingServer,
+    type TrackingSocket,
+} from "./contract"
+import { registerGeofenceHandlers, relayGeofenceEvents } from "./geofences"
+import { registerJoinRequestHandlers, relayJoinRequestEvents } from "./joinRequests"
+import { registerModerationHandlers, relayModerationEvents } from "./moderation"
+import { registerPrivacyHandlers, relayPrivacyEvents } from "./privacy"
+import { registerProximityHandlers, relayProximityEvents } from "./proximity"
+import { registerReplayHandlers } from "./replay"
+import { relaySessionEvents } from "./sessions"
+import { registerTaskHandlers, relayTaskEvents, taskActor } from "./tasks"
+import { relayWatchdogEvents } from "./watchdog"
+
+// Every server event takes its payload as the only argument; this is the one place that is relied on
+const eventArgs = <E extends ServerEvent>(payload: ServerEventPayload<E>) => [payload] as Parameters<ServerToClientEvents[E]>
 
 /**
  * Initializes a Socket.IO server with enhanced stability for Render deployment.
  * @param {HttpServer} server - The HTTP server to attach the Socket.IO server to.
- * @returns {Server} The initialized Socket.IO server.
+ * @returns {TrackingServer} The initialized Socket.IO server.
  */
-export const initSocket = (server: HttpServer): Server => {
-    const io = new Server(server, {
+export const initSocket = (server: HttpServer): TrackingServer => {
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(server, {
         cors: {
             origin: [
                 "http://localhost:3000",
@@ -77,6 +112,9 @@ export const initSocket = (server: HttpServer): Server => {
         path: "/socket.io/",
         connectTimeout: 45000,
 
+        // Room broadcasts reach sockets on every server instance
+        adapter: socketAdapter,
+
         // Engine.IO specific settings for Render
         allowRequest: (req: import("http").IncomingMessage, callback: (err: any, success: boolean) => void) => {
             // Add custom validation if needed
@@ -84,19 +122,411 @@ export const initSocket = (server: HttpServer): Server => {
         }
     })
 
-    // Enhanced data storage with cleanup mechanisms
-    const connectedUsers = new Map<string, User>()
-    const trackingSessions = new Map<string, Set<string>>()
+    // Every connection must present a valid signed token
+    io.use(authenticateSocket)
+
+    // Enhanced data storage with cleanup mechanisms.
+    // Participants, session membership, message buffers and presence live in the shared state store,
+    // keyed by stable user id; the maps below only track this node's sockets and timers.
+    const socketUsers = new Map<string, string>() // socketId → user id
     const typingUsers = new Map<string, NodeJS.Timeout>()
-    const connectionHealth = new Map<string, ConnectionHealth>()
-    const messageBuffer = new Map<string, any[]>() // Buffer messages for reconnection
+    const connectionHealth = new Map<string, ConnectionHealth>() // per socket
+    const departures = new Map<string, NodeJS.Timeout>() // user id → removal pending after disconnect
 
     // Utility functions
     const generateUserId = (): string => Math.random().toString(36).substr(2, 9)
     const getCurrentTimestamp = (): string => new Date().toISOString()
+    // Use the client's fix time when it is plausible, otherwise the server's receive time
+    const resolveFixTimestamp = (value: unknown): string => {
+        const time = typeof value === "number" || typeof value === "string" ? new Date(value).getTime() : NaN
+        if (Number.isNaN(time) || time > Date.now() + config.locations.maxClockSkewMs) {
+            return getCurrentTimestamp()
+        }
+        return new Date(time).toISOString()
+    }
+
+    const roleRoom = (sessionId: string, role: Role): string => `tracking-${sessionId}-role-${role}`
+    const userRoom = (userId: string): string => `user-${userId}`
+
+    const getSocketUser = (socketId: string): User | undefined => {
+        const userId = socketUsers.get(socketId)
+        return userId ? stateStore.getUser(userId) : undefined
+    }
+
+    // Broadcast a payload that carries location data, shaped per recipient role.
+    // The subject (whose data it is) is either skipped or sent the unredacted payload.
+    // Resolves with the event's sequence number, or null if it could not be sent.
+    const emitRedacted = async <E extends RedactedEvent>(
+        sessionId: string,
+        event: E,
+        payload: ServerEventPayload<E>,
+        subject?: { userId: string; include: boolean },
+    ): Promise<number | null> => {
+        try {
+            const { seq } = await sessionJournal.record(sessionId, { event, payload, redact: true, subject })
+            const stamped: ServerEventPayload<E> = { ...payload, seq }
+            const emit = (target: ReturnType<typeof io.to>, body: ServerEventPayload<E>) => target.emit(event, ...eventArgs(body))
+
+            ROLES.forEach((role) => {
+                const target = subject
+                    ? io.to(roleRoom(sessionId, role)).except(userRoom(subject.userId))
+                    : io.to(roleRoom(sessionId, role))
+                emit(target, redactForViewer(stamped, role))
+            })
+
+            if (subject?.include) {
+                emit(io.to(userRoom(subject.userId)), stamped)
+            }
+            return seq
+        } catch (error) {
+            console.error(`❌ Failed to broadcast ${event}:`, error)
+            return null
+        }
+    }
+
+    // Broadcast a payload without location data to the whole session, optionally skipping one participant
+    const broadcast = async <E extends SequencedEvent>(
+        sessionId: string,
+        event: E,
+        payload: ServerEventPayload<E>,
+        exceptUserId?: string,
+    ): Promise<number | null> => {
+        try {
+            const subject = exceptUserId ? { userId: exceptUserId, include: false } : undefined
+            const { seq } = await sessionJournal.record(sessionId, { event, payload, redact: false, subject })
+            const target = exceptUserId
+                ? io.to(`tracking-${sessionId}`).except(userRoom(exceptUserId))
+                : io.to(`tracking-${sessionId}`)
+            target.emit(event, ...eventArgs<E>({ ...payload, seq }))
+            return seq
+        } catch (error) {
+            console.error(`❌ Failed to broadcast ${event}:`, error)
+            return null
+        }
+    }
+
+    // A journal entry as the given participant would have received it live, or null if it was not sent to them
+    const journalEntryFor = (entry: JournalEntry, viewer: User): { seq: number; event: string; payload: any } | null => {
+        const payload = { ...entry.payload, seq: entry.seq }
+        if (entry.subject?.userId === viewer.id) {
+            return entry.subject.include ? { seq: entry.seq, event: entry.event, payload } : null
+        }
+        return { seq: entry.seq, event: entry.event, payload: entry.redact ? redactForViewer(payload, viewer.role) : payload }
+    }
+
+    const getRoomUsersFor = (viewer: User): User[] =>
+        stateStore
+            .listUsers(viewer.sessionId)
+            .map((u) => (u.id === viewer.id ? u : redactForViewer(u, viewer.role)))
+
+    // Run one fix through quality filtering, then record it in the trail and location history
+    const ingestFix = (
+        user: User,
+        fix: { location: Coordinates; accuracy?: number | null; speed?: number | null; heading?: number | null; timestamp: string },
+        baseline?: GpsFix | null,
+    ):
+        | { accepted: true; location: Coordinates & Record<string, any>; latest: boolean }
+        | { accepted: false; reason: GpsRejectReason; flagged: boolean; impliedSpeedMps: number | null } => {
+        const accuracy = fix.accuracy ?? null
+        const record = (latitude: number, longitude: number, flagged?: "LOW_ACCURACY" | "IMPLAUSIBLE_SPEED") =>
+            locationStore
+                .append({
+                    sessionId: user.sessionId,
+                    accountId: user.accountId,
+                    userId: user.id,
+                    userName: user.name,
+                    latitude,
+                    longitude,
+                    accuracy,
+                    speed: fix.speed ?? null,
+                    heading: fix.heading ?? null,
+                    timestamp: fix.timestamp,
+                    receivedAt: getCurrentTimestamp(),
+                    ...(flagged ? { flagged } : {}),
+                })
+                .catch((error) => console.error("❌ Failed to record location:", error))
+
+        // Quality filtering before the point is accepted
+        const quality = gpsFilter.process(
+            user.sessionId,
+            user.accountId,
+            { latitude: fix.location.latitude, longitude: fix.location.longitude, accuracy, timestamp: fix.timestamp },
+            baseline,
+        )
+
+        if (!quality.accepted) {
+            // Duplicates and stationary jitter are suppressed quietly; bad fixes are flagged
+            const flagged = quality.reason === "LOW_ACCURACY" || quality.reason === "IMPLAUSIBLE_SPEED"
+            if (flagged) {
+                record(fix.location.latitude, fix.location.longitude, quality.reason as "LOW_ACCURACY" | "IMPLAUSIBLE_SPEED")
+            }
+            return { accepted: false, reason: quality.reason!, flagged, impliedSpeedMps: quality.impliedSpeedMps }
+        }
+
+        const location = { ...fix.location, latitude: quality.latitude, longitude: quality.longitude }
+
+        // Add to trail with optimization, keeping late fixes in timestamp order
+        const trailPoint = { latitude: location.latitude, longitude: location.longitude, timestamp: fix.timestamp }
+        user.trail.push(trailPoint)
+        const previous = user.trail[user.trail.length - 2]
+        if (previous && previous.timestamp > trailPoint.timestamp) {
+            user.trail.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        }
+
+        // Keep only last 30 trail points to reduce memory usage
+        if (user.trail.length > 30) {
+            user.trail = user.trail.slice(-30)
+        }
+        user.distance = addTravel(user.distance, user.trail, trailPoint)
+
+        record(location.latitude, location.longitude)
+        return { accepted: true, location, latest: quality.latest }
+    }
+
+    const evaluateGeofences = (user: User, location: Coordinates, fix: { accuracy?: number | null; timestamp: string }): void => {
+        geofenceService.evaluate(
+            user.sessionId,
+            { accountId: user.accountId, userId: user.id, userName: user.name, role: user.role },
+            {
+                latitude: location.latitude,
+                longitude: location.longitude,
+                accuracy: fix.accuracy ?? null,
+                timestamp: fix.timestamp,
+            },
+        )
+    }
+
+    // A sign of life that leaves what the room sees unchanged; stored so every node sees it
+    const touchUser = (user: User): User => {
+        const updated = { ...user, lastSeen: getCurrentTimestamp() }
+        stateStore.setUser(updated)
+        return updated
+    }
+
+    // Store the user's current position and broadcast it to the session. Unless sharing is live,
+    // only the sharing state goes out and the stored position is cleared with it.
+    const publishLocation = (
+        user: User,
+        fix: { location?: Coordinates | null; accuracy?: number | null; speed?: number | null; heading?: number | null },
+        timestamp: string,
+        sharing: SharingState = "live",
+    ): void => {
+        const shared = sharing === "live" ? fix : { location: null, accuracy: null, speed: null, heading: null }
+
+        // Update user location data
+        const updatedUser: User = {
+            ...user,
+            location: shared.location ?? null,
+            sharing,
+            accuracy: shared.accuracy,
+            speed: shared.speed,
+            heading: shared.heading,
+            lastSeen: getCurrentTimestamp(),
+            status: "online",
+            trail: user.trail,
+        }
+        const task = taskService.current(user.sessionId, user.accountId)
+        updatedUser.eta = task ? estimateArrival(updatedUser, task.site.location, task.id) : null
+
+        stateStore.setUser(updatedUser)
+        proximityService.track(updatedUser)
+
+        // Broadcast location update to others in the same session
+        const updatePayload = {
+            userId: user.id,
+            location: shared.location ?? null,
+            sharing,
+            accuracy: shared.accuracy,
+            speed: shared.speed,
+            heading: shared.heading,
+            timestamp,
+        }
+
+        emitRedacted(user.sessionId, "location-update", updatePayload, { userId: user.id, include: false })
+
+        // Update user in users list for all users in session
+        emitRedacted(user.sessionId, "user-updated", updatedUser, { userId: user.id, include: true })
+    }
+
+    const postMessage = async (message: ChatMessage): Promise<number | null> => {
+        await messageStore.append(message)
+
+        // Broadcast message to all users in the session
+        const seq = await emitRedacted(message.sessionId, "new-message", message, { userId: message.userId, include: true })
+
+        // Buffer message for participants that are disconnected but still within their reconnection grace period
+        const online = new Set(stateStore.sessionMembers(message.sessionId))
+        stateStore.listUsers(message.sessionId).forEach((participant) => {
+            if (online.has(participant.id)) return
+            stateStore.bufferMessage(participant.id, { ...redactForViewer(message, participant.role), seq })
+        })
+        return seq
+    }
+
+    // Append to the activity log that timesheets are derived from
+    const recordActivity = (user: User, type: ActivityType, data?: Record<string, any>): void => {
+        activityStore
+            .record({
+                sessionId: user.sessionId,
+                type,
+                accountId: user.accountId,
+                userId: user.id,
+                userName: user.name,
+                role: user.role,
+                timestamp: getCurrentTimestamp(),
+                ...(data ? { data } : {}),
+            })
+            .catch((error) => console.error("❌ Failed to record activity:", error))
+    }
+
+    const journalPageFor = (viewer: User, since: number, journal: JournalSince): JournalPage => ({
+        since,
+        latestSeq: journal.latestSeq,
+        complete: journal.complete,
+        events: journal.entries.flatMap((entry) => journalEntryFor(entry, viewer) ?? []),
+    })
+
+    // Resume tokens are single-use: issuing a new one revokes the participant's previous token
+    const issueResumeToken = (userId: string): string => {
+        stateStore.revokeResumeTokens(userId)
+        const token = randomBytes(24).toString("base64url")
+        stateStore.setResumeToken(token, userId)
+        return token
+    }
+
+    // A retained participant the token belongs to, provided it matches the caller's identity and session
+    const resolveResumeToken = (token: string | undefined, auth: TokenClaims, sessionId: string): User | undefined => {
+        if (!token) return undefined
+        const userId = stateStore.resolveResumeToken(token)
+        const user = userId ? stateStore.getUser(userId) : undefined
+        return user && user.accountId === auth.sub && user.sessionId === sessionId ? user : undefined
+    }
+
+    const attachSocket = (socket: TrackingSocket, user: User): void => {
+        socketUsers.set(socket.id, user.id)
+        stateStore.addSessionMember(user.sessionId, user.id)
+        stateStore.setPresence(user.id, { nodeId: pubsub.nodeId, socketId: socket.id, since: getCurrentTimestamp() })
+        socket.join([`tracking-${user.sessionId}`, roleRoom(user.sessionId, user.role), userRoom(user.id)])
+        watchdog.watch(user)
+    }
+
+    // Drop a participant once its reconnection grace period is over
+    const removeUser = (userId: string): void => {
+        clearTimeout(departures.get(userId))
+        departures.delete(userId)
+        clearTimeout(typingUsers.get(userId))
+        typingUsers.delete(userId)
+        stateStore.deleteUser(userId)
+        stateStore.revokeResumeTokens(userId)
+        watchdog.unwatch(userId)
+        proximityService.untrack(userId)
+    }
+
+    const ctx: SocketContext = {
+        io,
+        getUser: getSocketUser,
+        getCurrentTimestamp,
+        emitRedacted,
+        broadcast,
+        roleRoom,
+        userRoom,
+        removeUser,
+        publishLocation,
+        postMessage,
+    }
+
+    relayGeofenceEvents(ctx)
+    relayModerationEvents(ctx)
+    relaySessionEvents(ctx)
+    relayJoinRequestEvents(ctx)
+    relayPrivacyEvents(ctx)
+    relayAlertEvents(ctx)
+    relayWatchdogEvents(ctx)
+    relayProximityEvents(ctx)
+    relayTaskEvents(ctx)
+
+    /**
+     * Reattaches a retained participant (same id, trail and typing state) to a new socket and
+     * replays the session events it missed after `lastSeq`.
+     */
+    const resumeUser = async (socket: TrackingSocket, user: User, lastSeq: number | undefined): Promise<User> => {
+        clearTimeout(departures.get(user.id))
+        departures.delete(user.id)
+
+        // The new socket takes over from one the server has not yet noticed is gone, on any node
+        const previous = stateStore.getPresence(user.id)
+
+        const health = connectionHealth.get(socket.id)
+        if (health && user.connectionHealth) {
+            health.reconnectCount = user.connectionHealth.reconnectCount + 1
+        }
+
+        // Collect what was missed before this resume adds its own events to the journal
+        const missed = lastSeq !== undefined ? sessionJournal.since(user.sessionId, lastSeq) : undefined
+
+        const resumed: User = {
+            ...user,
+            status: "online",
+            lastSeen: getCurrentTimestamp(),
+            connectionHealth: health,
+        }
+
+        stateStore.setUser(resumed)
+        attachSocket(socket, resumed)
+        if (previous && previous.socketId !== socket.id) {
+            io.in(previous.socketId).disconnectSockets(true)
+        }
+        recordActivity(resumed, "join", { resumed: true })
+        recordAudit({
+            type: "join",
+            sessionId: resumed.sessionId,
+            actor: auditParty(resumed),
+            target: null,
+            payload: { claimedRole: socket.data.auth.role, role: resumed.role, resumed: true },
+        })
+
+        socket.emit("session-joined", {
+            userId: resumed.id,
+            sessionId: resumed.sessionId,
+            resumeToken: issueResumeToken(resumed.id),
+            latestSeq: sessionJournal.latestSeq(resumed.sessionId),
+            resumed: true,
+        })
+
+        emitRedacted(resumed.sessionId, "user-joined", resumed, { userId: resumed.id, include: false })
+        socket.emit("users-list", getRoomUsersFor(resumed))
+        sendOpenAlerts(socket, resumed)
+
+        if (missed) {
+            socket.emit("missed-events", journalPageFor(resumed, lastSeq!, missed))
+        }
+
+        // Without a usable position in the journal the client reloads the latest history page instead
+        if (!missed?.complete) {
+            await sendMessageHistory(socket, resumed)
+
+            const bufferedMessages = stateStore.bufferedMessages(resumed.id)
+            if (bufferedMessages.length > 0) {
+                socket.emit("buffered-messages", bufferedMessages)
+            }
+        }
+        stateStore.clearBuffer(resumed.id)
+
+        console.log(`🔁 ${resumed.name} resumed tracking session: ${resumed.sessionId}`)
+        return resumed
+    }
+
+    // Load a page of persisted session history and send it to the requesting socket
+    const sendMessageHistory = async (socket: TrackingSocket, viewer: User, query: MessageQuery = {}): Promise<void> => {
+        const page = await messageStore.list(viewer.sessionId, query)
+        socket.emit("messages-history", {
+            ...page,
+            messages: page.messages.map((m) => (m.accountId === viewer.accountId ? m : redactForViewer(m, viewer.role))),
+        })
+    }
 
     // Enhanced connection health monitoring
-    const monitorConnection = (socket: Socket): void => {
+    const monitorConnection = (socket: TrackingSocket): void => {
         const connectionId = socket.id
         const healthData: ConnectionHealth = {
             connectedAt: Date.now(),
@@ -127,13 +557,16 @@ export const initSocket = (server: HttpServer): Server => {
                         health.reconnectCount++
                         connectionHealth.set(connectionId, health)
 
+                        const userId = socketUsers.get(connectionId)
+                        if (userId) watchdog.recordHealth(userId, { latency: null, isHealthy: false })
+
                         // Increase ping frequency for unhealthy connections
                         pingIntervalTime = Math.max(15000, pingIntervalTime - 5000)
                         console.warn(`⚠️ Unhealthy connection detected: ${connectionId}`)
                     }
                 }, 15000) // 15 second timeout
 
-                socket.once("pong", (data: any) => {
+                socket.once("pong", () => {
                     clearTimeout(timeout)
                     const health = connectionHealth.get(connectionId)
                     if (health) {
@@ -143,6 +576,8 @@ export const initSocket = (server: HttpServer): Server => {
                         health.isHealthy = true
                         health.latency = latency
                         connectionHealth.set(connectionId, health)
+                        const userId = socketUsers.get(connectionId)
+                        if (userId) watchdog.recordHealth(userId, { latency, isHealthy: true })
 
                         // Adjust ping frequency based on latency
                         if (latency < 100) {
@@ -163,22 +598,29 @@ export const initSocket = (server: HttpServer): Server => {
     }
 
     // Enhanced graceful shutdown with connection preservation
-    const gracefulShutdown = (): void => {
+    const gracefulShutdown = (reason: string): void => {
         console.log("🔄 Graceful shutdown initiated...")
 
-        // Save current state for quick recovery
-        const serverState = {
-            users: Array.from(connectedUsers.entries()),
-            sessions: Array.from(trackingSessions.entries()),
-            timestamp: getCurrentTimestamp(),
-        }
+        recordAudit({
+            type: "shutdown",
+            sessionId: null,
+            actor: null,
+            target: null,
+            payload: { reason, nodeId: pubsub.nodeId, users: stateStore.listUsers().length, sessions: stateStore.sessionIds().length },
+        })
 
-        // Notify all clients about server shutdown with recovery info
-        io.emit("server-shutdown", {
-            message: "Server is restarting, please reconnect in a moment",
-            timestamp: getCurrentTimestamp(),
-            recoveryData: serverState,
-            expectedDowntime: 30000, // 30 seconds
+        // Notify clients about the shutdown; participants get their own session's users for quick
+        // recovery, shaped for their role like any other users list
+        io.of("/").sockets.forEach((socket) => {
+            const viewer = getSocketUser(socket.id)
+            socket.emit("server-shutdown", {
+                message: "Server is restarting, please reconnect in a moment",
+                timestamp: getCurrentTimestamp(),
+                recoveryData: viewer
+                    ? { sessionId: viewer.sessionId, users: getRoomUsersFor(viewer), timestamp: getCurrentTimestamp() }
+                    : null,
+                expectedDowntime: 30000, // 30 seconds
+            })
         })
 
         // Gracefully close connections
@@ -209,7 +651,7 @@ export const initSocket = (server: HttpServer): Server => {
     signals.forEach((signal) => {
         process.on(signal, () => {
             console.log(`📡 Received ${signal}, initiating graceful shutdown...`)
-            gracefulShutdown()
+            gracefulShutdown(signal)
         })
     })
 
@@ -219,7 +661,7 @@ export const initSocket = (server: HttpServer): Server => {
         // Don't immediately shutdown, try to recover
         setTimeout(() => {
             if (process.listenerCount("uncaughtException") <= 1) {
-                gracefulShutdown()
+                gracefulShutdown("uncaughtException")
             }
         }, 1000)
     })
@@ -239,25 +681,17 @@ export const initSocket = (server: HttpServer): Server => {
         connectionHealth.forEach((health, socketId) => {
             if (now - health.lastPing > staleThreshold) {
                 connectionHealth.delete(socketId)
-                connectedUsers.delete(socketId)
-                typingUsers.delete(socketId)
+                const userId = socketUsers.get(socketId)
+                socketUsers.delete(socketId)
+                if (userId) {
+                    removeUser(userId)
+                }
                 cleanedCount++
             }
         })
 
-        // Clean up empty sessions
-        trackingSessions.forEach((users, sessionId) => {
-            if (users.size === 0) {
-                trackingSessions.delete(sessionId)
-            }
-        })
-
         // Clean up message buffers
-        messageBuffer.forEach((messages, userId) => {
-            if (messages.length > 100) {
-                messageBuffer.set(userId, messages.slice(-50))
-            }
-        })
+        stateStore.trimBuffers(100, 50)
 
         if (cleanedCount > 0) {
             console.log(`🧹 Cleaned up ${cleanedCount} stale connections`)
@@ -272,33 +706,269 @@ export const initSocket = (server: HttpServer): Server => {
     // Run cleanup every 2 minutes
     setInterval(performCleanup, 120000)
 
+    // Join requests awaiting a decision, with the join to finish once approved
+    const pendingJoins = new Map<string, { socketId: string; data: JoinTrackingPayload }>()
+
+    inviteService.events.on("decided", (resolution: JoinResolution) => {
+        const pending = pendingJoins.get(resolution.request.id)
+        if (!pending) return
+        pendingJoins.delete(resolution.request.id)
+
+        const socket = io.sockets.sockets.get(pending.socketId)
+        if (!socket) return
+        if (resolution.decision === "approved") {
+            joinTracking(socket, pending.data)
+        } else if (resolution.decision === "denied" || resolution.reason) {
+            // Requests cancelled with a reason were ended by the session closing, not by the requester
+            socket.emit("join-denied", {
+                requestId: resolution.request.id,
+                sessionId: resolution.request.sessionId,
+                reason: resolution.reason,
+                timestamp: resolution.timestamp,
+            })
+        }
+    })
+
+    /**
+     * The checks every join and every resume pass: the token's session, bans and the session's own
+     * join rules. Resolves with the session, or with why the account was refused.
+     */
+    const guardJoin = async (
+        auth: TokenClaims,
+        sid: string,
+        resuming: boolean,
+    ): Promise<{ session: TrackingSession } | { refusal: { message: string; code: string } }> => {
+        if (auth.sessionId && auth.sessionId !== sid) {
+            return { refusal: { message: "Token is not valid for this session", code: "SESSION_MISMATCH" } }
+        }
+        if (moderationService.getBan(sid, auth.sub)) {
+            return { refusal: { message: "You are banned from this session", code: "BANNED" } }
+        }
+        try {
+            return { session: await sessionService.admit(sid, { accountId: auth.sub, name: auth.name }, resuming) }
+        } catch (error) {
+            if (error instanceof SessionError) return { refusal: { message: error.message, code: error.code } }
+            throw error
+        }
+    }
+
+    // Enhanced user joining with validation
+    const joinTracking = async (socket: TrackingSocket, data: JoinTrackingPayload): Promise<void> => {
+        try {
+            const { sessionId, location, speed, accuracy, heading, resumeToken, lastSeq, inviteCode } = data || {}
+            // Identity and role come from the verified token, never from the payload
+            const auth = socket.data.auth
+            const sid = sessionId || auth.sessionId || config.sessions.defaultId
+
+            // A valid resume token reattaches the retained participant instead of starting over
+            const retained = resolveResumeToken(resumeToken, auth, sid)
+            const guard = await guardJoin(auth, sid, Boolean(retained))
+            if ("refusal" in guard) {
+                socket.emit("error", guard.refusal)
+                return
+            }
+            const { session } = guard
+            if (retained) {
+                const resumed = await resumeUser(socket, retained, lastSeq)
+                io.to(`tracking-${sid}`).emit("user-count", getRoomUsersFor(resumed).length)
+                return
+            }
+
+            // Invite-only and approval sessions decide who gets in; pending joiners wait outside the rooms
+            const access = inviteService.authorize(session, { accountId: auth.sub, name: auth.name, role: auth.role }, {
+                inviteCode,
+                present: stateStore.listUsers(sid).some((user) => user.accountId === auth.sub),
+            })
+            if (!access.admitted) {
+                pendingJoins.set(access.request.id, { socketId: socket.id, data })
+                socket.emit("join-pending", {
+                    requestId: access.request.id,
+                    sessionId: sid,
+                    timestamp: getCurrentTimestamp(),
+                })
+                return
+            }
+
+            const trimmedName = auth.name.trim()
+
+            // 🧠 Remove any existing participant for the same identity (e.g., after refresh)
+            let carriedMessages: ChatMessage[] = []
+            for (const user of stateStore.listUsers(sid)) {
+                if (user.accountId === auth.sub) {
+                    const userId = user.id
+                    carriedMessages = carriedMessages.concat(stateStore.bufferedMessages(userId))
+                    socketUsers.forEach((id, socketId) => {
+                        if (id === userId) socketUsers.delete(socketId)
+                    })
+                    stateStore.removeSessionMember(user.sessionId, userId)
+                    removeUser(userId)
+                    broadcast(user.sessionId, "user-left", {
+                        userId,
+                        userName: user.name,
+                        timestamp: getCurrentTimestamp(),
+                        reason: "replaced",
+                    })
+                    recordActivity(user, "leave", { reason: "replaced" })
+                }
+            }
+
+            // The position sent with the join obeys the same sharing rules as later updates
+            const sharing = privacyService.sharingFor(auth.sub, location ? { ...location, accuracy } : null)
+            const shared = sharing === "live"
+
+            const userData: User = {
+                id: randomUUID(),
+                accountId: auth.sub,
+                name: trimmedName,
+                role: moderationService.roleFor(sid, auth.sub) ?? access.role ?? auth.role,
+                sessionId: sid,
+                joinedAt: getCurrentTimestamp(),
+                lastSeen: getCurrentTimestamp(),
+                status: "online",
+                location: (shared && location) || null,
+                sharing,
+                accuracy: (shared && accuracy) || null,
+                speed: (shared && speed) || null,
+                heading: (shared && heading) || null,
+                trail: [],
+                isTyping: false,
+                connectionHealth: connectionHealth.get(socket.id),
+            }
+
+            stateStore.setUser(userData)
+            attachSocket(socket, userData)
+            proximityService.track(userData)
+            recordActivity(userData, "join")
+            recordAudit({
+                type: "join",
+                sessionId: sid,
+                actor: auditParty(userData),
+                target: null,
+                payload: { claimedRole: auth.role, role: userData.role, resumed: false },
+            })
+
+            socket.emit("session-joined", {
+                userId: userData.id,
+                sessionId: sid,
+                resumeToken: issueResumeToken(userData.id),
+                latestSeq: sessionJournal.latestSeq(sid),
+                resumed: false,
+            })
+
+            emitRedacted(sid, "user-joined", userData, { userId: userData.id, include: false })
+
+            const roomUsers = getRoomUsersFor(userData)
+            socket.emit("users-list", roomUsers)
+            sendOpenAlerts(socket, userData)
+
+            // Latest page of persisted history
+            await sendMessageHistory(socket, userData)
+
+            // Messages that arrived while the replaced participant was disconnected
+            if (carriedMessages.length > 0) {
+                socket.emit("buffered-messages", carriedMessages)
+            }
+
+            io.to(`tracking-${sid}`).emit("user-count", roomUsers.length)
+
+            console.log(`👤 ${trimmedName} rejoined tracking session: ${sid}`)
+        } catch (error) {
+            if (error instanceof InviteError) {
+                socket.emit("error", { message: error.message, code: error.code, field: error.field })
+                return
+            }
+            console.error("❌ Error in join-tracking:", error)
+            socket.emit("error", { message: "Failed to join tracking session", code: "JOIN_ERROR" })
+        }
+    }
+
     // Enhanced connection handling
-    io.on("connection", (socket: Socket) => {
+    io.on("connection", (socket) => {
         console.log(`✅ Client connected: ${socket.id} from ${socket.handshake.address}`)
 
         // Start enhanced connection monitoring
         monitorConnection(socket)
 
+        // Enforce the role policy, per-account event budgets and the payload contract before any handler runs
+        socket.use((packet, next) => {
+            const [event] = packet
+            const auth = socket.data.auth
+            const user = getSocketUser(socket.id)
+            const role: Role = user?.role ?? auth.role
+            if (!canPerform(role, event)) {
+                console.warn(`🚫 ${socket.id} (${role}) attempted forbidden event: ${event}`)
+                socket.emit("error", forbiddenError(event))
+                return
+            }
+
+            // Acknowledged events still get their callback when they are rejected
+            const reject = (error: SocketError): void => {
+                socket.emit("error", error)
+                const ack = packet[packet.length - 1]
+                if (typeof ack === "function") ack({ success: false, ...error })
+            }
+
+            const limit = socketRateLimiter.consume(auth.sub, event)
+            if (!limit.allowed) {
+                reject({ message: `Rate limit exceeded for "${event}"`, code: "RATE_LIMIT", event, retryAfterMs: limit.retryAfterMs })
+
+                // One audit entry per run of rejections, not per dropped event
+                if (!limit.repeated) {
+                    recordAudit({
+                        type: "validation-failure",
+                        sessionId: user?.sessionId ?? null,
+                        actor: user ? auditParty(user) : { accountId: auth.sub, name: auth.name, role: auth.role },
+                        target: null,
+                        payload: { event, code: "RATE_LIMIT", retryAfterMs: limit.retryAfterMs },
+                    })
+                }
+                return
+            }
+
+            const validation = validateClientEvent(event, packet.slice(1))
+            if (!validation.ok) {
+                reject(validation.error)
+                recordAudit({
+                    type: "validation-failure",
+                    sessionId: user?.sessionId ?? null,
+                    actor: user ? auditParty(user) : { accountId: auth.sub, name: auth.name, role: auth.role },
+                    target: null,
+                    payload: { event, code: validation.error.code, field: validation.error.field ?? null, message: validation.error.message },
+                })
+                return
+            }
+            packet.splice(1, packet.length - 1, ...validation.args)
+            next()
+        })
+
         // Send enhanced connection confirmation
         socket.emit("connection-confirmed", {
             socketId: socket.id,
             timestamp: getCurrentTimestamp(),
             serverTime: Date.now(),
             serverVersion: "2.0.0",
-            features: ["typing-indicators", "reactions", "presence", "reconnection"],
+            features: ["typing-indicators", "reactions", "presence", "reconnection", "resume", "moderation", "sessions", "invites", "privacy", "sos", "watchdog", "proximity", "tasks", "eta"],
         })
 
+        registerGeofenceHandlers(socket, ctx)
+        registerReplayHandlers(socket, ctx)
+        registerModerationHandlers(socket, ctx)
+        registerJoinRequestHandlers(socket, ctx)
+        registerPrivacyHandlers(socket, ctx)
+        registerAlertHandlers(socket, ctx)
+        registerProximityHandlers(socket, ctx)
+        registerTaskHandlers(socket, ctx)
+
         // Handle users list requests
         socket.on("users-list", () => {
             try {
-                const user = connectedUsers.get(socket.id)
+                const user = getSocketUser(socket.id)
                 if (!user) {
                     socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
                     return
                 }
 
-                const roomUsers = Array.from(connectedUsers.values()).filter(u => u.sessionId === user.sessionId)
-                socket.emit("users-list", roomUsers)
+                socket.emit("users-list", getRoomUsersFor(user))
             } catch (error) {
                 console.error("❌ Error in users-list:", error)
                 socket.emit("error", { message: "Failed to get users list", code: "USERS_LIST_ERROR" })
@@ -306,205 +976,294 @@ export const initSocket = (server: HttpServer): Server => {
         })
 
         // Enhanced user joining with validation
-        socket.on("join-tracking", (data) => {
-            try {
-                const { name, role, sessionId, location, speed, accuracy, heading } = data
+        socket.on("join-tracking", (data) => joinTracking(socket, data))
 
-                if (!name || typeof name !== "string" || name.trim().length === 0) {
-                    socket.emit("error", { message: "Invalid name provided" })
+        // Paginated message history using message id cursors
+        socket.on("messages-history", async (query) => {
+            try {
+                const user = getSocketUser(socket.id)
+                if (!user) {
+                    socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
                     return
-                };
+                }
 
-                if (!["admin", "moderator", "worker", "new"].includes(role)) {
-                    socket.emit("error", { message: "Invalid role provided" })
+                await sendMessageHistory(socket, user, query)
+            } catch (error) {
+                if (error instanceof CursorNotFoundError) {
+                    socket.emit("error", { message: error.message, code: "INVALID_CURSOR" })
                     return
                 }
+                console.error("❌ Error in messages-history:", error)
+                socket.emit("error", { message: "Failed to load message history", code: "HISTORY_ERROR" })
+            }
+        })
 
-                const trimmedName = name.trim()
-                const sid = sessionId || "tracking-users"
-                const uniqueUserKey = `${trimmedName}_${sid}` // persistent identity across refresh
 
-                // 🧠 Remove any existing user with same unique key (e.g., after refresh)
-                for (const [socketId, user] of connectedUsers.entries()) {
-                    if (`${user.name}_${user.sessionId}` === uniqueUserKey) {
-                        connectedUsers.delete(socketId)
-                        trackingSessions.get(user.sessionId)?.delete(socketId)
-                        io.to(`tracking-${user.sessionId}`).emit("user-left", user)
-                    }
-                }
 
-                const userData: User = {
-                    id: socket.id,
-                    name: trimmedName,
-                    role: role,
-                    sessionId: sid,
-                    joinedAt: getCurrentTimestamp(),
-                    lastSeen: getCurrentTimestamp(),
-                    status: "online",
-                    location: location || null,
-                    accuracy: accuracy || null,
-                    speed: speed || null,
-                    heading: heading || null,
-                    trail: [],
-                    isTyping: false,
-                    connectionHealth: connectionHealth.get(socket.id),
+        // Location updates; their rate is capped by the event budget in the guard above
+        socket.on("location-update", (locationData) => {
+            try {
+                const user = getSocketUser(socket.id)
+                if (!user) {
+                    socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                    return
                 }
 
-                connectedUsers.set(socket.id, userData)
-
-                if (!trackingSessions.has(sid)) {
-                    trackingSessions.set(sid, new Set())
+                // Any report is a sign of life, even one that is filtered out or kept private
+                watchdog.recordSignal(user.id)
+                const timestamp = resolveFixTimestamp(locationData.timestamp)
+
+                // Paused or inside a privacy zone: nothing is recorded, the room only learns the state
+                const { location, accuracy } = locationData
+                const sharing = privacyService.sharingFor(user.accountId, location ? { ...location, accuracy } : null)
+                if (sharing !== "live") {
+                    if (sharing === user.sharing) {
+                        touchUser(user)
+                    } else {
+                        publishLocation(user, {}, getCurrentTimestamp(), sharing)
+                    }
+                    return
                 }
-                trackingSessions.get(sid)!.add(socket.id)
 
-                socket.join(`tracking-${sid}`)
-                socket.to(`tracking-${sid}`).emit("user-joined", userData)
-
-                const roomUsers = Array.from(connectedUsers.values()).filter(u => u.sessionId === sid)
-                socket.emit("users-list", roomUsers)
+                if (!locationData.location) {
+                    publishLocation(user, locationData, getCurrentTimestamp())
+                    return
+                }
 
-                const bufferedMessages = messageBuffer.get(socket.id) || []
-                if (bufferedMessages.length > 0) {
-                    socket.emit("buffered-messages", bufferedMessages)
-                    messageBuffer.delete(socket.id)
+                const fix = { ...locationData, location: locationData.location, timestamp }
+                const outcome = ingestFix(user, fix)
+                if (!outcome.accepted) {
+                    touchUser(user)
+                    if (outcome.flagged) {
+                        socket.emit("location-rejected", {
+                            code: outcome.reason,
+                            message:
+                                outcome.reason === "LOW_ACCURACY"
+                                    ? "Location accuracy is too low"
+                                    : "Location jump is faster than physically plausible",
+                            location: fix.location,
+                            accuracy: fix.accuracy,
+                            impliedSpeedMps: outcome.impliedSpeedMps,
+                            timestamp: fix.timestamp,
+                        })
+                    }
+                    return
                 }
 
-                io.to(`tracking-${sid}`).emit("user-count", roomUsers.length)
+                // A fix dated before the newest one joins the history but is never the current position
+                if (!outcome.latest) {
+                    const updated = touchUser(user)
+                    emitRedacted(user.sessionId, "user-updated", updated, { userId: user.id, include: true })
+                    return
+                }
 
-                console.log(`👤 ${trimmedName} rejoined tracking session: ${sid}`)
+                evaluateGeofences(user, outcome.location, fix)
+                watchdog.recordFix(user.id, { ...fix, location: outcome.location })
+                taskService
+                    .arrive(taskActor(user), user.sessionId, outcome.location)
+                    .catch((error) => console.error("❌ Failed to check task arrival:", error))
+                publishLocation(user, { ...fix, location: outcome.location }, getCurrentTimestamp())
             } catch (error) {
-                console.error("❌ Error in join-tracking:", error)
-                socket.emit("error", { message: "Failed to join tracking session", code: "JOIN_ERROR" })
+                console.error("❌ Error in location-update:", error)
+                socket.emit("error", { message: "Failed to update location", code: "LOCATION_UPDATE_ERROR" })
             }
         })
 
-
-
-        // Enhanced location updates with throttling
-        let lastLocationUpdate = 0
-        const locationUpdateThrottle = 1000 // 1 second minimum between updates
-
-        socket.on("location-update", (locationData) => {
-            try {
-                const now = Date.now()
-                if (now - lastLocationUpdate < locationUpdateThrottle) {
-                    return // Throttle location updates
+        // Fixes collected while offline, merged in timestamp order; only the newest is broadcast
+        socket.on("location-batch", async (batchData, ack) => {
+            const respond = (payload: LocationBatchResult): void => {
+                if (typeof ack === "function") {
+                    ack(payload)
+                } else {
+                    socket.emit("location-batch-ack", payload)
                 }
-                lastLocationUpdate = now
+            }
 
-                const user = connectedUsers.get(socket.id)
+            try {
+                const user = getSocketUser(socket.id)
                 if (!user) {
                     socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
                     return
                 }
 
-                // Validate location data
-                if (locationData.location) {
-                    const { latitude, longitude } = locationData.location
-                    if (
-                        typeof latitude !== "number" ||
-                        typeof longitude !== "number" ||
-                        latitude < -90 ||
-                        latitude > 90 ||
-                        longitude < -180 ||
-                        longitude > 180
-                    ) {
-                        socket.emit("error", { message: "Invalid location coordinates", code: "INVALID_LOCATION" })
-                        return
+                const fixes = Array.isArray(batchData) ? batchData : batchData.fixes
+
+                const now = Date.now()
+                const oldest = now - config.locations.maxBatchAgeHours * 60 * 60 * 1000
+                const rejected: Array<{ index: number; code: string; timestamp?: string }> = []
+                const valid: Array<{ index: number; fix: LocationFix & { timestamp: string }; time: number }> = []
+
+                fixes.forEach((raw, index) => {
+                    const fix = parseLocationFix(raw)
+                    const time = parseTime(fix?.timestamp, NaN)
+                    if (!fix) {
+                        rejected.push({ index, code: "INVALID_LOCATION" })
+                    } else if (Number.isNaN(time) || time > now + config.locations.maxClockSkewMs || time < oldest) {
+                        rejected.push({ index, code: "INVALID_TIMESTAMP" })
+                    } else {
+                        valid.push({ index, fix: { ...fix, timestamp: new Date(time).toISOString() }, time })
+                    }
+                })
+
+                // Deduplicate by client timestamp, within the batch and against recorded history
+                valid.sort((a, b) => a.time - b.time)
+                const recorded = valid.length
+                    ? await locationStore.list(user.sessionId, {
+                        accountId: user.accountId,
+                        from: oldest,
+                        to: valid[valid.length - 1].time,
+                        includeFlagged: true,
+                    })
+                    : []
+                const seen = new Set(recorded.map((point) => new Date(point.timestamp).getTime()))
+
+                // Each fix is judged against the accepted fix just before it, from history or the batch,
+                // rather than against the newest live fix
+                const history = recorded.filter((point) => !point.flagged)
+                let historyIndex = 0
+                let baseline: GpsFix | null = null
+                const advanceBaseline = (time: number): void => {
+                    while (historyIndex < history.length && new Date(history[historyIndex].timestamp).getTime() < time) {
+                        const point = history[historyIndex++]
+                        if (!baseline || point.timestamp > baseline.timestamp) baseline = point
                     }
                 }
 
-                // Add to trail with optimization
-                if (locationData.location) {
-                    const trailPoint = {
-                        latitude: locationData.location.latitude,
-                        longitude: locationData.location.longitude,
-                        timestamp: getCurrentTimestamp(),
+                const latestBefore = user.trail[user.trail.length - 1]?.timestamp
+                let duplicates = 0
+                let accepted = 0
+                let newest: { fix: LocationFix & { timestamp: string }; location: Coordinates | null; sharing: SharingState } | undefined
+
+                valid.forEach(({ index, fix, time }) => {
+                    if (seen.has(time)) {
+                        duplicates++
+                        return
+                    }
+                    seen.add(time)
+                    advanceBaseline(time)
+
+                    // Fixes are neither recorded nor shown while paused or inside a privacy zone
+                    const sharing = privacyService.sharingFor(user.accountId, { ...fix.location, accuracy: fix.accuracy })
+                    if (sharing !== "live") {
+                        rejected.push({ index, code: sharing === "paused" ? "SHARING_PAUSED" : "PRIVATE_ZONE", timestamp: fix.timestamp })
+                        if (sharing === "private-zone" && (!latestBefore || fix.timestamp >= latestBefore)) {
+                            newest = { fix, location: null, sharing }
+                        }
+                        return
                     }
 
-                    user.trail.push(trailPoint)
+                    const outcome = ingestFix(user, fix, baseline)
+                    if (!outcome.accepted) {
+                        if (outcome.reason === "DUPLICATE" || outcome.reason === "STATIONARY") {
+                            duplicates++
+                        } else {
+                            rejected.push({ index, code: outcome.reason, timestamp: fix.timestamp })
+                        }
+                        return
+                    }
 
-                    // Keep only last 30 trail points to reduce memory usage
-                    if (user.trail.length > 30) {
-                        user.trail = user.trail.slice(-30)
+                    accepted++
+                    baseline = { ...outcome.location, accuracy: fix.accuracy ?? null, timestamp: fix.timestamp }
+                    // Only fixes newer than what the room has already seen drive geofences and the live view
+                    if (!latestBefore || fix.timestamp >= latestBefore) {
+                        evaluateGeofences(user, outcome.location, fix)
+                        newest = { fix, location: outcome.location, sharing }
                     }
-                }
+                })
 
-                // Update user location data
-                const updatedUser: User = {
-                    ...user,
-                    location: locationData.location,
-                    accuracy: locationData.accuracy,
-                    speed: locationData.speed,
-                    heading: locationData.heading,
-                    lastSeen: getCurrentTimestamp(),
-                    status: "online",
-                    trail: user.trail,
+                watchdog.recordSignal(user.id)
+                if (newest?.location) {
+                    watchdog.recordFix(user.id, { ...newest.fix, location: newest.location })
+                    taskService
+                        .arrive(taskActor(user), user.sessionId, newest.location)
+                        .catch((error) => console.error("❌ Failed to check task arrival:", error))
+                }
+                if (newest) {
+                    publishLocation(user, { ...newest.fix, location: newest.location }, newest.fix.timestamp, newest.sharing)
+                } else {
+                    const updated = touchUser(user)
+                    // History changed but the live position did not; refresh the trail for the room
+                    if (accepted > 0) emitRedacted(user.sessionId, "user-updated", updated, { userId: user.id, include: true })
                 }
 
-                connectedUsers.set(socket.id, updatedUser)
-
-                // Broadcast location update to others in the same session
-                const updatePayload = {
-                    userId: socket.id,
-                    location: locationData.location,
-                    accuracy: locationData.accuracy,
-                    speed: locationData.speed,
-                    heading: locationData.heading,
-                    timestamp: getCurrentTimestamp(),
+                const invalid = rejected.filter((entry) => entry.code === "INVALID_LOCATION")
+                if (invalid.length > 0) {
+                    recordAudit({
+                        type: "validation-failure",
+                        sessionId: user.sessionId,
+                        actor: auditParty(user),
+                        target: null,
+                        payload: { event: "location-batch", code: "INVALID_LOCATION", indexes: invalid.map((entry) => entry.index) },
+                    })
                 }
 
-                socket.to(`tracking-${user.sessionId}`).emit("location-update", updatePayload)
+                respond({
+                    total: fixes.length,
+                    accepted,
+                    duplicates,
+                    rejected,
+                    timestamp: getCurrentTimestamp(),
+                })
 
-                // Update user in users list for all users in session
-                io.to(`tracking-${user.sessionId}`).emit("user-updated", updatedUser)
+                console.log(`📦 ${user.name} uploaded ${fixes.length} offline fixes (${accepted} accepted)`)
             } catch (error) {
-                console.error("❌ Error in location-update:", error)
-                socket.emit("error", { message: "Failed to update location", code: "LOCATION_UPDATE_ERROR" })
+                console.error("❌ Error in location-batch:", error)
+                socket.emit("error", { message: "Failed to process location batch", code: "LOCATION_BATCH_ERROR" })
             }
         })
 
         // Enhanced typing indicators with improved debouncing
         socket.on("typing-start", () => {
             try {
-                const user = connectedUsers.get(socket.id)
+                const user = getSocketUser(socket.id)
                 if (!user) return
 
                 // Update user typing status
                 user.isTyping = true
-                connectedUsers.set(socket.id, user)
+                stateStore.setUser(user)
 
                 // Broadcast typing status to others in the session
-                socket.to(`tracking-${user.sessionId}`).emit("user-typing", {
-                    userId: socket.id,
-                    userName: user.name,
-                    isTyping: true,
-                    timestamp: getCurrentTimestamp(),
-                })
+                broadcast(
+                    user.sessionId,
+                    "user-typing",
+                    {
+                        userId: user.id,
+                        userName: user.name,
+                        isTyping: true,
+                        timestamp: getCurrentTimestamp(),
+                    },
+                    user.id,
+                )
 
                 // Clear any existing typing timeout for this user
-                if (typingUsers.has(socket.id)) {
-                    clearTimeout(typingUsers.get(socket.id)!)
+                if (typingUsers.has(user.id)) {
+                    clearTimeout(typingUsers.get(user.id)!)
                 }
 
-                // Set timeout to automatically stop typing after 3 seconds
+                // Set timeout to automatically stop typing after 3 seconds.
+                // Keyed by user id, so it survives a reconnect within the window.
                 const timeout = setTimeout(() => {
-                    const currentUser = connectedUsers.get(socket.id)
+                    const currentUser = stateStore.getUser(user.id)
                     if (currentUser && currentUser.isTyping) {
                         currentUser.isTyping = false
-                        connectedUsers.set(socket.id, currentUser)
-
-                        socket.to(`tracking-${currentUser.sessionId}`).emit("user-typing", {
-                            userId: socket.id,
-                            userName: currentUser.name,
-                            isTyping: false,
-                            timestamp: getCurrentTimestamp(),
-                        })
+                        stateStore.setUser(currentUser)
+
+                        broadcast(
+                            currentUser.sessionId,
+                            "user-typing",
+                            {
+                                userId: currentUser.id,
+                                userName: currentUser.name,
+                                isTyping: false,
+                                timestamp: getCurrentTimestamp(),
+                            },
+                            currentUser.id,
+                        )
                     }
-                    typingUsers.delete(socket.id)
+                    typingUsers.delete(user.id)
                 }, 3000)
 
-                typingUsers.set(socket.id, timeout)
+                typingUsers.set(user.id, timeout)
             } catch (error) {
                 console.error("❌ Error in typing-start:", error)
             }
@@ -512,78 +1271,104 @@ export const initSocket = (server: HttpServer): Server => {
 
         socket.on("typing-stop", () => {
             try {
-                const user = connectedUsers.get(socket.id)
+                const user = getSocketUser(socket.id)
                 if (!user) return
 
                 user.isTyping = false
-                connectedUsers.set(socket.id, user)
+                stateStore.setUser(user)
 
-                if (typingUsers.has(socket.id)) {
-                    clearTimeout(typingUsers.get(socket.id)!)
-                    typingUsers.delete(socket.id)
+                if (typingUsers.has(user.id)) {
+                    clearTimeout(typingUsers.get(user.id)!)
+                    typingUsers.delete(user.id)
                 }
 
-                socket.to(`tracking-${user.sessionId}`).emit("user-typing", {
-                    userId: socket.id,
-                    userName: user.name,
-                    isTyping: false,
-                    timestamp: getCurrentTimestamp(),
-                })
+                broadcast(
+                    user.sessionId,
+                    "user-typing",
+                    {
+                        userId: user.id,
+                        userName: user.name,
+                        isTyping: false,
+                        timestamp: getCurrentTimestamp(),
+                    },
+                    user.id,
+                )
             } catch (error) {
                 console.error("❌ Error in typing-stop:", error)
             }
         })
 
-        // Enhanced message handling with validation and rate limiting
-        let lastMessageTime = 0
-        const messageRateLimit = 500 // 500ms between messages
+        // Enhanced message handling with validation
+        socket.on("send-message", async (messageData, ack) => {
+            // Acknowledged sends get the outcome through the callback as well
+            const reply = (payload: SendMessageAck): void => {
+                if (typeof ack === "function") ack(payload)
+            }
+            const fail = (error: SocketError): void => {
+                socket.emit("error", error)
+                reply({ success: false, ...error })
+            }
 
-        socket.on("send-message", (messageData) => {
             try {
-                const now = Date.now()
-                if (now - lastMessageTime < messageRateLimit) {
-                    socket.emit("error", { message: "Message rate limit exceeded", code: "RATE_LIMIT" })
+                const user = getSocketUser(socket.id)
+                if (!user) {
+                    fail({ message: "User not found", code: "USER_NOT_FOUND" })
                     return
                 }
-                lastMessageTime = now
 
-                const user = connectedUsers.get(socket.id)
-                if (!user) {
-                    socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                const mute = moderationService.getMute(user.sessionId, user.accountId)
+                if (mute) {
+                    fail({ message: "You are muted in this session", code: "MUTED", until: mute.until })
                     return
                 }
 
-                // Validate message
-                if (
-                    !messageData.message ||
-                    typeof messageData.message !== "string" ||
-                    messageData.message.trim().length === 0 ||
-                    messageData.message.length > 1000
-                ) {
-                    socket.emit("error", { message: "Invalid message content", code: "INVALID_MESSAGE" })
+                const { clientMessageId } = messageData
+
+                // Task entries are only written by the server, when tasks change
+                if (messageData.messageType === "task") {
+                    fail({ message: "Task entries cannot be posted directly", code: "INVALID_MESSAGE", field: "messageType" })
                     return
                 }
 
+                // A retried send is acknowledged with the original message instead of being posted twice
+                if (clientMessageId) {
+                    const existing = await messageStore.findByClientId(user.sessionId, user.accountId, clientMessageId)
+                    if (existing) {
+                        const original = sessionJournal
+                            .since(user.sessionId, 0)
+                            .entries.find((entry) => entry.event === "new-message" && entry.payload.id === existing.id)
+                        reply({ success: true, duplicate: true, id: existing.id, seq: original?.seq ?? null, clientMessageId })
+                        return
+                    }
+                }
+
                 // Stop typing when message is sent
                 user.isTyping = false
-                connectedUsers.set(socket.id, user)
+                stateStore.setUser(user)
 
-                if (typingUsers.has(socket.id)) {
-                    clearTimeout(typingUsers.get(socket.id)!)
-                    typingUsers.delete(socket.id)
+                if (typingUsers.has(user.id)) {
+                    clearTimeout(typingUsers.get(user.id)!)
+                    typingUsers.delete(user.id)
                 }
 
                 // Broadcast typing stop
-                socket.to(`tracking-${user.sessionId}`).emit("user-typing", {
-                    userId: socket.id,
-                    userName: user.name,
-                    isTyping: false,
-                    timestamp: getCurrentTimestamp(),
-                })
+                broadcast(
+                    user.sessionId,
+                    "user-typing",
+                    {
+                        userId: user.id,
+                        userName: user.name,
+                        isTyping: false,
+                        timestamp: getCurrentTimestamp(),
+                    },
+                    user.id,
+                )
 
-                const message = {
+                const message: ChatMessage = {
                     id: generateUserId(),
-                    userId: socket.id,
+                    sessionId: user.sessionId,
+                    userId: user.id,
+                    accountId: user.accountId,
                     userName: user.name,
                     userRole: user.role,
                     message: messageData.message.trim(),
@@ -592,54 +1377,194 @@ export const initSocket = (server: HttpServer): Server => {
                     messageType: messageData.messageType || "text",
                     edited: false,
                     reactions: {},
+                    ...(clientMessageId ? { clientMessageId } : {}),
                 }
 
-                // Buffer message for offline users
-                const sessionUsers = trackingSessions.get(user.sessionId) || new Set()
-                sessionUsers.forEach((userId) => {
-                    if (!connectedUsers.has(userId)) {
-                        if (!messageBuffer.has(userId)) {
-                            messageBuffer.set(userId, [])
-                        }
-                        messageBuffer.get(userId)!.push(message)
-                    }
-                })
+                const seq = await postMessage(message)
 
-                // Broadcast message to all users in the session
-                io.to(`tracking-${user.sessionId}`).emit("new-message", message)
+                reply({ success: true, duplicate: false, id: message.id, seq, clientMessageId: clientMessageId ?? null })
 
                 console.log(
                     `💬 Message from ${user.name}: ${messageData.message.substring(0, 50)}${messageData.message.length > 50 ? "..." : ""}`,
                 )
             } catch (error) {
                 console.error("❌ Error in send-message:", error)
-                socket.emit("error", { message: "Failed to send message", code: "MESSAGE_ERROR" })
+                fail({ message: "Failed to send message", code: "MESSAGE_ERROR" })
+            }
+        })
+
+        // Message editing: authors within the edit window, moderators and admins at any time
+        socket.on("edit-message", async (editData) => {
+            try {
+                const user = getSocketUser(socket.id)
+                if (!user) {
+                    socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                    return
+                }
+
+                const { messageId, message } = editData
+
+                const existing = await messageStore.get(user.sessionId, messageId)
+                if (!existing || existing.deleted) {
+                    socket.emit("error", { message: "Message not found", code: "MESSAGE_NOT_FOUND" })
+                    return
+                }
+
+                if (!canModifyMessage(user.role, user.accountId, existing.accountId) || existing.messageType === "task") {
+                    socket.emit("error", forbiddenError("edit-message"))
+                    return
+                }
+
+                const now = Date.now()
+                if (!isStaff(user.role) && now - new Date(existing.timestamp).getTime() > config.messages.editWindowMs) {
+                    socket.emit("error", { message: "Edit window has expired", code: "EDIT_WINDOW_EXPIRED" })
+                    return
+                }
+
+                const editedAt = getCurrentTimestamp()
+                const result = await messageStore.update(user.sessionId, messageId, (current) => {
+                    if (current.deleted || current.message === message.trim()) return null
+                    return {
+                        message: message.trim(),
+                        edited: true,
+                        editedAt,
+                        editHistory: [
+                            ...(current.editHistory || []),
+                            { message: current.message, editedAt, editedBy: user.accountId },
+                        ].slice(-config.messages.maxEditHistory),
+                    }
+                })
+
+                if (result?.changed) {
+                    emitRedacted(user.sessionId, "message-edited", result.message, { userId: user.id, include: true })
+                    recordAudit({
+                        type: "message-edit",
+                        sessionId: user.sessionId,
+                        actor: auditParty(user),
+                        target: { accountId: existing.accountId, userId: existing.userId, name: existing.userName, role: existing.userRole },
+                        payload: { messageId, previous: existing.message, message: result.message.message },
+                    })
+                }
+            } catch (error) {
+                console.error("❌ Error in edit-message:", error)
+                socket.emit("error", { message: "Failed to edit message", code: "MESSAGE_ERROR" })
+            }
+        })
+
+        // Message deletion leaves a tombstone so history cursors stay valid
+        socket.on("delete-message", async (deleteData) => {
+            try {
+                const user = getSocketUser(socket.id)
+                if (!user) {
+                    socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                    return
+                }
+
+                const { messageId } = deleteData
+
+                const existing = await messageStore.get(user.sessionId, messageId)
+                if (!existing || existing.deleted) {
+                    socket.emit("error", { message: "Message not found", code: "MESSAGE_NOT_FOUND" })
+                    return
+                }
+
+                if (!canModifyMessage(user.role, user.accountId, existing.accountId)) {
+                    socket.emit("error", forbiddenError("delete-message"))
+                    return
+                }
+
+                const deletedAt = getCurrentTimestamp()
+                const result = await messageStore.update(user.sessionId, messageId, (current) =>
+                    current.deleted
+                        ? null
+                        : {
+                            message: "",
+                            deleted: true,
+                            deletedAt,
+                            deletedBy: user.accountId,
+                            editHistory: [],
+                            reactions: {},
+                        },
+                )
+
+                if (result?.changed) {
+                    broadcast(user.sessionId, "message-deleted", {
+                        messageId,
+                        deletedBy: user.accountId,
+                        deletedByName: user.name,
+                        timestamp: deletedAt,
+                    })
+                    recordAudit({
+                        type: "message-delete",
+                        sessionId: user.sessionId,
+                        actor: auditParty(user),
+                        target: { accountId: existing.accountId, userId: existing.userId, name: existing.userName, role: existing.userRole },
+                        payload: { messageId, message: existing.message },
+                    })
+                }
+            } catch (error) {
+                console.error("❌ Error in delete-message:", error)
+                socket.emit("error", { message: "Failed to delete message", code: "MESSAGE_ERROR" })
             }
         })
 
-        // Enhanced message reactions
-        socket.on("message-reaction", (reactionData) => {
+        // Enhanced message reactions, persisted as emoji → account ids
+        socket.on("message-reaction", async (reactionData) => {
             try {
-                const user = connectedUsers.get(socket.id)
+                const user = getSocketUser(socket.id)
                 if (!user) return
 
+                const mute = moderationService.getMute(user.sessionId, user.accountId)
+                if (mute) {
+                    socket.emit("error", { message: "You are muted in this session", code: "MUTED", until: mute.until })
+                    return
+                }
+
                 const { messageId, emoji, action } = reactionData
 
-                // Validate reaction data
-                if (!messageId || !emoji || !["add", "remove"].includes(action)) {
-                    socket.emit("error", { message: "Invalid reaction data", code: "INVALID_REACTION" })
+                // Adding twice or removing a reaction that was never added is a no-op
+                const result = await messageStore.update(user.sessionId, messageId, (current) => {
+                    if (current.deleted) return null
+
+                    const reactors = current.reactions[emoji] || []
+                    const hasReacted = reactors.includes(user.accountId)
+                    if (action === "add" ? hasReacted : !hasReacted) return null
+
+                    const reactions = { ...current.reactions }
+                    if (action === "add") {
+                        reactions[emoji] = [...reactors, user.accountId]
+                    } else {
+                        const remaining = reactors.filter((id) => id !== user.accountId)
+                        if (remaining.length > 0) {
+                            reactions[emoji] = remaining
+                        } else {
+                            delete reactions[emoji]
+                        }
+                    }
+                    return { reactions }
+                })
+
+                if (!result || result.message.deleted) {
+                    socket.emit("error", { message: "Message not found", code: "MESSAGE_NOT_FOUND" })
                     return
                 }
 
-                // Broadcast reaction to all users in the session
-                io.to(`tracking-${user.sessionId}`).emit("message-reaction-update", {
+                const update = {
                     messageId,
-                    userId: socket.id,
+                    userId: user.id,
                     userName: user.name,
                     emoji,
                     action,
+                    reactions: result.message.reactions,
                     timestamp: getCurrentTimestamp(),
-                })
+                }
+
+                if (result.changed) {
+                    // Broadcast the authoritative reaction state to all users in the session
+                    broadcast(user.sessionId, "message-reaction-update", update)
+                } else {
+                    socket.emit("message-reaction-update", update)
+                }
             } catch (error) {
                 console.error("❌ Error in message-reaction:", error)
             }
@@ -648,29 +1573,26 @@ export const initSocket = (server: HttpServer): Server => {
         // Enhanced status and presence updates
         socket.on("status-update", (status) => {
             try {
-                const user = connectedUsers.get(socket.id)
+                const user = getSocketUser(socket.id)
                 if (!user) return
 
-                if (!["online", "away", "offline"].includes(status)) {
-                    socket.emit("error", { message: "Invalid status", code: "INVALID_STATUS" })
-                    return
-                }
-
                 const updatedUser: User = {
                     ...user,
                     status,
                     lastSeen: getCurrentTimestamp(),
                 }
 
-                connectedUsers.set(socket.id, updatedUser)
+                stateStore.setUser(updatedUser)
+                recordActivity(updatedUser, "status", { status })
 
-                socket.to(`tracking-${user.sessionId}`).emit("user-status-changed", {
-                    userId: socket.id,
-                    status,
-                    timestamp: getCurrentTimestamp(),
-                })
+                broadcast(
+                    user.sessionId,
+                    "user-status-changed",
+                    { userId: user.id, status, timestamp: getCurrentTimestamp() },
+                    user.id,
+                )
 
-                io.to(`tracking-${user.sessionId}`).emit("user-updated", updatedUser)
+                emitRedacted(user.sessionId, "user-updated", updatedUser, { userId: user.id, include: true })
             } catch (error) {
                 console.error("❌ Error in status-update:", error)
             }
@@ -678,24 +1600,34 @@ export const initSocket = (server: HttpServer): Server => {
 
         socket.on("presence-update", (presenceData) => {
             try {
-                const user = connectedUsers.get(socket.id)
+                const user = getSocketUser(socket.id)
                 if (!user) return
 
                 const { isActive, lastActivity } = presenceData
+                if (isActive) {
+                    watchdog.recordActivity(user.id)
+                } else {
+                    watchdog.recordSignal(user.id)
+                }
 
                 const updatedUser: User = {
                     ...user,
                     lastSeen: getCurrentTimestamp(),
                 }
 
-                connectedUsers.set(socket.id, updatedUser)
+                stateStore.setUser(updatedUser)
 
-                socket.to(`tracking-${user.sessionId}`).emit("user-presence-changed", {
-                    userId: socket.id,
-                    isActive: Boolean(isActive),
-                    lastActivity: lastActivity || getCurrentTimestamp(),
-                    timestamp: getCurrentTimestamp(),
-                })
+                broadcast(
+                    user.sessionId,
+                    "user-presence-changed",
+                    {
+                        userId: user.id,
+                        isActive: Boolean(isActive),
+                        lastActivity: lastActivity || getCurrentTimestamp(),
+                        timestamp: getCurrentTimestamp(),
+                    },
+                    user.id,
+                )
             } catch (error) {
                 console.error("❌ Error in presence-update:", error)
             }
@@ -722,12 +1654,66 @@ export const initSocket = (server: HttpServer): Server => {
             }
         })
 
+        // Everything broadcast to the session after the given sequence number, as this participant saw it
+        socket.on("sync-since", (data, ack) => {
+            try {
+                const user = getSocketUser(socket.id)
+                if (!user) {
+                    socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                    return
+                }
+
+                const since = typeof data === "number" ? data : data.seq
+
+                const page = journalPageFor(user, since, sessionJournal.since(user.sessionId, since))
+                if (typeof ack === "function") {
+                    ack(page)
+                } else {
+                    socket.emit("sync-since", page)
+                }
+            } catch (error) {
+                console.error("❌ Error in sync-since:", error)
+                socket.emit("error", { message: "Failed to sync session events", code: "SYNC_ERROR" })
+            }
+        })
+
         // Enhanced reconnection handling
-        socket.on("reconnect-request", (data) => {
+        socket.on("reconnect-request", async (data) => {
             try {
                 console.log(`🔄 Reconnection request from ${socket.id}`)
 
-                const user = connectedUsers.get(socket.id)
+                // Presenting a resume token reattaches the participant, under the same checks as join-tracking
+                if (data?.resumeToken !== undefined) {
+                    const auth = socket.data.auth
+                    const sid = data?.sessionId || auth.sessionId || config.sessions.defaultId
+                    const guard = await guardJoin(auth, sid, true)
+                    if ("refusal" in guard) {
+                        socket.emit("reconnect-response", {
+                            success: false,
+                            ...guard.refusal,
+                            timestamp: getCurrentTimestamp(),
+                            serverTime: Date.now(),
+                        })
+                        return
+                    }
+
+                    const retained = resolveResumeToken(data.resumeToken, auth, sid)
+                    if (!retained) {
+                        socket.emit("reconnect-response", {
+                            success: false,
+                            code: "RESUME_TOKEN_INVALID",
+                            message: "Resume token is invalid or has expired; join the session again",
+                            timestamp: getCurrentTimestamp(),
+                            serverTime: Date.now(),
+                        })
+                        return
+                    }
+
+                    await resumeUser(socket, retained, data.lastSeq)
+                    io.to(`tracking-${sid}`).emit("user-count", getRoomUsersFor(retained).length)
+                }
+
+                const user = getSocketUser(socket.id)
                 const health = connectionHealth.get(socket.id)
 
                 socket.emit("reconnect-response", {
@@ -736,7 +1722,7 @@ export const initSocket = (server: HttpServer): Server => {
                     serverTime: Date.now(),
                     userData: user,
                     connectionHealth: health,
-                    bufferedMessages: messageBuffer.get(socket.id) || [],
+                    bufferedMessages: user ? stateStore.bufferedMessages(user.id) : [],
                 })
             } catch (error) {
                 console.error("❌ Error in reconnect-request:", error)
@@ -748,47 +1734,55 @@ export const initSocket = (server: HttpServer): Server => {
             try {
                 console.log(`❌ Client disconnected: ${socket.id}, reason: ${reason}`)
 
-                const user = connectedUsers.get(socket.id)
-                if (user) {
-                    // Clear typing timeout
-                    if (typingUsers.has(socket.id)) {
-                        clearTimeout(typingUsers.get(socket.id)!)
-                        typingUsers.delete(socket.id)
-                    }
+                // A requester who leaves while waiting withdraws the join request
+                pendingJoins.forEach((pending, requestId) => {
+                    if (pending.socketId !== socket.id) return
+                    pendingJoins.delete(requestId)
+                    inviteService.cancel(requestId)
+                })
+
+                const user = getSocketUser(socket.id)
+                socketUsers.delete(socket.id)
+
+                // Nothing to announce when a resume on another socket has already taken the participant over
+                const presence = user ? stateStore.getPresence(user.id) : undefined
+                const takenOver = presence !== undefined && presence.socketId !== socket.id
+
+                if (user && !takenOver) {
+                    // Typing state is left to expire on its own so a quick resume keeps it
 
                     // Remove from session tracking
-                    const sessionUsers = trackingSessions.get(user.sessionId)
-                    if (sessionUsers) {
-                        sessionUsers.delete(socket.id)
-                        if (sessionUsers.size === 0) {
-                            trackingSessions.delete(user.sessionId)
-                        }
-                    }
+                    stateStore.removeSessionMember(user.sessionId, user.id)
+                    stateStore.clearPresence(user.id, socket.id)
+                    // Only a dropped connection, not leaving or being removed, can mean the worker is in trouble
+                    watchdog.disconnected(user.id, reason === "client namespace disconnect" || reason === "server namespace disconnect")
+
+                    recordActivity(user, "leave", { reason })
 
                     // Notify others in the room
-                    socket.to(`tracking-${user.sessionId}`).emit("user-left", {
-                        userId: socket.id,
-                        userName: user.name,
-                        timestamp: getCurrentTimestamp(),
-                        reason: reason,
-                    })
+                    broadcast(
+                        user.sessionId,
+                        "user-left",
+                        { userId: user.id, userName: user.name, timestamp: getCurrentTimestamp(), reason: reason },
+                        user.id,
+                    )
 
                     // Update user count
-                    const remainingUsers = Array.from(connectedUsers.values()).filter(
-                        (u) => u.sessionId === user.sessionId && u.id !== socket.id,
-                    )
+                    const remainingUsers = stateStore.listUsers(user.sessionId).filter((u) => u.id !== user.id)
 
                     io.to(`tracking-${user.sessionId}`).emit("user-count", remainingUsers.length)
 
                     console.log(`👋 ${user.name} left session: ${user.sessionId}`)
 
-                    // Keep user data for potential reconnection (for 5 minutes)
-                    setTimeout(
-                        () => {
-                            connectedUsers.delete(socket.id)
-                            messageBuffer.delete(socket.id)
-                        },
-                        5 * 60 * 1000,
+                    // Keep user data for potential reconnection
+                    clearTimeout(departures.get(user.id))
+                    departures.set(
+                        user.id,
+                        setTimeout(() => {
+                            // Resumed elsewhere in the meantime
+                            if (stateStore.getPresence(user.id)) return
+                            removeUser(user.id)
+                        }, config.reconnect.graceMs),
                     )
                 }
 
@@ -818,7 +1812,7 @@ export const initSocket = (server: HttpServer): Server => {
         const cpuUsage = process.cpuUsage()
 
         console.log(
-            `💓 Server Health - Users: ${connectedUsers.size}, Sessions: ${trackingSessions.size}, Memory: ${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`,
+            `💓 Server Health - Users: ${stateStore.listUsers().length}, Sessions: ${stateStore.sessionIds().length}, Memory: ${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`,
         )
 
         // Alert if memory usage is high
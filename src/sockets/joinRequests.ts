@@ -0,0 +1,64 @@
+import { inviteService } from "../services"
+import { InviteError, type InviteActor, type JoinRequest, type JoinResolution } from "../services/invites"
+import type { SocketContext } from "./context"
+import type { TrackingSocket } from "./contract"
+
+/**
+ * Keeps staff in a session up to date with pending join requests.
+ */
+export const relayJoinRequestEvents = (ctx: SocketContext): void => {
+    const staffRooms = (sessionId: string): string[] => [ctx.roleRoom(sessionId, "admin"), ctx.roleRoom(sessionId, "moderator")]
+
+    inviteService.events.on("requested", (request: JoinRequest) => {
+        ctx.io.to(staffRooms(request.sessionId)).emit("join-request", request)
+        console.log(`🚪 ${request.name} is waiting to join session: ${request.sessionId}`)
+    })
+
+    inviteService.events.on("resolved", (resolution: JoinResolution) => {
+        const { request } = resolution
+        ctx.io.to(staffRooms(request.sessionId)).emit("join-request-resolved", {
+            requestId: request.id,
+            sessionId: request.sessionId,
+            accountId: request.accountId,
+            decision: resolution.decision,
+            by: resolution.by,
+            timestamp: resolution.timestamp,
+        })
+    })
+}
+
+export const registerJoinRequestHandlers = (socket: TrackingSocket, ctx: SocketContext): void => {
+    // Runs a join request command on behalf of the socket's participant, within its own session
+    const handle = (event: string, run: (sessionId: string, actor: InviteActor) => void) => {
+        try {
+            const user = ctx.getUser(socket.id)
+            if (!user) {
+                socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                return
+            }
+
+            run(user.sessionId, { accountId: user.accountId, name: user.name, role: user.role })
+        } catch (error) {
+            if (error instanceof InviteError) {
+                socket.emit("error", { message: error.message, code: error.code, field: error.field })
+                return
+            }
+            console.error(`❌ Error in ${event}:`, error)
+            socket.emit("error", { message: "Failed to handle join request", code: "JOIN_REQUEST_ERROR" })
+        }
+    }
+
+    socket.on("join-requests", () =>
+        handle("join-requests", (sessionId) => {
+            socket.emit("join-requests", { sessionId, requests: inviteService.listRequests(sessionId) })
+        }),
+    )
+
+    socket.on("approve-join", (data) =>
+        handle("approve-join", (sessionId, actor) => inviteService.approve(sessionId, data.requestId, actor, data.role)),
+    )
+
+    socket.on("deny-join", (data) =>
+        handle("deny-join", (sessionId, actor) => inviteService.deny(sessionId, data.requestId, actor, data.reason)),
+    )
+}
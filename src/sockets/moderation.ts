@@ -0,0 +1,124 @@
+import { stateStore } from "../scaling"
+import { moderationService } from "../services"
+import { ModerationError, type ModerationAction, type ModerationActor } from "../services/moderation"
+import type { User } from "../types"
+import type { SocketContext } from "./context"
+import type { ClientToServerEvents, ServerEvent, TrackingSocket } from "./contract"
+
+type ModerationEvent = Extract<keyof ClientToServerEvents, `moderation-${string}`>
+
+// Which dedicated events an action sends to the moderated participant and to the rest of the session
+const ACTION_EVENTS = {
+    kick: { target: "kicked", room: "user-kicked" },
+    mute: { target: "muted", room: "user-muted" },
+    unmute: { target: "unmuted", room: "user-unmuted" },
+    ban: { target: "banned", room: "user-banned" },
+    unban: { target: "unbanned", room: "user-unbanned" },
+    "role-change": { target: "role-changed", room: "user-role-changed" },
+} as const satisfies Record<ModerationAction["type"], { target: ServerEvent; room: ServerEvent }>
+
+/**
+ * Applies moderation actions to connected participants and notifies the target and the session.
+ * Kicked and banned participants are removed outright, so their resume tokens stop working.
+ */
+export const relayModerationEvents = (ctx: SocketContext): void => {
+    moderationService.events.on("action", (action: ModerationAction) => {
+        const users = action.userIds.map((userId) => stateStore.getUser(userId)).filter((u): u is User => Boolean(u))
+        const { target, room } = ACTION_EVENTS[action.type]
+        const notice = {
+            sessionId: action.sessionId,
+            reason: action.reason,
+            moderator: { accountId: action.actor.accountId, name: action.actor.name },
+            timestamp: action.timestamp,
+            ...(action.until ? { until: action.until } : {}),
+            ...(action.role ? { role: action.role, previousRole: action.previousRole ?? null } : {}),
+        }
+
+        users.forEach((user) => {
+            ctx.io.to(ctx.userRoom(user.id)).emit(target, notice)
+
+            if (action.type === "kick" || action.type === "ban") {
+                // Queued after the notice, so the client receives it before the disconnect
+                ctx.io.in(ctx.userRoom(user.id)).disconnectSockets(false)
+                stateStore.removeSessionMember(user.sessionId, user.id)
+                ctx.removeUser(user.id)
+            } else if (action.type === "role-change" && action.role && action.role !== user.role) {
+                ctx.io.in(ctx.userRoom(user.id)).socketsLeave(ctx.roleRoom(user.sessionId, user.role))
+                ctx.io.in(ctx.userRoom(user.id)).socketsJoin(ctx.roleRoom(user.sessionId, action.role))
+                stateStore.setUser({ ...user, role: action.role })
+            }
+        })
+
+        ctx.broadcast(
+            action.sessionId,
+            room,
+            {
+                ...notice,
+                accountId: action.accountId,
+                userIds: action.userIds,
+                userName: users[0]?.name ?? null,
+            },
+            users[0]?.id,
+        )
+
+        if (action.type === "kick" || action.type === "ban") {
+            ctx.io.to(`tracking-${action.sessionId}`).emit("user-count", stateStore.listUsers(action.sessionId).length)
+        }
+
+        console.log(`🛡️ ${action.actor.name} applied ${action.type} to ${action.accountId} in session: ${action.sessionId}`)
+    })
+}
+
+export const registerModerationHandlers = (socket: TrackingSocket, ctx: SocketContext): void => {
+    // Runs a moderation command on behalf of the socket's participant, within its own session
+    const handle = <E extends ModerationEvent>(
+        event: E,
+        run: (sessionId: string, actor: ModerationActor, data: Parameters<ClientToServerEvents[E]>[0]) => unknown,
+    ) => {
+        // The listener's payload type cannot follow a generic event name
+        socket.on(event as ModerationEvent, ((data: Parameters<ClientToServerEvents[E]>[0]) => {
+            try {
+                const user = ctx.getUser(socket.id)
+                if (!user) {
+                    socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                    return
+                }
+
+                run(user.sessionId, { accountId: user.accountId, name: user.name, role: user.role }, data)
+            } catch (error) {
+                if (error instanceof ModerationError) {
+                    socket.emit("error", { message: error.message, code: error.code, field: error.field })
+                    return
+                }
+                console.error(`❌ Error in ${event}:`, error)
+                socket.emit("error", { message: "Failed to apply moderation action", code: "MODERATION_ERROR" })
+            }
+        }) as ClientToServerEvents[ModerationEvent])
+    }
+
+    handle("moderation-kick", (sessionId, actor, data) => moderationService.kick(sessionId, data, actor, data.reason))
+
+    handle("moderation-mute", (sessionId, actor, data) =>
+        moderationService.mute(sessionId, data, data.minutes, actor, data.reason),
+    )
+
+    handle("moderation-unmute", (sessionId, actor, data) => {
+        if (!moderationService.unmute(sessionId, data, actor)) {
+            socket.emit("error", { message: "User is not muted", code: "NOT_MUTED" })
+        }
+    })
+
+    handle("moderation-ban", (sessionId, actor, data) => moderationService.ban(sessionId, data, actor, data.reason))
+
+    handle("moderation-unban", (sessionId, actor, data) => {
+        if (!moderationService.unban(sessionId, data, actor)) {
+            socket.emit("error", { message: "User is not banned", code: "NOT_BANNED" })
+        }
+    })
+
+    handle("moderation-role", (sessionId, actor, data) => moderationService.changeRole(sessionId, data, data.role, actor))
+
+    handle("moderation-list", (sessionId) => {
+        socket.emit("moderation-list", { sessionId, ...moderationService.list(sessionId) })
+    })
+}
@@ -0,0 +1,79 @@
+import { stateStore } from "../scaling"
+import { privacyService } from "../services"
+import { PrivacyError } from "../services/privacy"
+import type { SocketContext } from "./context"
+import type { TrackingSocket } from "./contract"
+
+/**
+ * Re-applies an account's sharing preferences to its participants in every session, so pausing
+ * or drawing a zone around the current position hides it right away instead of at the next fix.
+ */
+export const relayPrivacyEvents = (ctx: SocketContext): void => {
+    const refresh = (accountId: string): void => {
+        stateStore
+            .listUsers()
+            .filter((user) => user.accountId === accountId)
+            .forEach((user) => {
+                const sharing = privacyService.sharingFor(accountId, user.location ? { ...user.location, accuracy: user.accuracy } : null)
+                if (sharing === user.sharing) return
+                ctx.publishLocation(user, sharing === "live" ? user : {}, ctx.getCurrentTimestamp(), sharing)
+            })
+    }
+
+    privacyService.events.on("sharing-changed", (accountId: string, paused: boolean) => {
+        refresh(accountId)
+        console.log(`🙈 Location sharing ${paused ? "paused" : "resumed"} for account: ${accountId}`)
+    })
+
+    privacyService.events.on("zones-changed", refresh)
+}
+
+// Sharing preferences belong to the account, so these work before joining a session too
+export const registerPrivacyHandlers = (socket: TrackingSocket, ctx: SocketContext): void => {
+    const accountId = socket.data.auth.sub
+
+    const setPaused = (event: "sharing-pause" | "sharing-resume", paused: boolean) => {
+        try {
+            privacyService.setPaused(accountId, paused)
+            socket.emit("sharing-state", { paused, timestamp: ctx.getCurrentTimestamp() })
+        } catch (error) {
+            console.error(`❌ Error in ${event}:`, error)
+            socket.emit("error", { message: "Failed to change location sharing", code: "PRIVACY_ERROR" })
+        }
+    }
+
+    socket.on("sharing-pause", () => setPaused("sharing-pause", true))
+    socket.on("sharing-resume", () => setPaused("sharing-resume", false))
+
+    socket.on("privacy-zones", () => {
+        socket.emit("privacy-zones", { zones: privacyService.listZones(accountId) })
+    })
+
+    // Create a zone, or replace an existing one when `id` is given
+    socket.on("privacy-zone-set", (data) => {
+        try {
+            privacyService.setZone(accountId, data)
+            socket.emit("privacy-zones", { zones: privacyService.listZones(accountId) })
+        } catch (error) {
+            if (error instanceof PrivacyError) {
+                socket.emit("error", { message: error.message, code: error.code, field: error.field })
+                return
+            }
+            console.error("❌ Error in privacy-zone-set:", error)
+            socket.emit("error", { message: "Failed to save privacy zone", code: "PRIVACY_ERROR" })
+        }
+    })
+
+    socket.on("privacy-zone-delete", (data) => {
+        try {
+            if (!privacyService.removeZone(accountId, data.zoneId)) {
+                socket.emit("error", { message: "Privacy zone not found", code: "PRIVACY_ZONE_NOT_FOUND", field: "zoneId" })
+                return
+            }
+            socket.emit("privacy-zones", { zones: privacyService.listZones(accountId) })
+        } catch (error) {
+            console.error("❌ Error in privacy-zone-delete:", error)
+            socket.emit("error", { message: "Failed to delete privacy zone", code: "PRIVACY_ERROR" })
+        }
+    })
+}
@@ -0,0 +1,98 @@
+import { config } from "../config"
+import { proximityService } from "../services"
+import { ProximityError, type ProximityAlert, type ProximityRule } from "../services/proximity"
+import type { SocketContext } from "./context"
+import type { TrackingSocket } from "./contract"
+
+/**
+ * Relays proximity alerts and rule changes to the session's staff.
+ */
+export const relayProximityEvents = (ctx: SocketContext): void => {
+    const staff = (sessionId: string): string[] => [ctx.roleRoom(sessionId, "admin"), ctx.roleRoom(sessionId, "moderator")]
+
+    proximityService.events.on("alert", (alert: ProximityAlert) => {
+        ctx.io.to(staff(alert.sessionId)).emit("proximity-alert", alert)
+        const who = alert.users.map((party) => party.userName).join(" and ")
+        console.log(`📡 ${who} within ${alert.threshold}m (${alert.ruleName}) in session: ${alert.sessionId}`)
+    })
+
+    proximityService.events.on("rule-updated", (rule: ProximityRule) => {
+        ctx.io.to(staff(rule.sessionId)).emit("proximity-rule-updated", rule)
+    })
+
+    proximityService.events.on("rule-deleted", ({ sessionId, ruleId }: { sessionId: string; ruleId: string }) => {
+        ctx.io.to(staff(sessionId)).emit("proximity-rule-deleted", { sessionId, ruleId, timestamp: ctx.getCurrentTimestamp() })
+    })
+}
+
+export const registerProximityHandlers = (socket: TrackingSocket, ctx: SocketContext): void => {
+    // Who is closest to a point right now, e.g. a site that needs someone
+    socket.on("nearest-users", (data) => {
+        try {
+            const user = ctx.getUser(socket.id)
+            if (!user) {
+                socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                return
+            }
+
+            const limit = data.limit ?? config.proximity.defaultLimit
+            socket.emit("nearest-users", {
+                sessionId: user.sessionId,
+                location: data.location,
+                radius: data.radius ?? null,
+                users: proximityService.nearest(user.sessionId, data.location, { radius: data.radius, limit }),
+                timestamp: ctx.getCurrentTimestamp(),
+            })
+        } catch (error) {
+            console.error("❌ Error in nearest-users:", error)
+            socket.emit("error", { message: "Failed to find nearest users", code: "PROXIMITY_ERROR" })
+        }
+    })
+
+    socket.on("proximity-rules", () => {
+        const user = ctx.getUser(socket.id)
+        if (!user) {
+            socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+            return
+        }
+        socket.emit("proximity-rules", { sessionId: user.sessionId, rules: proximityService.listRules(user.sessionId) })
+    })
+
+    // Create a rule, or replace an existing one when `id` is given
+    socket.on("proximity-rule-set", (data) => {
+        try {
+            const user = ctx.getUser(socket.id)
+            if (!user) {
+                socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                return
+            }
+
+            const rule = proximityService.setRule(user.sessionId, data, user.accountId)
+            console.log(`📡 ${user.name} defined proximity rule "${rule.name}" in session: ${user.sessionId}`)
+        } catch (error) {
+            if (error instanceof ProximityError) {
+                socket.emit("error", { message: error.message, code: error.code, field: error.field })
+                return
+            }
+            console.error("❌ Error in proximity-rule-set:", error)
+            socket.emit("error", { message: "Failed to save proximity rule", code: "PROXIMITY_ERROR" })
+        }
+    })
+
+    socket.on("proximity-rule-delete", (data) => {
+        try {
+            const user = ctx.getUser(socket.id)
+            if (!user) {
+                socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                return
+            }
+
+            if (!proximityService.removeRule(user.sessionId, data.ruleId, user.accountId)) {
+                socket.emit("error", { message: "Proximity rule not found", code: "PROXIMITY_RULE_NOT_FOUND", field: "ruleId" })
+            }
+        } catch (error) {
+            console.error("❌ Error in proximity-rule-delete:", error)
+            socket.emit("error", { message: "Failed to delete proximity rule", code: "PROXIMITY_ERROR" })
+        }
+    })
+}
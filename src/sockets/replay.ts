@@ -0,0 +1,95 @@
+import { forbiddenError } from "../auth/permissions"
+import { mayReadSession, moderationService } from "../services"
+import { buildReplayTimeline, createReplayPlayer, ReplayRangeError, type ReplayPlayer } from "../services/replay"
+import { parseTime } from "../utils/time"
+import type { SocketContext } from "./context"
+import type { ServerEvent, TrackingSocket } from "./contract"
+
+/**
+ * Session playback. Recorded events are emitted to this socket only, under their live names,
+ * so replays should be run on a connection that has not joined the live session.
+ */
+export const registerReplayHandlers = (socket: TrackingSocket, ctx: SocketContext): void => {
+    let player: ReplayPlayer | undefined
+
+    const withPlayer = (action: (player: ReplayPlayer) => void): void => {
+        if (!player) {
+            socket.emit("error", { message: "No replay in progress", code: "REPLAY_NOT_STARTED" })
+            return
+        }
+        action(player)
+    }
+
+    socket.on("replay-start", async (data) => {
+        try {
+            const auth = socket.data.auth
+            const sessionId = data?.sessionId || ctx.getUser(socket.id)?.sessionId || auth.sessionId
+            if (!sessionId) {
+                socket.emit("error", { message: "Session is required", code: "INVALID_SESSION" })
+                return
+            }
+            if (auth.sessionId && auth.sessionId !== sessionId) {
+                socket.emit("error", forbiddenError("replay-start"))
+                return
+            }
+            // The same checks as reading the session's history over REST
+            if (moderationService.getBan(sessionId, auth.sub)) {
+                socket.emit("error", { message: "You are banned from this session", code: "BANNED" })
+                return
+            }
+            if (!(await mayReadSession(sessionId, auth.sub, auth.role))) {
+                socket.emit("error", { message: "You have not been admitted to this session", code: "NOT_ADMITTED" })
+                return
+            }
+
+            const to = parseTime(data?.to, Date.now())
+            const from = parseTime(data?.from, to - 60 * 60 * 1000)
+            const timeline = await buildReplayTimeline(sessionId, from, to)
+
+            player?.stop()
+            player = createReplayPlayer(timeline, {
+                speed: data?.speed,
+                // Recorded events keep the names they were broadcast under
+                emit: (event, payload) => socket.emit(event as ServerEvent, payload),
+                onState: (state) => socket.emit("replay-state", state),
+            })
+            player.play()
+
+            console.log(`⏯️ Replay started for ${sessionId} by ${socket.id} (${timeline.events.length} events)`)
+        } catch (error) {
+            if (error instanceof ReplayRangeError) {
+                socket.emit("error", { message: error.message, code: error.code })
+                return
+            }
+            console.error("❌ Error in replay-start:", error)
+            socket.emit("error", { message: "Failed to start replay", code: "REPLAY_ERROR" })
+        }
+    })
+
+    socket.on("replay-pause", () => withPlayer((p) => p.pause()))
+
+    socket.on("replay-resume", () => withPlayer((p) => p.play()))
+
+    socket.on("replay-seek", (data) => {
+        const position = parseTime(data.position, NaN)
+        if (Number.isNaN(position)) {
+            socket.emit("error", { message: "Invalid seek position", code: "INVALID_REPLAY_RANGE" })
+            return
+        }
+        withPlayer((p) => p.seek(position))
+    })
+
+    socket.on("replay-speed", (data) => withPlayer((p) => p.setSpeed(data.speed)))
+
+    socket.on("replay-stop", () =>
+        withPlayer((p) => {
+            p.stop()
+            player = undefined
+        }),
+    )
+
+    socket.on("disconnect", () => {
+        player?.stop()
+        player = undefined
+    })
+}
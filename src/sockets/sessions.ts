@@ -0,0 +1,39 @@
+import { stateStore } from "../scaling"
+import { inviteService, sessionService } from "../services"
+import type { SessionActor } from "../services/sessions"
+import type { TrackingSession } from "../types"
+import type { SocketContext } from "./context"
+
+/**
+ * Tells session members about metadata changes, and ends the session for everyone when it is closed.
+ * Participants of a closed session are removed outright, so their resume tokens stop working, and
+ * pending join requests are turned down.
+ */
+export const relaySessionEvents = (ctx: SocketContext): void => {
+    sessionService.events.on("updated", (session: TrackingSession) => {
+        ctx.io.to(`tracking-${session.id}`).emit("session-updated", session)
+    })
+
+    sessionService.events.on("closed", (session: TrackingSession, actor: SessionActor) => {
+        const room = `tracking-${session.id}`
+
+        // Queued before the disconnect, so clients receive the reason
+        ctx.io.to(room).emit("session-closed", {
+            sessionId: session.id,
+            reason: session.closeReason,
+            closedBy: { accountId: actor.accountId, name: actor.name },
+            timestamp: session.closedAt!,
+        })
+        ctx.io.in(room).disconnectSockets(false)
+
+        stateStore.listUsers(session.id).forEach((user) => {
+            stateStore.removeSessionMember(session.id, user.id)
+            ctx.removeUser(user.id)
+        })
+
+        // Nobody still waiting to get in will be let in now
+        inviteService.listRequests(session.id).forEach((request) => inviteService.cancel(request.id, "Session closed"))
+
+        console.log(`🔒 ${actor.name} closed session: ${session.id}`)
+    })
+}
@@ -0,0 +1,120 @@
+import { randomUUID } from "crypto"
+import { stateStore } from "../scaling"
+import { taskService } from "../services"
+import { TaskError, type TaskActor } from "../services/tasks"
+import type { ChatMessage, Task, TaskStatus, User } from "../types"
+import type { SocketContext } from "./context"
+import type { TrackingSocket } from "./contract"
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+    assigned: "assigned",
+    "en-route": "en route",
+    "on-site": "on site",
+    done: "done",
+}
+
+export const taskActor = (user: User): TaskActor => ({ accountId: user.accountId, userId: user.id, name: user.name, role: user.role })
+
+/**
+ * Relays task changes to the session and records each one in its message stream as a "task"
+ * entry from the participant who made it.
+ */
+export const relayTaskEvents = (ctx: SocketContext): void => {
+    // Assignees by name where they are in the session, by account id otherwise
+    const assigneeNames = (task: Task): string => {
+        const participants = stateStore.listUsers(task.sessionId)
+        return task.assignees
+            .map((accountId) => participants.find((user) => user.accountId === accountId)?.name ?? accountId)
+            .join(", ")
+    }
+
+    const post = (task: Task, actor: TaskActor, change: NonNullable<ChatMessage["task"]>["change"], text: string): void => {
+        ctx.postMessage({
+            id: randomUUID(),
+            sessionId: task.sessionId,
+            userId: actor.userId,
+            accountId: actor.accountId,
+            userName: actor.name,
+            userRole: actor.role,
+            message: text,
+            timestamp: ctx.getCurrentTimestamp(),
+            location: stateStore.getUser(actor.userId)?.location ?? null,
+            messageType: "task",
+            edited: false,
+            reactions: {},
+            task: { id: task.id, title: task.title, status: task.status, change },
+        }).catch((error) => console.error("❌ Failed to post task entry:", error))
+    }
+
+    taskService.events.on("created", (task: Task, actor: TaskActor) => {
+        ctx.broadcast(task.sessionId, "task-created", task)
+        post(task, actor, "created", `Created task "${task.title}" for ${assigneeNames(task)}`)
+        console.log(`📋 ${actor.name} created task "${task.title}" in session: ${task.sessionId}`)
+    })
+
+    taskService.events.on("assigned", (task: Task, actor: TaskActor) => {
+        ctx.broadcast(task.sessionId, "task-assigned", task)
+        post(task, actor, "assigned", `Assigned task "${task.title}" to ${assigneeNames(task)}`)
+    })
+
+    taskService.events.on("updated", (task: Task, actor: TaskActor) => {
+        ctx.broadcast(task.sessionId, "task-updated", task)
+        post(task, actor, "updated", `Updated task "${task.title}"`)
+    })
+
+    taskService.events.on("status", (task: Task, actor: TaskActor, automatic: boolean) => {
+        ctx.broadcast(task.sessionId, "task-updated", task)
+        const text = automatic
+            ? `Arrived on site for task "${task.title}"`
+            : `Task "${task.title}" is now ${STATUS_LABELS[task.status]}`
+        post(task, actor, "status", text)
+    })
+}
+
+export const registerTaskHandlers = (socket: TrackingSocket, ctx: SocketContext): void => {
+    // Runs a task command for the socket's participant, mapping task errors to socket errors
+    const handle = async (event: string, run: (user: User) => Promise<void>) => {
+        try {
+            const user = ctx.getUser(socket.id)
+            if (!user) {
+                socket.emit("error", { message: "User not found", code: "USER_NOT_FOUND" })
+                return
+            }
+
+            await run(user)
+        } catch (error) {
+            if (error instanceof TaskError) {
+                socket.emit("error", { message: error.message, code: error.code, field: error.field })
+                return
+            }
+            console.error(`❌ Error in ${event}:`, error)
+            socket.emit("error", { message: "Failed to handle task", code: "TASK_ERROR" })
+        }
+    }
+
+    socket.on("task-create", (data) =>
+        handle("task-create", async (user) => {
+            await taskService.create(user.sessionId, data, taskActor(user))
+        }),
+    )
+
+    socket.on("task-assign", (data) =>
+        handle("task-assign", async (user) => {
+            await taskService.assign(user.sessionId, data, taskActor(user))
+        }),
+    )
+
+    socket.on("task-update", (data) =>
+        handle("task-update", async (user) => {
+            await taskService.update(user.sessionId, data, taskActor(user))
+        }),
+    )
+
+    // Optionally narrowed to some statuses or one assignee's account
+    socket.on("tasks-list", (data) =>
+        handle("tasks-list", async (user) => {
+            const tasks = await taskService.list(user.sessionId, { statuses: data?.status, assignee: data?.assignee })
+            socket.emit("tasks-list", { sessionId: user.sessionId, tasks })
+        }),
+    )
+}
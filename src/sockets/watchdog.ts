@@ -0,0 +1,26 @@
+import { watchdog } from "../services"
+import type { InactivityAlert } from "../services/watchdog"
+import type { SocketContext } from "./context"
+
+const REASONS: Record<InactivityAlert["reason"], string> = {
+    stationary: "has not moved",
+    silent: "stopped reporting",
+    connection: "has a failing connection",
+}
+
+// Inactivity alerts go to the session's supervisors only, with the participant's last known position
+export const relayWatchdogEvents = (ctx: SocketContext): void => {
+    const supervisors = (alert: InactivityAlert): string[] => [
+        ctx.roleRoom(alert.sessionId, "admin"),
+        ctx.roleRoom(alert.sessionId, "moderator"),
+    ]
+
+    watchdog.events.on("inactive", (alert: InactivityAlert) => {
+        ctx.io.to(supervisors(alert)).emit("worker-inactive", alert)
+        console.log(`🛑 ${alert.userName} ${REASONS[alert.reason]} since ${alert.since} in session: ${alert.sessionId}`)
+    })
+
+    watchdog.events.on("active", (alert: InactivityAlert) => {
+        ctx.io.to(supervisors(alert)).emit("worker-active", alert)
+    })
+}
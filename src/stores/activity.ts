@@ -0,0 +1,53 @@
+import { randomUUID } from "crypto"
+import type { Role } from "../types"
+import type { EventLog } from "./eventLog"
+
+export type ActivityType = "join" | "leave" | "status" | "geofence-enter" | "geofence-exit"
+
+/**
+ * A presence-related fact about one participant, used to derive timesheets.
+ */
+export interface ActivityEvent {
+    id: string
+    sessionId: string
+    type: ActivityType
+    accountId: string
+    userId: string // participant id at the time of the event
+    userName: string
+    role: Role
+    timestamp: string
+    data?: Record<string, any>
+}
+
+export interface ActivityQuery {
+    from?: number // epoch ms, inclusive
+    to?: number // epoch ms, inclusive
+    accountId?: string
+}
+
+export interface ActivityStore {
+    record(event: Omit<ActivityEvent, "id">): Promise<ActivityEvent>
+    list(sessionId: string, query?: ActivityQuery): Promise<ActivityEvent[]>
+}
+
+export const createActivityStore = (log: EventLog<ActivityEvent>): ActivityStore => ({
+    async record(event) {
+        const stored: ActivityEvent = { id: randomUUID(), ...event }
+        await log.append(event.sessionId, stored)
+        return stored
+    },
+
+    async list(sessionId, query = {}) {
+        const events = await log.read(sessionId)
+        return events
+            .filter((event) => {
+                const time = new Date(event.timestamp).getTime()
+                return (
+                    (query.from === undefined || time >= query.from) &&
+                    (query.to === undefined || time <= query.to) &&
+                    (!query.accountId || event.accountId === query.accountId)
+                )
+            })
+            .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    },
+})
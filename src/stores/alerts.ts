@@ -0,0 +1,48 @@
+import type { SosAlert } from "../types"
+import { appendJsonLine, readJsonLines } from "./jsonl"
+
+/**
+ * Durable SOS alerts. The alert service keeps the working copy in memory and writes every
+ * change through to this store.
+ */
+export interface AlertStore {
+    list(): Promise<SosAlert[]>
+    save(alert: SosAlert): Promise<void>
+}
+
+export const createMemoryAlertStore = (): AlertStore => {
+    const alerts = new Map<string, SosAlert>()
+
+    return {
+        async list() {
+            return Array.from(alerts.values())
+        },
+
+        async save(alert) {
+            alerts.set(alert.id, alert)
+        },
+    }
+}
+
+/**
+ * Stores every version of every alert as a JSON line; later lines replace earlier ones with the
+ * same id, so the file doubles as the alert's history.
+ */
+export const createFileAlertStore = (file: string): AlertStore => {
+    let writeQueue: Promise<void> = Promise.resolve()
+
+    return {
+        async list() {
+            const alerts = new Map<string, SosAlert>()
+            const records = await readJsonLines<SosAlert>(file)
+            records.forEach((record) => alerts.set(record.id, record))
+            return Array.from(alerts.values())
+        },
+
+        save(alert) {
+            const write = writeQueue.then(() => appendJsonLine(file, alert))
+            writeQueue = write.catch(() => undefined)
+            return write
+        },
+    }
+}
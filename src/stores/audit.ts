@@ -0,0 +1,232 @@
+import { createHash, randomUUID } from "crypto"
+import { config } from "../config"
+import type { Role } from "../types"
+import type { EventLog } from "./eventLog"
+
+export type AuditType =
+    | "join"
+    | "role-change"
+    | "kick"
+    | "mute"
+    | "unmute"
+    | "ban"
+    | "unban"
+    | "message-edit"
+    | "message-delete"
+    | "geofence-update"
+    | "geofence-delete"
+    | "proximity-rule-update"
+    | "proximity-rule-delete"
+    | "session-create"
+    | "session-update"
+    | "session-close"
+    | "session-archive"
+    | "session-delete"
+    | "invite-create"
+    | "invite-revoke"
+    | "join-approve"
+    | "join-deny"
+    | "sos-raise"
+    | "sos-ack"
+    | "sos-escalate"
+    | "sos-resolve"
+    | "eta-share"
+    | "validation-failure"
+    | "shutdown"
+
+export const AUDIT_TYPES: readonly AuditType[] = [
+    "join",
+    "role-change",
+    "kick",
+    "mute",
+    "unmute",
+    "ban",
+    "unban",
+    "message-edit",
+    "message-delete",
+    "geofence-update",
+    "geofence-delete",
+    "proximity-rule-update",
+    "proximity-rule-delete",
+    "session-create",
+    "session-update",
+    "session-close",
+    "session-archive",
+    "session-delete",
+    "invite-create",
+    "invite-revoke",
+    "join-approve",
+    "join-deny",
+    "sos-raise",
+    "sos-ack",
+    "sos-escalate",
+    "sos-resolve",
+    "eta-share",
+    "validation-failure",
+    "shutdown",
+]
+
+/**
+ * Who performed, or was subject to, an audited action.
+ */
+export interface AuditParty {
+    accountId: string
+    userId?: string // participant id, when the party was in a session
+    name?: string
+    role?: Role
+}
+
+/**
+ * One security- or moderation-relevant fact. Entries are never modified; the payload hash lets
+ * an exported trail be checked against the stored payloads.
+ */
+export interface AuditEntry {
+    id: string
+    type: AuditType
+    sessionId: string | null
+    actor: AuditParty | null // null for system actions such as shutdowns
+    target: AuditParty | null
+    timestamp: string
+    payload: Record<string, any>
+    payloadHash: string // sha256 of the JSON-encoded payload
+}
+
+export interface AuditQuery {
+    sessionId?: string
+    types?: AuditType[]
+    actor?: string // account id
+    target?: string // account id
+    from?: number // epoch ms, inclusive
+    to?: number // epoch ms, inclusive
+    before?: string // entry id cursor from a previous page
+    limit?: number
+}
+
+export interface AuditPage {
+    entries: AuditEntry[] // newest first
+    hasMore: boolean
+    // Cursor for the next (older) page
+    before: string | null
+}
+
+export interface AuditStore {
+    record(entry: Omit<AuditEntry, "id" | "timestamp" | "payloadHash">): Promise<AuditEntry>
+    list(query?: AuditQuery): Promise<AuditPage>
+    // Drops every entry recorded before the given time; returns how many days were removed
+    prune(before: number): Promise<number>
+}
+
+export class AuditCursorError extends Error {
+    constructor(public readonly cursor: string) {
+        super(`Unknown audit cursor: ${cursor}`)
+        this.name = "AuditCursorError"
+    }
+}
+
+// Entries are partitioned by session and UTC day, so a query for one session or time range only
+// reads the days it covers and retention can drop whole days. Entries without a session (and
+// those recorded before the split by session) live in bare day partitions.
+const DAY_PARTITION = /^(?:(.*)\/)?(\d{4}-\d{2}-\d{2})$/
+
+const dayOf = (time: number): string => new Date(time).toISOString().slice(0, 10)
+
+const partitionOf = (sessionId: string | null, day: string): string => (sessionId ? `${sessionId}/${day}` : day)
+
+export const hashPayload = (payload: unknown): string => createHash("sha256").update(JSON.stringify(payload)).digest("hex")
+
+const clampLimit = (limit?: number): number => {
+    if (!limit || !Number.isFinite(limit) || limit <= 0) return config.audit.pageSize
+    return Math.min(Math.floor(limit), config.audit.maxPageSize)
+}
+
+export const createAuditStore = (log: EventLog<AuditEntry>): AuditStore => {
+    // Day → partitions holding that day's entries
+    const partitionsByDay = async (): Promise<Map<string, Array<{ partition: string; sessionId: string | undefined }>>> => {
+        const days = new Map<string, Array<{ partition: string; sessionId: string | undefined }>>()
+        for (const partition of await log.partitions()) {
+            const match = DAY_PARTITION.exec(partition)
+            if (!match) continue
+            if (!days.has(match[2])) days.set(match[2], [])
+            days.get(match[2])!.push({ partition, sessionId: match[1] })
+        }
+        return days
+    }
+
+    return {
+        async record(entry) {
+            const stored: AuditEntry = {
+                id: randomUUID(),
+                ...entry,
+                timestamp: new Date().toISOString(),
+                payloadHash: hashPayload(entry.payload),
+            }
+            await log.append(partitionOf(stored.sessionId, dayOf(Date.now())), stored)
+            return stored
+        },
+
+        async list(query = {}) {
+            const fromDay = query.from !== undefined ? dayOf(query.from) : undefined
+            const toDay = query.to !== undefined ? dayOf(query.to) : undefined
+            const byDay = await partitionsByDay()
+            const days = Array.from(byDay.keys())
+                .filter((day) => (!fromDay || day >= fromDay) && (!toDay || day <= toDay))
+                .sort()
+                .reverse()
+
+            const matches = (entry: AuditEntry): boolean => {
+                const time = new Date(entry.timestamp).getTime()
+                return (
+                    (!query.sessionId || entry.sessionId === query.sessionId) &&
+                    (!query.types?.length || query.types.includes(entry.type)) &&
+                    (!query.actor || entry.actor?.accountId === query.actor) &&
+                    (!query.target || entry.target?.accountId === query.target) &&
+                    (query.from === undefined || time >= query.from) &&
+                    (query.to === undefined || time <= query.to)
+                )
+            }
+
+            // Days are read newest first, only until the page and one entry past it are found
+            const limit = clampLimit(query.limit)
+            const matching: AuditEntry[] = [] // newest first
+            let start = query.before ? -1 : 0
+            for (const day of days) {
+                if (start !== -1 && matching.length > start + limit) break
+
+                const partitions = byDay
+                    .get(day)!
+                    .filter((partition) => !query.sessionId || !partition.sessionId || partition.sessionId === query.sessionId)
+                const entries: AuditEntry[] = []
+                for (const { partition } of partitions) {
+                    entries.push(...(await log.read(partition)))
+                }
+                // Sorting is stable, so entries recorded in the same millisecond keep their order
+                entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+                for (const entry of entries.reverse()) {
+                    if (!matches(entry)) continue
+                    matching.push(entry)
+                    // The page starts after the cursor
+                    if (start === -1 && entry.id === query.before) start = matching.length
+                }
+            }
+            if (start === -1) throw new AuditCursorError(query.before!)
+
+            const page = matching.slice(start, start + limit)
+            return {
+                entries: page,
+                hasMore: start + limit < matching.length,
+                before: page[page.length - 1]?.id ?? null,
+            }
+        },
+
+        async prune(before) {
+            const cutoff = dayOf(before)
+            const expired = Array.from((await partitionsByDay()).entries()).filter(([day]) => day < cutoff)
+            for (const [, partitions] of expired) {
+                for (const { partition } of partitions) {
+                    await log.drop(partition)
+                }
+            }
+            return expired.length
+        },
+    }
+}
@@ -0,0 +1,206 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { PubSub } from "../scaling/pubsub"
+import { appendJsonLine, readJsonLines, safeFileName } from "./jsonl"
+
+/**
+ * Append-only records grouped by a partition key (usually a session id).
+ */
+export interface EventLog<T> {
+    append(partition: string, record: T): Promise<void>
+    read(partition: string): Promise<T[]>
+    partitions(): Promise<string[]>
+    // Removes a whole partition; used for retention, records are never removed individually
+    drop(partition: string): Promise<void>
+    // Takes in a record another node appended, without writing it out
+    apply(partition: string, record: T): Promise<void>
+}
+
+export const createMemoryEventLog = <T>(): EventLog<T> => {
+    const partitions = new Map<string, T[]>()
+
+    return {
+        async append(partition, record) {
+            if (!partitions.has(partition)) partitions.set(partition, [])
+            partitions.get(partition)!.push(record)
+        },
+
+        async read(partition) {
+            return partitions.get(partition) || []
+        },
+
+        async partitions() {
+            return Array.from(partitions.keys())
+        },
+
+        async drop(partition) {
+            partitions.delete(partition)
+        },
+
+        async apply(partition, record) {
+            if (!partitions.has(partition)) partitions.set(partition, [])
+            partitions.get(partition)!.push(record)
+        },
+    }
+}
+
+/**
+ * One JSON Lines file per partition. Up to `cacheSize` partitions are kept in memory once read,
+ * the least recently used being let go first. Writes and cache changes are serialized per
+ * partition, so records keep their append order on disk and a partition is only read back once
+ * the writes queued before it have landed.
+ */
+export const createFileEventLog = <T>(directory: string, cacheSize = Infinity): EventLog<T> => {
+    const memory = createMemoryEventLog<T>()
+    const loaded = new Map<string, Promise<void>>() // least recently used first
+    const writeQueues = new Map<string, Promise<void>>()
+
+    const fileFor = (partition: string): string => path.join(directory, `${safeFileName(partition)}.jsonl`)
+
+    const enqueue = (partition: string, task: () => Promise<void>): Promise<void> => {
+        const next = (writeQueues.get(partition) || Promise.resolve()).then(task)
+        writeQueues.set(
+            partition,
+            next.catch((error) => console.error(`❌ Failed to write ${fileFor(partition)}:`, error)),
+        )
+        return next
+    }
+
+    const evict = (): void => {
+        for (const partition of loaded.keys()) {
+            if (loaded.size <= cacheSize) return
+            loaded.delete(partition)
+            enqueue(partition, () => memory.drop(partition))
+        }
+    }
+
+    const load = (partition: string): Promise<void> => {
+        let loading = loaded.get(partition)
+        if (loading) {
+            loaded.delete(partition)
+        } else {
+            loading = enqueue(partition, async () => {
+                const records = await readJsonLines<T>(fileFor(partition))
+                await memory.drop(partition)
+                for (const record of records) {
+                    await memory.append(partition, record)
+                }
+            })
+        }
+        loaded.set(partition, loading)
+        evict()
+        return loading
+    }
+
+    return {
+        async append(partition, record) {
+            await load(partition)
+            await enqueue(partition, async () => {
+                await appendJsonLine(fileFor(partition), record)
+                // Once let go, the record is read back from the file with the rest
+                if (loaded.has(partition)) await memory.append(partition, record)
+            })
+        },
+
+        async read(partition) {
+            // Retried if the partition is let go again before its records could be returned
+            for (;;) {
+                const loading = load(partition)
+                await loading
+                if (loaded.get(partition) === loading) return memory.read(partition)
+            }
+        },
+
+        async partitions() {
+            let files: string[]
+            try {
+                files = await fs.readdir(directory)
+            } catch (error: any) {
+                if (error.code === "ENOENT") return memory.partitions()
+                throw error
+            }
+            const stored = files.filter((file) => file.endsWith(".jsonl")).map((file) => decodeURIComponent(file.slice(0, -6)))
+            return Array.from(new Set([...stored, ...(await memory.partitions())]))
+        },
+
+        async drop(partition) {
+            await enqueue(partition, async () => {
+                await fs.rm(fileFor(partition), { force: true })
+                await memory.drop(partition)
+                loaded.delete(partition)
+            })
+        },
+
+        async apply(partition) {
+            // Nodes share the data directory and the record is published once written, so the
+            // partition is let go and read back from the file with it when next needed
+            if (!loaded.delete(partition)) return
+            await enqueue(partition, () => memory.drop(partition))
+        },
+    }
+}
+
+/**
+ * Keeps every node's copy of an event log in step: records appended on one node are published
+ * over pub/sub once written and applied to the other nodes' logs, and a node that starts late
+ * asks the others for the partitions they hold. Only the node that appended a record writes it
+ * out. Retention runs on every node, so drops stay local.
+ */
+export const createReplicatedEventLog = <T>(pubsub: PubSub, name: string, log: EventLog<T>): EventLog<T> => {
+    const channel = `event-log:${name}`
+    const syncRequestChannel = `${channel}:sync-request`
+    const snapshotChannel = `${channel}:snapshot`
+    const seen = new Set<string>() // partitions this node has seen records for
+
+    const apply = (partition: string, record: T): Promise<void> => {
+        seen.add(partition)
+        return log.apply(partition, record)
+    }
+
+    let synced = false
+    pubsub.subscribe(channel, ({ partition, record }: { partition: string; record: T }) => {
+        apply(partition, record).catch((error) => console.error(`❌ Failed to apply replicated ${name} record:`, error))
+    })
+    pubsub.subscribe(syncRequestChannel, async ({ requester }) => {
+        try {
+            const partitions = await Promise.all(Array.from(seen, async (partition) => ({ partition, records: await log.read(partition) })))
+            pubsub.publish(snapshotChannel, { requester, partitions })
+        } catch (error) {
+            console.error(`❌ Failed to share ${name} records with a new node:`, error)
+        }
+    })
+    pubsub.subscribe(
+        snapshotChannel,
+        async ({ requester, partitions }: { requester: string; partitions: Array<{ partition: string; records: T[] }> }) => {
+            if (requester !== pubsub.nodeId || synced) return
+            synced = true
+            try {
+                // Partitions this node has records for already are kept as they are
+                for (const { partition, records } of partitions) {
+                    if ((await log.read(partition)).length > 0) continue
+                    for (const record of records) await apply(partition, record)
+                }
+            } catch (error) {
+                console.error(`❌ Failed to apply ${name} snapshot:`, error)
+            }
+        },
+    )
+    pubsub.publish(syncRequestChannel, { requester: pubsub.nodeId })
+
+    return {
+        ...log,
+
+        async append(partition, record) {
+            await log.append(partition, record)
+            seen.add(partition)
+            pubsub.publish(channel, { partition, record })
+        },
+
+        async drop(partition) {
+            await log.drop(partition)
+            seen.delete(partition)
+        },
+
+        apply,
+    }
+}
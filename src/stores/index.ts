@@ -0,0 +1,56 @@
+import path from "path"
+import { config } from "../config"
+import { pubsub } from "../scaling"
+import { createActivityStore, type ActivityEvent, type ActivityStore } from "./activity"
+import { createFileAlertStore, createMemoryAlertStore, type AlertStore } from "./alerts"
+import { createAuditStore, type AuditEntry, type AuditStore } from "./audit"
+import { createFileEventLog, createMemoryEventLog, createReplicatedEventLog } from "./eventLog"
+import { createLocationStore, type LocationPoint, type LocationStore } from "./locations"
+import { createFileMessageStore, createMemoryMessageStore, createReplicatedMessageStore, type MessageStore } from "./messages"
+import { createFileSessionStore, createMemorySessionStore, type SessionStore } from "./sessions"
+import { createFileTaskStore, createMemoryTaskStore, type TaskStore } from "./tasks"
+
+const useFiles = config.storage.driver === "file"
+const dataPath = (name: string): string => path.join(config.storage.dataDir, name)
+const cacheSize = config.storage.cachedPartitions
+
+export const messageStore: MessageStore = createReplicatedMessageStore(
+    pubsub,
+    useFiles ? createFileMessageStore(dataPath("messages")) : createMemoryMessageStore(),
+)
+
+export const activityStore: ActivityStore = createActivityStore(
+    createReplicatedEventLog(
+        pubsub,
+        "activity",
+        useFiles ? createFileEventLog<ActivityEvent>(dataPath("activity"), cacheSize) : createMemoryEventLog<ActivityEvent>(),
+    ),
+)
+
+export const locationStore: LocationStore = createLocationStore(
+    createReplicatedEventLog(
+        pubsub,
+        "locations",
+        useFiles ? createFileEventLog<LocationPoint>(dataPath("locations"), cacheSize) : createMemoryEventLog<LocationPoint>(),
+    ),
+)
+
+export const sessionStore: SessionStore = useFiles
+    ? createFileSessionStore(dataPath("sessions.jsonl"))
+    : createMemorySessionStore()
+
+export const alertStore: AlertStore = useFiles ? createFileAlertStore(dataPath("alerts.jsonl")) : createMemoryAlertStore()
+
+export const taskStore: TaskStore = useFiles ? createFileTaskStore(dataPath("tasks.jsonl")) : createMemoryTaskStore()
+
+export const auditStore: AuditStore = createAuditStore(
+    createReplicatedEventLog(
+        pubsub,
+        "audit",
+        useFiles ? createFileEventLog<AuditEntry>(dataPath("audit"), cacheSize) : createMemoryEventLog<AuditEntry>(),
+    ),
+)
+
+if (useFiles) {
+    console.log(`💾 File storage enabled at ${path.resolve(config.storage.dataDir)}`)
+}
@@ -0,0 +1,34 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+/**
+ * Minimal helpers for append-only JSON Lines files used by the file storage driver.
+ */
+export const appendJsonLine = async (file: string, record: unknown): Promise<void> => {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.appendFile(file, JSON.stringify(record) + "\n", "utf8")
+}
+
+export const readJsonLines = async <T>(file: string): Promise<T[]> => {
+    let content: string
+    try {
+        content = await fs.readFile(file, "utf8")
+    } catch (error: any) {
+        if (error.code === "ENOENT") return []
+        throw error
+    }
+
+    const records: T[] = []
+    content.split("\n").forEach((line, index) => {
+        if (!line.trim()) return
+        try {
+            records.push(JSON.parse(line))
+        } catch {
+            console.warn(`⚠️ Skipping corrupt line ${index + 1} in ${file}`)
+        }
+    })
+    return records
+}
+
+// Session ids are user supplied, so never use them as raw path segments
+export const safeFileName = (name: string): string => encodeURIComponent(name).replace(/\./g, "%2E")
@@ -0,0 +1,120 @@
+import type { EventLog } from "./eventLog"
+
+/**
+ * One accepted fix, as recorded for history and export.
+ */
+export interface LocationPoint {
+    sessionId: string
+    accountId: string
+    userId: string // participant id at the time of the fix
+    userName: string
+    latitude: number
+    longitude: number
+    accuracy: number | null
+    speed: number | null
+    heading: number | null
+    timestamp: string // when the fix was taken (client time when supplied)
+    receivedAt: string // when the server accepted it
+    flagged?: "LOW_ACCURACY" | "IMPLAUSIBLE_SPEED" // rejected by the quality filter, kept for debugging
+}
+
+export interface LocationQuery {
+    accountId?: string
+    from?: number // epoch ms, inclusive
+    to?: number // epoch ms, inclusive
+    includeFlagged?: boolean
+}
+
+export interface LocationStore {
+    append(point: LocationPoint): Promise<void>
+    // Points sorted by fix timestamp, regardless of arrival order
+    list(sessionId: string, query?: LocationQuery): Promise<LocationPoint[]>
+    // Drops history from UTC days before `before` (epoch ms); resolves with how many session-days were dropped
+    prune(before: number): Promise<number>
+}
+
+// History is partitioned by session and UTC day of the fix, so a time-range read only touches the
+// days it covers and retention can drop whole days
+const DAY_PARTITION = /^(.*)\/(\d{4}-\d{2}-\d{2})$/
+
+const dayOf = (time: number): string => new Date(time).toISOString().slice(0, 10)
+
+const partitionOf = (sessionId: string, day: string): string => `${sessionId}/${day}`
+
+export const createLocationStore = (log: EventLog<LocationPoint>): LocationStore => {
+    let migration: Promise<void> | undefined
+
+    // History recorded before it was split by day, one partition per session, is split once
+    const split = async (): Promise<void> => {
+        for (const partition of await log.partitions()) {
+            if (DAY_PARTITION.test(partition)) continue
+            for (const point of await log.read(partition)) {
+                await log.append(partitionOf(partition, dayOf(new Date(point.timestamp).getTime())), point)
+            }
+            await log.drop(partition)
+        }
+    }
+
+    const migrated = (): Promise<void> => {
+        if (!migration) migration = split()
+        return migration
+    }
+
+    // Read from the log's partitions each time, so days recorded by other nodes are found too
+    const indexed = async (): Promise<Map<string, Set<string>>> => {
+        await migrated()
+        const days = new Map<string, Set<string>>() // session id → days with history
+        for (const partition of await log.partitions()) {
+            const match = DAY_PARTITION.exec(partition)
+            if (!match) continue
+            if (!days.has(match[1])) days.set(match[1], new Set())
+            days.get(match[1])!.add(match[2])
+        }
+        return days
+    }
+
+    return {
+        async append(point) {
+            await migrated()
+            await log.append(partitionOf(point.sessionId, dayOf(new Date(point.timestamp).getTime())), point)
+        },
+
+        async list(sessionId, query = {}) {
+            const fromDay = query.from !== undefined ? dayOf(query.from) : undefined
+            const toDay = query.to !== undefined ? dayOf(query.to) : undefined
+            const days = Array.from((await indexed()).get(sessionId) || [])
+                .filter((day) => (!fromDay || day >= fromDay) && (!toDay || day <= toDay))
+                .sort()
+
+            const points: LocationPoint[] = []
+            for (const day of days) {
+                const stored = await log.read(partitionOf(sessionId, day))
+                stored.forEach((point) => {
+                    const time = new Date(point.timestamp).getTime()
+                    if (
+                        (query.includeFlagged || !point.flagged) &&
+                        (!query.accountId || point.accountId === query.accountId) &&
+                        (query.from === undefined || time >= query.from) &&
+                        (query.to === undefined || time <= query.to)
+                    ) {
+                        points.push(point)
+                    }
+                })
+            }
+            return points.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+        },
+
+        async prune(before) {
+            const cutoff = dayOf(before)
+            const sessions = await indexed()
+            let dropped = 0
+            for (const [sessionId, days] of sessions) {
+                for (const day of Array.from(days).filter((day) => day < cutoff)) {
+                    await log.drop(partitionOf(sessionId, day))
+                    dropped++
+                }
+            }
+            return dropped
+        },
+    }
+}
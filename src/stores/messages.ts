@@ -0,0 +1,292 @@
+import path from "path"
+import { config } from "../config"
+import type { PubSub } from "../scaling/pubsub"
+import type { ChatMessage } from "../types"
+import { appendJsonLine, readJsonLines, safeFileName } from "./jsonl"
+
+export interface MessageQuery {
+    before?: string // message id: return messages older than this one
+    after?: string // message id: return messages newer than this one
+    limit?: number
+}
+
+export interface MessagePage {
+    sessionId: string
+    messages: ChatMessage[]
+    hasMore: boolean
+    // Cursors for the next page in each direction
+    before: string | null
+    after: string | null
+}
+
+/**
+ * Receives the current record and returns the fields to change, or null to leave it untouched.
+ * Runs synchronously against the stored record so concurrent updates cannot interleave.
+ */
+export type MessageMutator = (current: ChatMessage) => Partial<ChatMessage> | null
+
+export interface MessageStore {
+    append(message: ChatMessage): Promise<ChatMessage>
+    update(sessionId: string, messageId: string, mutate: MessageMutator): Promise<{ message: ChatMessage; changed: boolean } | undefined>
+    get(sessionId: string, messageId: string): Promise<ChatMessage | undefined>
+    findByClientId(sessionId: string, accountId: string, clientMessageId: string): Promise<ChatMessage | undefined>
+    list(sessionId: string, query?: MessageQuery): Promise<MessagePage>
+    // All messages with a timestamp inside the window (epoch ms, inclusive)
+    range(sessionId: string, from: number, to: number): Promise<ChatMessage[]>
+    // Takes in a record written by another node, replacing the copy with the same id, without writing it out
+    apply(message: ChatMessage): Promise<void>
+}
+
+export class CursorNotFoundError extends Error {
+    constructor(public readonly cursor: string) {
+        super(`Unknown message cursor: ${cursor}`)
+        this.name = "CursorNotFoundError"
+    }
+}
+
+const withinRange = (messages: ChatMessage[], from: number, to: number): ChatMessage[] =>
+    messages.filter((m) => {
+        const time = new Date(m.timestamp).getTime()
+        return time >= from && time <= to
+    })
+
+// Replaces the message with the same id in place, or adds it at the end
+const upsert = (messages: ChatMessage[], message: ChatMessage): void => {
+    const index = messages.findIndex((m) => m.id === message.id)
+    if (index === -1) messages.push(message)
+    else messages[index] = message
+}
+
+const clampLimit = (limit?: number): number => {
+    if (!limit || !Number.isFinite(limit) || limit <= 0) return config.messages.pageSize
+    return Math.min(Math.floor(limit), config.messages.maxPageSize)
+}
+
+/**
+ * Slices a chronologically ordered list by cursor. Without cursors the latest page is returned;
+ * with `after` the page walks forward, otherwise backward. Results are always oldest → newest.
+ */
+const paginate = (sessionId: string, messages: ChatMessage[], query: MessageQuery = {}): MessagePage => {
+    const limit = clampLimit(query.limit)
+    const indexOf = (cursor: string): number => {
+        const index = messages.findIndex((m) => m.id === cursor)
+        if (index === -1) throw new CursorNotFoundError(cursor)
+        return index
+    }
+
+    let start: number
+    let end: number
+    let hasMore: boolean
+
+    if (query.after) {
+        start = indexOf(query.after) + 1
+        end = query.before ? indexOf(query.before) : messages.length
+        hasMore = end - start > limit
+        end = Math.min(end, start + limit)
+    } else {
+        end = query.before ? indexOf(query.before) : messages.length
+        start = Math.max(0, end - limit)
+        hasMore = start > 0
+    }
+
+    const page = start < end ? messages.slice(start, end) : []
+
+    return {
+        sessionId,
+        messages: page,
+        hasMore,
+        before: page[0]?.id ?? null,
+        after: page[page.length - 1]?.id ?? null,
+    }
+}
+
+export const createMemoryMessageStore = (): MessageStore => {
+    const sessions = new Map<string, ChatMessage[]>()
+
+    return {
+        async append(message) {
+            if (!sessions.has(message.sessionId)) {
+                sessions.set(message.sessionId, [])
+            }
+            sessions.get(message.sessionId)!.push(message)
+            return message
+        },
+
+        async update(sessionId, messageId, mutate) {
+            const messages = sessions.get(sessionId) || []
+            const index = messages.findIndex((m) => m.id === messageId)
+            if (index === -1) return undefined
+
+            const patch = mutate(messages[index])
+            if (!patch) return { message: messages[index], changed: false }
+
+            messages[index] = { ...messages[index], ...patch }
+            return { message: messages[index], changed: true }
+        },
+
+        async get(sessionId, messageId) {
+            return sessions.get(sessionId)?.find((m) => m.id === messageId)
+        },
+
+        async findByClientId(sessionId, accountId, clientMessageId) {
+            return sessions.get(sessionId)?.find((m) => m.accountId === accountId && m.clientMessageId === clientMessageId)
+        },
+
+        async list(sessionId, query) {
+            return paginate(sessionId, sessions.get(sessionId) || [], query)
+        },
+
+        async range(sessionId, from, to) {
+            return withinRange(sessions.get(sessionId) || [], from, to)
+        },
+
+        async apply(message) {
+            if (!sessions.has(message.sessionId)) {
+                sessions.set(message.sessionId, [])
+            }
+            upsert(sessions.get(message.sessionId)!, message)
+        },
+    }
+}
+
+/**
+ * Stores one JSON Lines file per session. Files are loaded lazily and cached; writes are
+ * serialized per session so lines keep their append order. Later lines with an existing id
+ * replace the earlier record in place.
+ */
+export const createFileMessageStore = (directory: string): MessageStore => {
+    const cache = new Map<string, Promise<ChatMessage[]>>()
+    const writeQueues = new Map<string, Promise<void>>()
+
+    const fileFor = (sessionId: string): string => path.join(directory, `${safeFileName(sessionId)}.jsonl`)
+
+    const load = (sessionId: string): Promise<ChatMessage[]> => {
+        if (!cache.has(sessionId)) {
+            cache.set(
+                sessionId,
+                readJsonLines<ChatMessage>(fileFor(sessionId)).then((records) => {
+                    const byId = new Map<string, ChatMessage>()
+                    records.forEach((record) => byId.set(record.id, record))
+                    return Array.from(byId.values())
+                }),
+            )
+        }
+        return cache.get(sessionId)!
+    }
+
+    const persist = (sessionId: string, record: ChatMessage): Promise<void> => {
+        const previous = writeQueues.get(sessionId) || Promise.resolve()
+        const next = previous.then(() => appendJsonLine(fileFor(sessionId), record))
+        writeQueues.set(
+            sessionId,
+            next.catch((error) => console.error(`❌ Failed to persist message for ${sessionId}:`, error)),
+        )
+        return next
+    }
+
+    return {
+        async append(message) {
+            const messages = await load(message.sessionId)
+            messages.push(message)
+            await persist(message.sessionId, message)
+            return message
+        },
+
+        async update(sessionId, messageId, mutate) {
+            const messages = await load(sessionId)
+            const index = messages.findIndex((m) => m.id === messageId)
+            if (index === -1) return undefined
+
+            const patch = mutate(messages[index])
+            if (!patch) return { message: messages[index], changed: false }
+
+            messages[index] = { ...messages[index], ...patch }
+            await persist(sessionId, messages[index])
+            return { message: messages[index], changed: true }
+        },
+
+        async get(sessionId, messageId) {
+            return (await load(sessionId)).find((m) => m.id === messageId)
+        },
+
+        async findByClientId(sessionId, accountId, clientMessageId) {
+            return (await load(sessionId)).find((m) => m.accountId === accountId && m.clientMessageId === clientMessageId)
+        },
+
+        async list(sessionId, query) {
+            return paginate(sessionId, await load(sessionId), query)
+        },
+
+        async range(sessionId, from, to) {
+            return withinRange(await load(sessionId), from, to)
+        },
+
+        async apply(message) {
+            // The writing node may not have flushed the line yet, so the cache is updated either way
+            upsert(await load(message.sessionId), message)
+        },
+    }
+}
+
+const MESSAGE_CHANNEL = "messages"
+const SYNC_REQUEST_CHANNEL = "messages:sync-request"
+const SNAPSHOT_CHANNEL = "messages:snapshot"
+
+/**
+ * Keeps every node's copy of the messages in step: records appended or changed on one node are
+ * published over pub/sub and applied to the other nodes' stores, and a node that starts late asks
+ * the others for the sessions they hold. Only the node that made a change writes it out.
+ * Concurrent changes to one message on two nodes resolve to the one published last.
+ */
+export const createReplicatedMessageStore = (pubsub: PubSub, store: MessageStore): MessageStore => {
+    const sessionIds = new Set<string>() // sessions this node has seen messages for
+
+    const apply = (message: ChatMessage): Promise<void> => {
+        sessionIds.add(message.sessionId)
+        return store.apply(message)
+    }
+
+    let synced = false
+    pubsub.subscribe(MESSAGE_CHANNEL, (message: ChatMessage) => {
+        apply(message).catch((error) => console.error("❌ Failed to apply replicated message:", error))
+    })
+    pubsub.subscribe(SYNC_REQUEST_CHANNEL, async ({ requester }) => {
+        try {
+            const sessions = await Promise.all(Array.from(sessionIds, (sessionId) => store.range(sessionId, -Infinity, Infinity)))
+            pubsub.publish(SNAPSHOT_CHANNEL, { requester, messages: sessions.flat() })
+        } catch (error) {
+            console.error("❌ Failed to share messages with a new node:", error)
+        }
+    })
+    pubsub.subscribe(SNAPSHOT_CHANNEL, async ({ requester, messages }: { requester: string; messages: ChatMessage[] }) => {
+        if (requester !== pubsub.nodeId || synced) return
+        synced = true
+        try {
+            for (const message of messages) {
+                if (!(await store.get(message.sessionId, message.id))) await apply(message)
+            }
+        } catch (error) {
+            console.error("❌ Failed to apply message snapshot:", error)
+        }
+    })
+    pubsub.publish(SYNC_REQUEST_CHANNEL, { requester: pubsub.nodeId })
+
+    return {
+        ...store,
+
+        async append(message) {
+            const stored = await store.append(message)
+            sessionIds.add(stored.sessionId)
+            pubsub.publish(MESSAGE_CHANNEL, stored)
+            return stored
+        },
+
+        async update(sessionId, messageId, mutate) {
+            const result = await store.update(sessionId, messageId, mutate)
+            if (result?.changed) pubsub.publish(MESSAGE_CHANNEL, result.message)
+            return result
+        },
+
+        apply,
+    }
+}
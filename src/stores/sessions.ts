@@ -0,0 +1,63 @@
+import type { TrackingSession } from "../types"
+import { appendJsonLine, readJsonLines } from "./jsonl"
+
+/**
+ * Durable session metadata. The session service keeps the working copy in memory and writes
+ * every change through to this store.
+ */
+export interface SessionStore {
+    list(): Promise<TrackingSession[]>
+    save(session: TrackingSession): Promise<void>
+    delete(sessionId: string): Promise<void>
+}
+
+export const createMemorySessionStore = (): SessionStore => {
+    const sessions = new Map<string, TrackingSession>()
+
+    return {
+        async list() {
+            return Array.from(sessions.values())
+        },
+
+        async save(session) {
+            sessions.set(session.id, session)
+        },
+
+        async delete(sessionId) {
+            sessions.delete(sessionId)
+        },
+    }
+}
+
+/**
+ * Stores every version of every session as a JSON line. Later lines replace earlier ones with
+ * the same id; a deletion is recorded as a tombstone line.
+ */
+export const createFileSessionStore = (file: string): SessionStore => {
+    let writeQueue: Promise<void> = Promise.resolve()
+
+    const append = (record: TrackingSession | { id: string; deleted: true }): Promise<void> => {
+        const write = writeQueue.then(() => appendJsonLine(file, record))
+        writeQueue = write.catch(() => undefined)
+        return write
+    }
+
+    return {
+        async list() {
+            const sessions = new Map<string, TrackingSession>()
+            const records = await readJsonLines<TrackingSession | { id: string; deleted: true }>(file)
+            records.forEach((record) => {
+                if ("deleted" in record) {
+                    sessions.delete(record.id)
+                } else {
+                    sessions.set(record.id, record)
+                }
+            })
+            return Array.from(sessions.values())
+        },
+
+        save: (session) => append(session),
+
+        delete: (sessionId) => append({ id: sessionId, deleted: true }),
+    }
+}
@@ -0,0 +1,48 @@
+import type { Task } from "../types"
+import { appendJsonLine, readJsonLines } from "./jsonl"
+
+/**
+ * Durable tasks. The task service keeps the working copy in memory and writes every change
+ * through to this store.
+ */
+export interface TaskStore {
+    list(): Promise<Task[]>
+    save(task: Task): Promise<void>
+}
+
+export const createMemoryTaskStore = (): TaskStore => {
+    const tasks = new Map<string, Task>()
+
+    return {
+        async list() {
+            return Array.from(tasks.values())
+        },
+
+        async save(task) {
+            tasks.set(task.id, task)
+        },
+    }
+}
+
+/**
+ * Stores every version of every task as a JSON line; later lines replace earlier ones with the
+ * same id.
+ */
+export const createFileTaskStore = (file: string): TaskStore => {
+    let writeQueue: Promise<void> = Promise.resolve()
+
+    return {
+        async list() {
+            const tasks = new Map<string, Task>()
+            const records = await readJsonLines<Task>(file)
+            records.forEach((record) => tasks.set(record.id, record))
+            return Array.from(tasks.values())
+        },
+
+        save(task) {
+            const write = writeQueue.then(() => appendJsonLine(file, task))
+            writeQueue = write.catch(() => undefined)
+            return write
+        },
+    }
+}
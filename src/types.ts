@@ -0,0 +1,183 @@
+import type { Coordinates } from "./utils/geo"
+
+export const ROLES = ["admin", "moderator", "worker", "new"] as const
+
+export type Role = (typeof ROLES)[number]
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role)
+
+export const USER_STATUSES = ["online", "away", "offline"] as const
+
+export type UserStatus = (typeof USER_STATUSES)[number]
+
+// "live" shares the position; "paused" (by the user) and "private-zone" (inside one of their
+// privacy zones) keep them present without any coordinates
+export const SHARING_STATES = ["live", "paused", "private-zone"] as const
+
+export type SharingState = (typeof SHARING_STATES)[number]
+
+export interface User {
+    id: string // participant id, kept across reconnects that present the resume token
+    accountId: string // stable identity from the verified token ("sub" claim)
+    name: string
+    role: Role
+    sessionId: string
+    joinedAt: string
+    lastSeen: string
+    status: UserStatus
+    location: Coordinates | null // coarsened for viewers without exact-location access
+    sharing: SharingState
+    accuracy?: number | null
+    speed?: number | null
+    heading?: number | null
+    trail: Array<{
+        latitude: number
+        longitude: number
+        timestamp: string
+    }>
+    isTyping: boolean
+    connectionHealth?: ConnectionHealth
+    distance?: { day: string; meters: number } // travelled on `day` (UTC) over accepted fixes
+    eta?: Eta | null // to the site of the participant's current task, while sharing live
+}
+
+// Estimated arrival at a target point, from the participant's recent movement
+export interface Eta {
+    target: Coordinates
+    taskId: string | null // the task whose site is the target, if any
+    distanceMeters: number // straight line
+    speedMps: number | null // recent average, or the reported speed without enough trail to average
+    approaching: boolean | null // heading towards the target; null without a heading or once there
+    etaSeconds: number | null // null while not moving
+    arrivalAt: string | null
+    computedAt: string
+}
+
+export interface ConnectionHealth {
+    connectedAt: number
+    lastPing: number
+    pingCount: number
+    reconnectCount: number
+    isHealthy: boolean
+    latency?: number
+}
+
+export interface ChatMessage {
+    id: string
+    sessionId: string
+    userId: string
+    accountId: string
+    userName: string
+    userRole: Role
+    message: string
+    timestamp: string
+    location: Coordinates | null // sender's position when the message was sent
+    messageType: string
+    edited: boolean
+    editedAt?: string
+    editHistory?: Array<{ message: string; editedAt: string; editedBy: string }>
+    deleted?: boolean
+    deletedAt?: string
+    deletedBy?: string
+    reactions: Record<string, string[]> // emoji → account ids
+    clientMessageId?: string // sender-chosen id used to drop retried sends
+    task?: { id: string; title: string; status: TaskStatus; change: "created" | "assigned" | "updated" | "status" } // "task" entries only
+}
+
+export const SESSION_STATUSES = ["active", "closed", "archived"] as const
+
+export type SessionStatus = (typeof SESSION_STATUSES)[number]
+
+// "invite" requires an invite code, "approval" holds joins until staff approve them,
+// "locked" keeps the current participants but admits nobody new
+export const JOIN_POLICIES = ["open", "invite", "approval", "locked"] as const
+
+export type JoinPolicy = (typeof JOIN_POLICIES)[number]
+
+export interface TrackingSession {
+    id: string
+    name: string
+    siteAddress: string | null
+    owner: { accountId: string; name: string }
+    status: SessionStatus
+    joinPolicy: JoinPolicy
+    maxParticipants: number | null // null for no limit
+    createdAt: string
+    updatedAt: string
+    closedAt: string | null
+    closedBy: string | null // account id
+    closeReason: string | null
+    archivedAt: string | null
+    stats: SessionStats | null // computed when the session is archived
+    watchdog?: WatchdogSettings | null // inactivity thresholds overriding the server defaults
+}
+
+// When the inactivity watchdog flags a participant; a null duration turns that check off
+export interface WatchdogRules {
+    enabled: boolean
+    stationaryMinutes: number | null // no movement beyond stationaryRadiusMeters
+    stationaryRadiusMeters: number
+    silentMinutes: number | null // no location reports or client activity
+    maxLatencyMs: number | null // pings slower than this, or unanswered, count as a collapsed connection
+    unhealthyMinutes: number // how long the connection has to stay collapsed
+}
+
+// Applied over the server defaults: first the session's defaults, then its per-role rules
+export interface WatchdogSettings {
+    defaults?: Partial<WatchdogRules>
+    roles?: Partial<Record<Role, Partial<WatchdogRules>>>
+}
+
+export const ALERT_STATUSES = ["open", "acknowledged", "resolved"] as const
+
+export type AlertStatus = (typeof ALERT_STATUSES)[number]
+
+// An SOS raised by a participant; kept until someone resolves it, and afterwards for the record
+export interface SosAlert {
+    id: string
+    sessionId: string
+    accountId: string
+    userId: string
+    userName: string
+    role: Role
+    message: string | null
+    location: Coordinates | null // exact, for staff only
+    accuracy: number | null
+    trail: User["trail"]
+    status: AlertStatus
+    raisedAt: string
+    acknowledgedAt: string | null
+    acknowledgedBy: { accountId: string; name: string } | null
+    escalatedAt: string | null // nobody acknowledged within the configured time
+    resolvedAt: string | null
+    resolvedBy: { accountId: string; name: string } | null
+    notes: string | null
+}
+
+// Tasks move forward through these; "on-site" is also set automatically when an assignee arrives
+export const TASK_STATUSES = ["assigned", "en-route", "on-site", "done"] as const
+
+export type TaskStatus = (typeof TASK_STATUSES)[number]
+
+export interface Task {
+    id: string
+    sessionId: string
+    title: string
+    notes: string | null
+    site: { location: Coordinates; radius: number; address: string | null } // radius in meters
+    assignees: string[] // account ids
+    dueAt: string | null
+    status: TaskStatus
+    statusHistory: Array<{ status: TaskStatus; at: string; by: { accountId: string; name: string }; automatic: boolean }>
+    createdBy: { accountId: string; name: string }
+    createdAt: string
+    updatedAt: string
+    completedAt: string | null
+}
+
+export interface SessionStats {
+    participants: number // distinct accounts that joined
+    messages: number
+    locationFixes: number
+    durationMs: number // from creation to close
+}
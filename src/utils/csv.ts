@@ -0,0 +1,17 @@
+// Leading characters that make spreadsheet applications evaluate a cell as a formula
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/
+
+const escapeCell = (value: unknown): string => {
+    if (value === null || value === undefined) return ""
+    let text = String(value)
+    // Text such as participant names comes from users; numbers (e.g. negative longitudes) are safe
+    if (typeof value === "string" && FORMULA_TRIGGER.test(text)) text = `'${text}`
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes rows to RFC 4180 CSV with a header line. Text cells that a spreadsheet would run as
+ * a formula are prefixed with a single quote.
+ */
+export const toCsv = (headers: string[], rows: unknown[][]): string =>
+    [headers, ...rows].map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n"
@@ -0,0 +1,81 @@
+export interface Coordinates {
+    latitude: number
+    longitude: number
+}
+
+const EARTH_RADIUS_METERS = 6371000
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180
+
+export const isValidCoordinates = (value: any): value is Coordinates =>
+    Boolean(value) &&
+    typeof value.latitude === "number" &&
+    typeof value.longitude === "number" &&
+    Number.isFinite(value.latitude) &&
+    Number.isFinite(value.longitude) &&
+    value.latitude >= -90 &&
+    value.latitude <= 90 &&
+    value.longitude >= -180 &&
+    value.longitude <= 180
+
+/**
+ * Great-circle distance between two points in meters.
+ */
+export const haversineMeters = (a: Coordinates, b: Coordinates): number => {
+    const dLat = toRadians(b.latitude - a.latitude)
+    const dLng = toRadians(b.longitude - a.longitude)
+    const h =
+        Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/**
+ * Initial compass bearing from one point towards another, in degrees clockwise from north.
+ */
+export const bearingDegrees = (a: Coordinates, b: Coordinates): number => {
+    const dLng = toRadians(b.longitude - a.longitude)
+    const y = Math.sin(dLng) * Math.cos(toRadians(b.latitude))
+    const x =
+        Math.cos(toRadians(a.latitude)) * Math.sin(toRadians(b.latitude)) -
+        Math.sin(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.cos(dLng)
+    return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360
+}
+
+/**
+ * Projects a point onto a local flat plane (meters) around an origin. Accurate enough for
+ * job-site sized shapes; not for shapes spanning hundreds of kilometers.
+ */
+const project = (origin: Coordinates, point: Coordinates): { x: number; y: number } => ({
+    x: toRadians(point.longitude - origin.longitude) * EARTH_RADIUS_METERS * Math.cos(toRadians(origin.latitude)),
+    y: toRadians(point.latitude - origin.latitude) * EARTH_RADIUS_METERS,
+})
+
+export const pointInPolygon = (point: Coordinates, polygon: Coordinates[]): boolean => {
+    let inside = false
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i]
+        const b = polygon[j]
+        const crosses =
+            a.latitude > point.latitude !== b.latitude > point.latitude &&
+            point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+        if (crosses) inside = !inside
+    }
+    return inside
+}
+
+/**
+ * Shortest distance in meters from a point to the edges of a polygon.
+ */
+export const distanceToPolygonEdge = (point: Coordinates, polygon: Coordinates[]): number => {
+    let min = Infinity
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = project(point, polygon[j])
+        const b = project(point, polygon[i])
+        const dx = b.x - a.x
+        const dy = b.y - a.y
+        const lengthSquared = dx * dx + dy * dy
+        const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared))
+        min = Math.min(min, Math.hypot(a.x + t * dx, a.y + t * dy))
+    }
+    return min
+}
@@ -0,0 +1,178 @@
+/**
+ * A small runtime schema builder. Each schema validates and normalizes a value, carries the
+ * TypeScript type it produces, and describes itself as JSON Schema (draft 2020-12) so the same
+ * definition can be exported to clients.
+ */
+
+export type JsonSchema = Record<string, any>
+
+export interface Schema<T> {
+    readonly jsonSchema: JsonSchema
+    // Object properties with an optional schema may be omitted
+    readonly optional: boolean
+    // Returns the validated value with unknown object properties removed
+    parse(value: unknown, field?: string): T
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+export class SchemaValidationError extends Error {
+    constructor(
+        message: string,
+        public readonly field: string | undefined,
+        public code?: string,
+    ) {
+        super(message)
+        this.name = "SchemaValidationError"
+    }
+}
+
+type Shape = Record<string, Schema<any>>
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K]["optional"] extends true ? K : never }[keyof S]
+
+type Simplify<T> = { [K in keyof T]: T[K] }
+
+export type ObjectOf<S extends Shape> = Simplify<
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>
+
+const label = (field?: string): string => (field ? `"${field}"` : "Payload")
+
+const fail = (field: string | undefined, message: string): never => {
+    throw new SchemaValidationError(`${label(field)} ${message}`, field)
+}
+
+const child = (field: string | undefined, key: string | number): string =>
+    typeof key === "number" ? `${field || ""}[${key}]` : field ? `${field}.${key}` : key
+
+const schema = <T>(jsonSchema: JsonSchema, parse: (value: unknown, field?: string) => T): Schema<T> => ({
+    jsonSchema,
+    optional: false,
+    parse,
+})
+
+export const s = {
+    string(options: { minLength?: number; maxLength?: number; notBlank?: boolean; description?: string } = {}): Schema<string> {
+        const { minLength, maxLength, notBlank, description } = options
+        return schema(
+            { type: "string", minLength, maxLength, ...(notBlank ? { pattern: "\\S" } : {}), description },
+            (value, field) => {
+                if (typeof value !== "string") return fail(field, "must be a string")
+                if (minLength !== undefined && value.length < minLength) fail(field, `must be at least ${minLength} characters`)
+                if (maxLength !== undefined && value.length > maxLength) fail(field, `must be at most ${maxLength} characters`)
+                if (notBlank && value.trim().length === 0) fail(field, "must not be blank")
+                return value
+            },
+        )
+    },
+
+    number(options: { minimum?: number; maximum?: number; integer?: boolean; description?: string } = {}): Schema<number> {
+        const { minimum, maximum, integer, description } = options
+        return schema({ type: integer ? "integer" : "number", minimum, maximum, description }, (value, field) => {
+            if (typeof value !== "number" || !Number.isFinite(value)) return fail(field, "must be a number")
+            if (integer && !Number.isInteger(value)) fail(field, "must be an integer")
+            if (minimum !== undefined && value < minimum) fail(field, `must be at least ${minimum}`)
+            if (maximum !== undefined && value > maximum) fail(field, `must be at most ${maximum}`)
+            return value
+        })
+    },
+
+    boolean(): Schema<boolean> {
+        return schema({ type: "boolean" }, (value, field) => (typeof value === "boolean" ? value : fail(field, "must be a boolean")))
+    },
+
+    literal<const T extends readonly string[]>(...values: T): Schema<T[number]> {
+        return schema({ type: "string", enum: values }, (value, field) =>
+            values.includes(value as string) ? (value as T[number]) : fail(field, `must be one of: ${values.join(", ")}`),
+        )
+    },
+
+    object<S extends Shape>(shape: S, description?: string): Schema<ObjectOf<S>> {
+        const required = Object.keys(shape).filter((key) => !shape[key].optional)
+        return schema(
+            {
+                type: "object",
+                description,
+                properties: Object.fromEntries(Object.entries(shape).map(([key, property]) => [key, property.jsonSchema])),
+                // Unknown properties are accepted and removed by parse, so the schema allows them too
+                required,
+            },
+            (value, field) => {
+                if (!value || typeof value !== "object" || Array.isArray(value)) return fail(field, "must be an object")
+                const result: Record<string, unknown> = {}
+                for (const [key, property] of Object.entries(shape)) {
+                    const raw = (value as Record<string, unknown>)[key]
+                    if (raw === undefined) {
+                        if (!property.optional) fail(child(field, key), "is required")
+                        continue
+                    }
+                    result[key] = property.parse(raw, child(field, key))
+                }
+                return result as ObjectOf<S>
+            },
+        )
+    },
+
+    array<T>(items: Schema<T>, options: { minItems?: number; maxItems?: number } = {}): Schema<T[]> {
+        const { minItems, maxItems } = options
+        return schema({ type: "array", items: items.jsonSchema, minItems, maxItems }, (value, field) => {
+            if (!Array.isArray(value)) return fail(field, "must be an array")
+            if (minItems !== undefined && value.length < minItems) fail(field, `must contain at least ${minItems} items`)
+            if (maxItems !== undefined && value.length > maxItems) fail(field, `must contain at most ${maxItems} items`)
+            return value.map((item, index) => items.parse(item, child(field, index)))
+        })
+    },
+
+    union<const S extends readonly Schema<any>[]>(...options: S): Schema<Infer<S[number]>> {
+        return schema({ anyOf: options.map((option) => option.jsonSchema) }, (value, field) => {
+            for (const option of options) {
+                try {
+                    return option.parse(value, field)
+                } catch (error) {
+                    if (!(error instanceof SchemaValidationError)) throw error
+                }
+            }
+            return fail(field, "does not match any of the allowed forms")
+        })
+    },
+
+    nullable<T>(inner: Schema<T>): Schema<T | null> {
+        return {
+            ...inner,
+            jsonSchema: { anyOf: [inner.jsonSchema, { type: "null" }] },
+            parse: (value, field) => (value === null ? null : inner.parse(value, field)),
+        }
+    },
+
+    optional<T>(inner: Schema<T>): Schema<T | undefined> & { optional: true } {
+        return {
+            ...inner,
+            optional: true,
+            parse: (value, field) => (value === undefined ? undefined : inner.parse(value, field)),
+        }
+    },
+
+    // Accepted as is; the handler validates it further
+    unknown<T = unknown>(description?: string): Schema<T> {
+        return schema({ description }, (value) => value as T)
+    },
+
+    // Failures inside the schema are reported with this error code unless a nested schema set one
+    coded<T>(inner: Schema<T>, code: string): Schema<T> {
+        return {
+            ...inner,
+            parse: (value, field) => {
+                try {
+                    return inner.parse(value, field)
+                } catch (error) {
+                    if (error instanceof SchemaValidationError && !error.code) error.code = code
+                    throw error
+                }
+            },
+        }
+    },
+}
+
+// Drops keys whose value is undefined so exported schemas stay compact
+export const compactJsonSchema = (value: JsonSchema): JsonSchema => JSON.parse(JSON.stringify(value))
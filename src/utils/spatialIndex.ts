@@ -0,0 +1,96 @@
+import { haversineMeters, type Coordinates } from "./geo"
+
+export interface SpatialMatch {
+    id: string
+    location: Coordinates
+    distance: number // meters
+}
+
+const METERS_PER_DEGREE = 111320
+
+/**
+ * Points bucketed into a grid of `cellSize` degree cells, partitioned by group (a session). A
+ * radius query only visits the cells its circle overlaps, falling back to scanning the group
+ * when that would be more cells than the group has points, or the circle crosses the antimeridian.
+ */
+export const createSpatialIndex = (cellSize: number) => {
+    const points = new Map<string, { group: string; location: Coordinates; cell: string }>() // id → point
+    const cells = new Map<string, Set<string>>() // `${group}:${row}:${col}` → ids
+    const groups = new Map<string, Set<string>>() // group → ids
+
+    const toCell = (value: number): number => Math.floor(value / cellSize)
+    const cellKey = (group: string, row: number, col: number): string => `${group}:${row}:${col}`
+
+    const addTo = (buckets: Map<string, Set<string>>, key: string, id: string): void => {
+        if (!buckets.has(key)) buckets.set(key, new Set())
+        buckets.get(key)!.add(id)
+    }
+
+    const removeFrom = (buckets: Map<string, Set<string>>, key: string, id: string): void => {
+        const bucket = buckets.get(key)
+        bucket?.delete(id)
+        if (bucket?.size === 0) buckets.delete(key)
+    }
+
+    const remove = (id: string): void => {
+        const point = points.get(id)
+        if (!point) return
+        points.delete(id)
+        removeFrom(cells, point.cell, id)
+        removeFrom(groups, point.group, id)
+    }
+
+    const set = (id: string, group: string, location: Coordinates): void => {
+        const cell = cellKey(group, toCell(location.latitude), toCell(location.longitude))
+        const existing = points.get(id)
+        if (existing && (existing.group !== group || existing.cell !== cell)) remove(id)
+
+        points.set(id, { group, location: { latitude: location.latitude, longitude: location.longitude }, cell })
+        addTo(cells, cell, id)
+        addTo(groups, group, id)
+    }
+
+    const get = (id: string): Coordinates | undefined => points.get(id)?.location
+
+    const candidates = (group: string, center: Coordinates, radius: number): Iterable<string> => {
+        const members = groups.get(group)
+        if (!members) return []
+        if (!Number.isFinite(radius)) return members
+
+        const latSpan = radius / METERS_PER_DEGREE
+        const lngSpan = radius / (METERS_PER_DEGREE * Math.max(Math.cos((center.latitude * Math.PI) / 180), 0.01))
+        if (center.longitude - lngSpan < -180 || center.longitude + lngSpan > 180) return members
+
+        const rows = [toCell(Math.max(center.latitude - latSpan, -90)), toCell(Math.min(center.latitude + latSpan, 90))]
+        const cols = [toCell(center.longitude - lngSpan), toCell(center.longitude + lngSpan)]
+        if ((rows[1] - rows[0] + 1) * (cols[1] - cols[0] + 1) > members.size) return members
+
+        const ids: string[] = []
+        for (let row = rows[0]; row <= rows[1]; row++) {
+            for (let col = cols[0]; col <= cols[1]; col++) {
+                cells.get(cellKey(group, row, col))?.forEach((id) => ids.push(id))
+            }
+        }
+        return ids
+    }
+
+    // Points of the group within `radius` meters of `center` (all of them when omitted), nearest first
+    const nearest = (group: string, center: Coordinates, options: { radius?: number; limit?: number } = {}): SpatialMatch[] => {
+        const radius = options.radius ?? Infinity
+        const matches: SpatialMatch[] = []
+        for (const id of candidates(group, center, radius)) {
+            const location = points.get(id)!.location
+            const distance = haversineMeters(center, location)
+            if (distance <= radius) matches.push({ id, location, distance })
+        }
+        matches.sort((a, b) => a.distance - b.distance)
+        return options.limit === undefined ? matches : matches.slice(0, options.limit)
+    }
+
+    const list = (group: string): Array<{ id: string; location: Coordinates }> =>
+        Array.from(groups.get(group) || [], (id) => ({ id, location: points.get(id)!.location }))
+
+    return { set, remove, get, nearest, list }
+}
+
+export type SpatialIndex = ReturnType<typeof createSpatialIndex>
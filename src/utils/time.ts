@@ -0,0 +1,10 @@
+/**
+ * Parses an ISO 8601 string or epoch milliseconds (number or digit string).
+ * Returns `fallback` when the value is absent and NaN when it is unparseable.
+ */
+export const parseTime = (value: unknown, fallback: number): number => {
+    if (value === undefined || value === null || value === "") return fallback
+    if (typeof value === "number") return Number.isFinite(value) ? value : NaN
+    if (typeof value !== "string") return NaN
+    return /^\d+$/.test(value) ? Number(value) : new Date(value).getTime()
+}
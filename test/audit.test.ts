@@ -0,0 +1,70 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { createAuditStore, hashPayload, type AuditEntry } from "../src/stores/audit"
+import { createMemoryEventLog, type EventLog } from "../src/stores/eventLog"
+
+const entry = (id: string, timestamp: string, sessionId: string | null): AuditEntry => ({
+    id,
+    type: "join",
+    sessionId,
+    actor: { accountId: "a1" },
+    target: null,
+    timestamp,
+    payload: {},
+    payloadHash: hashPayload({}),
+})
+
+// A log that remembers which partitions were read
+const tracedLog = () => {
+    const log = createMemoryEventLog<AuditEntry>()
+    const reads: string[] = []
+    const traced: EventLog<AuditEntry> = {
+        ...log,
+        read: (partition) => {
+            reads.push(partition)
+            return log.read(partition)
+        },
+    }
+    return { log: traced, reads }
+}
+
+describe("audit store", () => {
+    it("partitions entries by session and day and reads only the ones a query covers", async () => {
+        const { log, reads } = tracedLog()
+        const store = createAuditStore(log)
+        await store.record({ type: "ban", sessionId: "s1", actor: null, target: null, payload: {} })
+        await store.record({ type: "shutdown", sessionId: null, actor: null, target: null, payload: {} })
+        const today = new Date().toISOString().slice(0, 10)
+        assert.deepEqual((await log.partitions()).sort(), [today, `s1/${today}`])
+
+        await log.append("s2/2025-03-01", entry("other", "2025-03-01T10:00:00.000Z", "s2"))
+        // Recorded before entries were split by session
+        await log.append("2025-03-01", entry("legacy", "2025-03-01T09:00:00.000Z", "s1"))
+
+        reads.length = 0
+        const page = await store.list({
+            sessionId: "s1",
+            from: Date.parse("2025-03-01T00:00:00Z"),
+            to: Date.parse("2025-03-01T23:59:59Z"),
+        })
+        assert.deepEqual(page.entries.map((e) => e.id), ["legacy"])
+        assert.deepEqual(reads, ["2025-03-01"])
+    })
+
+    it("stops reading older days once a page is complete", async () => {
+        const { log, reads } = tracedLog()
+        const store = createAuditStore(log)
+        await log.append("s1/2025-03-01", entry("first", "2025-03-01T10:00:00.000Z", "s1"))
+        await log.append("s1/2025-03-02", entry("second", "2025-03-02T10:00:00.000Z", "s1"))
+        await log.append("s1/2025-03-02", entry("third", "2025-03-02T11:00:00.000Z", "s1"))
+
+        const page = await store.list({ limit: 1 })
+        assert.deepEqual(page.entries.map((e) => e.id), ["third"])
+        assert.equal(page.hasMore, true)
+        assert.deepEqual(reads, ["s1/2025-03-02"])
+
+        const next = await store.list({ limit: 2, before: page.before! })
+        assert.deepEqual(next.entries.map((e) => e.id), ["second", "first"])
+        assert.equal(next.hasMore, false)
+    })
+})
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict"
+import cluster, { type Worker } from "node:cluster"
+import path from "node:path"
+import { after, before, describe, it } from "node:test"
+import { io, type Socket } from "socket.io-client"
+import { startIpcHub } from "../src/scaling/ipc"
+
+// Each worker listens on its own port, so every client knows which node it is connected to
+const PORTS = [4711, 4712]
+const SESSION_ID = "cluster-test"
+
+const startWorker = (port: number): Promise<Worker> =>
+    new Promise((resolve, reject) => {
+        const worker = cluster.fork({
+            PORT: String(port),
+            NODE_ENV: "test",
+            ALLOW_DEV_TOKENS: "true",
+            STORAGE_DRIVER: "memory",
+            TS_NODE_TRANSPILE_ONLY: "true",
+        })
+        worker.once("listening", () => resolve(worker))
+        worker.once("exit", (code) => reject(new Error(`Worker on port ${port} exited with ${code}`)))
+    })
+
+const stopWorker = (worker: Worker): Promise<void> =>
+    new Promise((resolve) => {
+        if (worker.isDead()) return resolve()
+        worker.once("exit", () => resolve())
+        worker.process.kill("SIGKILL")
+    })
+
+type Claims = { name: string; role: string; userId: string }
+
+const tokenFor = async (port: number, claims: Claims): Promise<string> => {
+    const response = await fetch(`http://localhost:${port}/api/auth/token`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(claims),
+    })
+    return ((await response.json()) as { token: string }).token
+}
+
+const connect = async (port: number, claims: Claims): Promise<Socket> => {
+    const token = await tokenFor(port, claims)
+    const socket = io(`http://localhost:${port}`, { auth: { token }, transports: ["websocket"], reconnection: false })
+    await new Promise<void>((resolve, reject) => {
+        socket.once("connect", resolve)
+        socket.once("connect_error", reject)
+    })
+    return socket
+}
+
+const next = <T = any>(socket: Socket, event: string, timeoutMs = 5000): Promise<T> =>
+    new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Timed out waiting for "${event}"`)), timeoutMs)
+        socket.once(event, (payload: T) => {
+            clearTimeout(timer)
+            resolve(payload)
+        })
+    })
+
+// Joins the test session and returns the participant id the socket was given
+const join = async (socket: Socket, name: string): Promise<string> => {
+    const joined = next<Array<{ id: string; name: string }>>(socket, "users-list")
+    socket.emit("join-tracking", { sessionId: SESSION_ID })
+    return (await joined).find((user) => user.name === name)!.id
+}
+
+describe("two server instances", { timeout: 120000 }, () => {
+    const workers: Worker[] = []
+    let dispatcher: Socket
+    let worker: Socket
+    let workerId: string
+
+    before(async () => {
+        cluster.setupPrimary({
+            exec: path.join(__dirname, "../src/server.ts"),
+            execArgv: ["-r", "ts-node/register"],
+            stdio: ["ignore", "ignore", "inherit", "ipc"],
+        })
+        startIpcHub()
+        workers.push(...(await Promise.all(PORTS.map(startWorker))))
+
+        dispatcher = await connect(PORTS[0], { name: "Dispatcher", role: "admin", userId: "dispatcher" })
+        await join(dispatcher, "Dispatcher")
+        worker = await connect(PORTS[1], { name: "Field worker", role: "worker", userId: "field-worker" })
+        workerId = await join(worker, "Field worker")
+    })
+
+    after(async () => {
+        dispatcher?.close()
+        worker?.close()
+        await Promise.all(workers.map(stopWorker))
+    })
+
+    it("relays location updates to participants on the other node", async () => {
+        const received = next(dispatcher, "location-update")
+        worker.emit("location-update", { location: { latitude: 51.5, longitude: -0.1 }, accuracy: 5 })
+
+        const update = await received
+        assert.equal(update.userId, workerId)
+        assert.deepEqual(update.location, { latitude: 51.5, longitude: -0.1 })
+    })
+
+    it("exports location history recorded on the other node", async () => {
+        const token = await tokenFor(PORTS[0], { name: "Dispatcher", role: "admin", userId: "dispatcher" })
+        await new Promise((resolve) => setTimeout(resolve, 200))
+
+        const response = await fetch(`http://localhost:${PORTS[0]}/api/sessions/${SESSION_ID}/users/field-worker/track`, {
+            headers: { authorization: `Bearer ${token}` },
+        })
+        const track = (await response.json()) as { features: Array<{ geometry: { coordinates: number[][][] } }> }
+        assert.equal(response.status, 200)
+        assert.deepEqual(track.features[0].geometry.coordinates, [[[-0.1, 51.5]]])
+    })
+
+    it("relays new messages to participants on the other node", async () => {
+        const received = next(worker, "new-message")
+        const ack = await dispatcher.emitWithAck("send-message", { message: "Head to site B" })
+        assert.equal(ack.success, true)
+
+        const message = await received
+        assert.equal(message.id, ack.id)
+        assert.equal(message.message, "Head to site B")
+    })
+
+    it("finds messages posted on the other node when reacting to them", async () => {
+        const ack = await dispatcher.emitWithAck("send-message", { message: "Confirm when on site" })
+        await new Promise((resolve) => setTimeout(resolve, 200))
+
+        const failed = next(worker, "error", 1000).then(
+            (error) => error,
+            () => null,
+        )
+        const received = next(dispatcher, "message-reaction-update")
+        worker.emit("message-reaction", { messageId: ack.id, emoji: "👍", action: "add" })
+
+        const update = await received
+        assert.equal(update.messageId, ack.id)
+        assert.equal(update.userId, workerId)
+        assert.equal(await failed, null)
+    })
+})
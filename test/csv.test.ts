@@ -0,0 +1,18 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { toCsv } from "../src/utils/csv"
+
+describe("toCsv", () => {
+    it("quotes cells with separators, quotes and line breaks", () => {
+        assert.equal(toCsv(["a", "b"], [['x,y', 'say "hi"'], ["line\nbreak", null]]), 'a,b\r\n"x,y","say ""hi"""\r\n"line\nbreak",\r\n')
+    })
+
+    it("neutralizes text that a spreadsheet would run as a formula", () => {
+        const csv = toCsv(["name"], [["=HYPERLINK(\"http://x\")"], ["+1"], ["-2+3"], ["@SUM(A1)"], ["\tTab"]])
+        assert.deepEqual(csv.split("\r\n").slice(1, -1), ["\"'=HYPERLINK(\"\"http://x\"\")\"", "'+1", "'-2+3", "'@SUM(A1)", "'\tTab"])
+    })
+
+    it("leaves numbers alone", () => {
+        assert.equal(toCsv(["lng"], [[-0.1412]]), "lng\r\n-0.1412\r\n")
+    })
+})
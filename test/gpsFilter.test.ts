@@ -0,0 +1,50 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { config } from "../src/config"
+import { createLocalPubSub } from "../src/scaling/pubsub"
+import { createGpsFilter, type GpsFix } from "../src/services/gpsFilter"
+
+const options = { ...config.gps, maxSpeedMps: 60, kalman: false }
+
+const fix = (minutes: number, latitude: number, seconds = 0): GpsFix => ({
+    latitude,
+    longitude: 0,
+    accuracy: 5,
+    timestamp: new Date(Date.UTC(2025, 2, 1, 10, minutes, seconds)).toISOString(),
+})
+
+describe("gps filter", () => {
+    it("rejects jumps faster than the speed limit", () => {
+        const filter = createGpsFilter(createLocalPubSub(), options)
+        assert.equal(filter.process("s", "a", fix(0, 10)).accepted, true)
+        const jump = filter.process("s", "a", fix(1, 11.4)) // ~155 km in a minute
+        assert.equal(jump.accepted, false)
+        assert.equal(jump.reason, "IMPLAUSIBLE_SPEED")
+    })
+
+    it("judges late fixes against the baseline before them, not the newest fix", () => {
+        const filter = createGpsFilter(createLocalPubSub(), options)
+        filter.process("s", "a", fix(30, 10))
+
+        const early = fix(0, 10)
+        assert.equal(filter.process("s", "a", fix(2, 11.4), early).reason, "IMPLAUSIBLE_SPEED")
+        assert.equal(filter.process("s", "a", fix(2, 10.001), early).accepted, true)
+        assert.equal(filter.process("s", "a", fix(3, 10.001), null).accepted, true)
+    })
+
+    it("rejects a backdated jump judged against the newest fix", () => {
+        const filter = createGpsFilter(createLocalPubSub(), options)
+        filter.process("s", "a", fix(0, 10, 30))
+        const backdated = filter.process("s", "a", fix(0, 10.45, 29)) // ~50 km, dated a second earlier
+        assert.equal(backdated.accepted, false)
+        assert.equal(backdated.reason, "IMPLAUSIBLE_SPEED")
+    })
+
+    it("does not move the newest fix back for late fixes", () => {
+        const filter = createGpsFilter(createLocalPubSub(), options)
+        filter.process("s", "a", fix(30, 10))
+        assert.equal(filter.process("s", "a", fix(10, 10.01), fix(0, 10)).latest, false)
+        // Compared with the newest fix (minute 30), not the late one (minute 10)
+        assert.equal(filter.process("s", "a", fix(30, 10, 10)).reason, "STATIONARY")
+    })
+})
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, describe, it } from "node:test"
+import { createFileEventLog, createMemoryEventLog } from "../src/stores/eventLog"
+import { createLocationStore, type LocationPoint } from "../src/stores/locations"
+
+const point = (timestamp: string, overrides: Partial<LocationPoint> = {}): LocationPoint => ({
+    sessionId: "s1",
+    accountId: "w1",
+    userId: "u1",
+    userName: "Worker",
+    latitude: 51.5,
+    longitude: -0.1,
+    accuracy: 5,
+    speed: null,
+    heading: null,
+    timestamp,
+    receivedAt: timestamp,
+    ...overrides,
+})
+
+describe("location store", () => {
+    it("partitions history by session and day and reads only the days in range", async () => {
+        const log = createMemoryEventLog<LocationPoint>()
+        const store = createLocationStore(log)
+        await store.append(point("2025-03-02T09:00:00.000Z"))
+        await store.append(point("2025-03-01T23:59:00.000Z"))
+        await store.append(point("2025-03-02T08:00:00.000Z", { accountId: "w2" }))
+        await store.append(point("2025-03-02T10:00:00.000Z", { flagged: "LOW_ACCURACY" }))
+        await store.append(point("2025-03-02T09:30:00.000Z", { sessionId: "s2" }))
+
+        assert.deepEqual((await log.partitions()).sort(), ["s1/2025-03-01", "s1/2025-03-02", "s2/2025-03-02"])
+
+        const all = await store.list("s1")
+        assert.deepEqual(
+            all.map((p) => p.timestamp),
+            ["2025-03-01T23:59:00.000Z", "2025-03-02T08:00:00.000Z", "2025-03-02T09:00:00.000Z"],
+        )
+
+        const ranged = await store.list("s1", { accountId: "w1", from: Date.parse("2025-03-02T00:00:00Z"), includeFlagged: true })
+        assert.deepEqual(
+            ranged.map((p) => p.timestamp),
+            ["2025-03-02T09:00:00.000Z", "2025-03-02T10:00:00.000Z"],
+        )
+    })
+
+    it("drops whole days before the retention cutoff", async () => {
+        const store = createLocationStore(createMemoryEventLog<LocationPoint>())
+        await store.append(point("2025-03-01T12:00:00.000Z"))
+        await store.append(point("2025-03-03T12:00:00.000Z"))
+        await store.append(point("2025-03-01T12:00:00.000Z", { sessionId: "s2" }))
+
+        assert.equal(await store.prune(Date.parse("2025-03-02T06:00:00Z")), 2)
+        assert.deepEqual((await store.list("s1")).map((p) => p.timestamp), ["2025-03-03T12:00:00.000Z"])
+        assert.deepEqual(await store.list("s2"), [])
+    })
+
+    it("splits history recorded per session into days", async () => {
+        const log = createMemoryEventLog<LocationPoint>()
+        await log.append("s1", point("2025-03-01T12:00:00.000Z"))
+        await log.append("s1", point("2025-03-02T12:00:00.000Z"))
+
+        const store = createLocationStore(log)
+        assert.equal((await store.list("s1")).length, 2)
+        assert.deepEqual((await log.partitions()).sort(), ["s1/2025-03-01", "s1/2025-03-02"])
+    })
+})
+
+describe("file event log", () => {
+    const directories: string[] = []
+    after(() => Promise.all(directories.map((directory) => rm(directory, { recursive: true, force: true }))))
+
+    const tempLog = async (cacheSize: number) => {
+        const directory = await mkdtemp(path.join(tmpdir(), "event-log-"))
+        directories.push(directory)
+        return { directory, log: createFileEventLog<{ n: number }>(directory, cacheSize) }
+    }
+
+    it("reads partitions back from disk after letting them go", async () => {
+        const { log } = await tempLog(1)
+        await Promise.all([log.append("a", { n: 1 }), log.append("b", { n: 2 }), log.append("a", { n: 3 })])
+        await log.append("b", { n: 4 })
+
+        assert.deepEqual(await log.read("a"), [{ n: 1 }, { n: 3 }])
+        assert.deepEqual(await log.read("b"), [{ n: 2 }, { n: 4 }])
+        assert.deepEqual(await log.read("a"), [{ n: 1 }, { n: 3 }])
+    })
+
+    it("keeps concurrent appends and reads consistent while evicting", async () => {
+        const { directory, log } = await tempLog(2)
+        const partitions = ["a", "b", "c", "d"]
+        await Promise.all(
+            Array.from({ length: 40 }, (_, n) =>
+                n % 3 === 0 ? log.read(partitions[n % 4]) : log.append(partitions[n % 4], { n }),
+            ),
+        )
+
+        const reopened = createFileEventLog<{ n: number }>(directory)
+        for (const partition of partitions) {
+            const expected = Array.from({ length: 40 }, (_, n) => n).filter((n) => n % 4 === partitions.indexOf(partition) && n % 3 !== 0)
+            assert.deepEqual((await log.read(partition)).map((record) => record.n), expected)
+            assert.deepEqual((await reopened.read(partition)).map((record) => record.n), expected)
+        }
+    })
+
+    it("reads records another node appended to the same directory once they are applied", async () => {
+        const { directory, log } = await tempLog(4)
+        const other = createFileEventLog<{ n: number }>(directory)
+        await log.append("a", { n: 1 })
+        assert.deepEqual(await other.read("a"), [{ n: 1 }])
+
+        await log.append("a", { n: 2 })
+        await other.apply("a", { n: 2 })
+        assert.deepEqual(await other.read("a"), [{ n: 1 }, { n: 2 }])
+    })
+})
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import {
+    canGrant,
+    canModerate,
+    canModifyMessage,
+    canPerform,
+    canView,
+    coarsenLocation,
+    EVENT_PERMISSIONS,
+    forbiddenError,
+    redactForViewer,
+} from "../src/auth/permissions"
+import { CLIENT_EVENTS } from "../src/sockets/contract"
+import { ROLES, type Role } from "../src/types"
+
+const STAFF: Role[] = ["admin", "moderator"]
+
+const other = {
+    id: "u2",
+    name: "Other",
+    location: { latitude: 51.501234, longitude: -0.141234 },
+    accuracy: 4,
+    speed: 1.5,
+    heading: 90,
+    trail: [{ latitude: 51.5, longitude: -0.14, timestamp: "2025-01-01T10:00:00.000Z" }],
+    eta: { distanceMeters: 120 },
+}
+
+describe("EVENT_PERMISSIONS", () => {
+    it("lets every role use the basic participant events", () => {
+        const basic = ["join-tracking", "users-list", "location-update", "send-message", "message-reaction", "status-update"]
+        for (const event of basic) {
+            for (const role of ROLES) assert.ok(canPerform(role, event), `${role} should be allowed ${event}`)
+        }
+    })
+
+    it("keeps moderation and review to staff", () => {
+        const staffOnly = ["moderation-kick", "moderation-ban", "moderation-list", "sos-ack", "timesheets-view", "replay-start", "invite-create"]
+        for (const event of staffOnly) {
+            for (const role of ROLES) assert.equal(canPerform(role, event), STAFF.includes(role), `${role} → ${event}`)
+        }
+    })
+
+    it("keeps role changes, geofence definitions and the audit log to admins", () => {
+        for (const event of ["moderation-role", "geofence-define", "geofence-delete", "audit-view", "session-close", "session-delete"]) {
+            for (const role of ROLES) assert.equal(canPerform(role, event), role === "admin", `${role} → ${event}`)
+        }
+    })
+
+    it("denies events missing from the table", () => {
+        for (const role of ROLES) assert.equal(canPerform(role, "drop-database"), false)
+    })
+
+    it("covers every event in the socket contract", () => {
+        const missing = Object.keys(CLIENT_EVENTS).filter((event) => !(event in EVENT_PERMISSIONS))
+        assert.deepEqual(missing, [])
+    })
+
+    it("only lists known roles", () => {
+        for (const [event, roles] of Object.entries(EVENT_PERMISSIONS)) {
+            for (const role of roles) assert.ok(ROLES.includes(role), `${event} lists unknown role ${role}`)
+        }
+    })
+
+    it("describes violations with a uniform FORBIDDEN error", () => {
+        assert.deepEqual(forbiddenError("moderation-kick"), {
+            message: 'You are not allowed to perform "moderation-kick"',
+            code: "FORBIDDEN",
+            action: "moderation-kick",
+        })
+    })
+})
+
+describe("role ranking", () => {
+    it("only moderates roles ranked below the actor", () => {
+        assert.ok(canModerate("admin", "moderator"))
+        assert.ok(canModerate("moderator", "worker"))
+        assert.equal(canModerate("moderator", "moderator"), false)
+        assert.equal(canModerate("worker", "new"), true)
+        assert.equal(canModerate("moderator", "admin"), false)
+    })
+
+    it("grants roles up to the actor's own", () => {
+        assert.ok(canGrant("moderator", "moderator"))
+        assert.equal(canGrant("moderator", "admin"), false)
+    })
+
+    it("lets authors and staff modify messages", () => {
+        assert.ok(canModifyMessage("worker", "a", "a"))
+        assert.equal(canModifyMessage("worker", "a", "b"), false)
+        assert.ok(canModifyMessage("moderator", "a", "b"))
+    })
+})
+
+describe("redactForViewer", () => {
+    it("passes everything through for roles with full view access", () => {
+        for (const role of ["admin", "moderator", "worker"] as Role[]) {
+            assert.ok(canView(role, "view-trail") && canView(role, "view-exact-location"))
+            assert.deepEqual(redactForViewer(other, role), other)
+        }
+    })
+
+    it("hides the trail and exact position from new users", () => {
+        const redacted = redactForViewer(other, "new")
+        assert.deepEqual(redacted.trail, [])
+        assert.deepEqual(redacted.location, { latitude: 51.5, longitude: -0.14, approximate: true })
+        assert.equal(redacted.accuracy, null)
+        assert.equal(redacted.speed, null)
+        assert.equal(redacted.heading, null)
+        assert.equal(redacted.eta, null)
+        assert.equal(redacted.name, "Other")
+    })
+
+    it("does not modify the original payload", () => {
+        const copy = structuredClone(other)
+        redactForViewer(other, "new")
+        assert.deepEqual(other, copy)
+    })
+
+    it("leaves fields the payload does not have alone", () => {
+        const redacted = redactForViewer({ userId: "u2", location: null }, "new")
+        assert.deepEqual(redacted, { userId: "u2", location: null })
+    })
+})
+
+describe("coarsenLocation", () => {
+    it("rounds to about a kilometre and marks the result approximate", () => {
+        assert.deepEqual(coarsenLocation({ latitude: 12.3456, longitude: 98.7654 }), { latitude: 12.35, longitude: 98.77, approximate: true })
+    })
+
+    it("keeps missing locations as they are", () => {
+        assert.equal(coarsenLocation(null), null)
+        assert.equal(coarsenLocation(undefined), undefined)
+    })
+})